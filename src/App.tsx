@@ -1,21 +1,33 @@
-import { Routes, Route, Outlet, useLocation, useNavigate } from 'react-router-dom';
+import { Routes, Route, Outlet, Navigate, useLocation, useNavigate } from 'react-router-dom';
 import { useEffect, useRef } from 'react';
 import Header from './components/Header';
+import BackendCompatibilityBanner from './components/BackendCompatibilityBanner';
 import Footer from './components/Footer';
+import ZipDownloadPanel from './components/ZipDownloadPanel';
 import Dashboard from './pages/Dashboard';
 import Gallery from './pages/Gallery';
 import SearchPage from './pages/Search';
 import AlbumsPage from './pages/Albums';
 import PeoplePage from './pages/People';
+import DuplicatesPage from './pages/Duplicates';
+import TagsPage from './pages/Tags';
 import AssetDetail from './pages/AssetDetail';
 import NotFound from './pages/NotFound';
+import LoginPage from './pages/Login';
 import { useUIStore } from './lib/store';
+import { useLiveUpdates } from './lib/liveUpdates';
+import { useAuthStore } from './lib/auth';
 
 export default function App() {
   const location = useLocation();
   const navigate = useNavigate();
   const defaultScreen = useUIStore((s) => s.defaultScreen);
   const hasRedirected = useRef(false);
+  const authRequired = useAuthStore((s) => s.required);
+  const isLoginPage = location.pathname === '/login';
+
+  // Stream scan and face-detection progress into the query cache
+  useLiveUpdates(!authRequired && !isLoginPage);
 
   // Disable browser's automatic scroll restoration
   useEffect(() => {
@@ -32,9 +44,18 @@ export default function App() {
     }
   }, [location.pathname, defaultScreen, navigate]);
 
+  if (isLoginPage) return <LoginPage />;
+
+  // The backend rejected the session (or there is none); come back here after signing in
+  if (authRequired) {
+    const next = encodeURIComponent(location.pathname + location.search);
+    return <Navigate to={`/login?next=${next}`} replace />;
+  }
+
   return (
     <div className="min-h-full flex flex-col">
       <Header />
+      <BackendCompatibilityBanner />
       <main className="flex-1">
         <Routes>
           <Route element={<PageLayout />}>
@@ -43,12 +64,15 @@ export default function App() {
             <Route path="search" element={<SearchPage />} />
             <Route path="albums" element={<AlbumsPage />} />
             <Route path="people" element={<PeoplePage />} />
+            <Route path="tags" element={<TagsPage />} />
+            <Route path="duplicates" element={<DuplicatesPage />} />
             <Route path="asset/:id" element={<AssetDetail />} />
             <Route path="*" element={<NotFound />} />
           </Route>
         </Routes>
       </main>
       <Footer />
+      <ZipDownloadPanel />
     </div>
   );
 }
@@ -1,17 +1,11 @@
 import { useState, useEffect } from 'react';
-import { XMarkIcon, FunnelIcon } from '@heroicons/react/24/outline';
+import { XMarkIcon, FunnelIcon, HeartIcon, StarIcon } from '@heroicons/react/24/outline';
 import { ChevronDownIcon, ChevronUpIcon } from '@heroicons/react/24/outline';
+import type { SearchFilters } from '../types';
+import { hasSearchFilters } from '../lib/searchFilters';
+import { MAX_RATING } from '../lib/assetFlags';
 
-export interface AdvancedFilters {
-  from?: string;
-  to?: string;
-  camera_make?: string;
-  camera_model?: string;
-  minSize?: number;
-  maxSize?: number;
-  fileTypes?: string[];
-  platformType?: string;
-}
+export type AdvancedFilters = SearchFilters;
 
 interface AdvancedFiltersProps {
   value: AdvancedFilters;
@@ -60,16 +54,8 @@ export default function AdvancedFilters({
     setLocalFilters(value);
   }, [value]);
 
-  const hasActiveFilters = Boolean(
-    localFilters.from ||
-    localFilters.to ||
-    localFilters.camera_make ||
-    localFilters.camera_model ||
-    localFilters.minSize ||
-    localFilters.maxSize ||
-    (localFilters.fileTypes && localFilters.fileTypes.length > 0) ||
-    localFilters.platformType
-  );
+  // Also counts filters only the query syntax sets, such as lens: or person:
+  const hasActiveFilters = hasSearchFilters(localFilters);
 
   const handleApply = () => {
     onChange(localFilters);
@@ -86,6 +72,8 @@ export default function AdvancedFilters({
       maxSize: undefined,
       fileTypes: undefined,
       platformType: undefined,
+      favorite: undefined,
+      minRating: undefined,
     };
     setLocalFilters(cleared);
     onChange(cleared);
@@ -327,6 +315,42 @@ export default function AdvancedFilters({
             </div>
           </div>
 
+          {/* Favorites and Rating */}
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Favorites &amp; Rating</label>
+            <div className="flex flex-wrap gap-2">
+              <button
+                onClick={() => setLocalFilters({ ...localFilters, favorite: localFilters.favorite ? undefined : true })}
+                className={`px-3 py-1.5 rounded-md text-sm border transition-colors flex items-center gap-1.5 ${
+                  localFilters.favorite
+                    ? 'bg-blue-600 text-white border-blue-600'
+                    : 'border-zinc-300 dark:border-zinc-700 hover:bg-zinc-50 dark:hover:bg-zinc-800'
+                }`}
+              >
+                <HeartIcon className="w-4 h-4" />
+                Favorites
+              </button>
+              {Array.from({ length: MAX_RATING }, (_, i) => i + 1).map((rating) => (
+                <button
+                  key={rating}
+                  onClick={() =>
+                    setLocalFilters({ ...localFilters, minRating: localFilters.minRating === rating ? undefined : rating })
+                  }
+                  className={`px-3 py-1.5 rounded-md text-sm border transition-colors flex items-center gap-1 ${
+                    localFilters.minRating === rating
+                      ? 'bg-blue-600 text-white border-blue-600'
+                      : 'border-zinc-300 dark:border-zinc-700 hover:bg-zinc-50 dark:hover:bg-zinc-800'
+                  }`}
+                  title={`Rated ${rating} or more`}
+                >
+                  <StarIcon className="w-4 h-4" />
+                  {rating}
+                  {rating < MAX_RATING && '+'}
+                </button>
+              ))}
+            </div>
+          </div>
+
           {/* Actions */}
           <div className="flex items-center gap-2 pt-2 border-t border-zinc-200 dark:border-zinc-700">
             <button
@@ -0,0 +1,117 @@
+import { useState } from 'react';
+import { media } from '../lib/api';
+import { isVideo } from '../lib/utils';
+import type { Asset } from '../types';
+
+interface AlbumAssetOrderEditorProps {
+  assets: Asset[];
+  onSave: (assetIds: number[]) => Promise<void>;
+  onCancel: () => void;
+}
+
+// Drag thumbnails to rearrange an album; dropping on a thumbnail places the
+// dragged asset before it, dropping on the end slot moves it last
+export default function AlbumAssetOrderEditor({ assets, onSave, onCancel }: AlbumAssetOrderEditorProps) {
+  const [order, setOrder] = useState<Asset[]>(assets);
+  const [draggedId, setDraggedId] = useState<number | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<number | 'end' | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const isChanged = order.some((asset, i) => asset.id !== assets[i]?.id);
+
+  const moveBefore = (targetId: number | 'end') => {
+    if (draggedId === null || draggedId === targetId) return;
+    setOrder((prev) => {
+      const dragged = prev.find((a) => a.id === draggedId);
+      if (!dragged) return prev;
+      const rest = prev.filter((a) => a.id !== draggedId);
+      const index = targetId === 'end' ? rest.length : rest.findIndex((a) => a.id === targetId);
+      return [...rest.slice(0, index), dragged, ...rest.slice(index)];
+    });
+  };
+
+  const handleDragOver = (e: React.DragEvent, targetId: number | 'end') => {
+    if (draggedId === null || draggedId === targetId) return;
+    e.preventDefault();
+    setDropTargetId(targetId);
+  };
+
+  const handleDrop = (e: React.DragEvent, targetId: number | 'end') => {
+    e.preventDefault();
+    moveBefore(targetId);
+    setDraggedId(null);
+    setDropTargetId(null);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave(order.map((a) => a.id));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs text-zinc-500">Drag photos and videos into the order the album should show them.</span>
+        <div className="flex gap-2">
+          <button
+            onClick={handleSave}
+            disabled={!isChanged || isSaving}
+            className="px-3 py-1.5 rounded-md bg-blue-600 hover:bg-blue-700 text-white text-sm transition-colors disabled:opacity-50"
+          >
+            {isSaving ? 'Saving…' : 'Save order'}
+          </button>
+          <button
+            onClick={onCancel}
+            className="px-3 py-1.5 rounded-md border border-zinc-300 dark:border-zinc-700 hover:bg-zinc-50 dark:hover:bg-zinc-800 text-sm transition-colors"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+      <div className="grid gap-2" style={{ gridTemplateColumns: 'repeat(auto-fill, minmax(110px, 1fr))' }}>
+        {order.map((asset, i) => (
+          <div
+            key={asset.id}
+            draggable
+            onDragStart={() => setDraggedId(asset.id)}
+            onDragEnd={() => {
+              setDraggedId(null);
+              setDropTargetId(null);
+            }}
+            onDragOver={(e) => handleDragOver(e, asset.id)}
+            onDragLeave={() => setDropTargetId(null)}
+            onDrop={(e) => handleDrop(e, asset.id)}
+            className={`relative aspect-square rounded-md overflow-hidden bg-zinc-200 dark:bg-zinc-700 cursor-move border-2 transition-colors ${
+              dropTargetId === asset.id ? 'border-blue-500' : 'border-transparent'
+            } ${draggedId === asset.id ? 'opacity-40' : ''}`}
+            title={asset.filename}
+          >
+            <img
+              src={media.thumbUrl(asset.id, asset.sha256)}
+              alt={asset.filename}
+              className="w-full h-full object-cover pointer-events-none"
+              loading="lazy"
+            />
+            <span className="absolute top-1 left-1 px-1.5 rounded bg-black/60 text-white text-xs">{i + 1}</span>
+            {isVideo(asset.mime) && (
+              <span className="absolute bottom-1 right-1 px-1.5 rounded bg-black/60 text-white text-xs">Video</span>
+            )}
+          </div>
+        ))}
+        <div
+          onDragOver={(e) => handleDragOver(e, 'end')}
+          onDragLeave={() => setDropTargetId(null)}
+          onDrop={(e) => handleDrop(e, 'end')}
+          className={`aspect-square rounded-md border-2 border-dashed flex items-center justify-center text-xs text-zinc-500 ${
+            dropTargetId === 'end' ? 'border-blue-500' : 'border-zinc-300 dark:border-zinc-700'
+          }`}
+        >
+          Move to end
+        </div>
+      </div>
+    </div>
+  );
+}
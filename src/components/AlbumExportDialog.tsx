@@ -0,0 +1,94 @@
+import { Dialog } from '@headlessui/react';
+import { useState } from 'react';
+import { exportAlbumGallery } from '../lib/galleryExport';
+import { saveBlob } from '../lib/utils';
+import type { Album } from '../lib/albums';
+
+interface AlbumExportDialogProps {
+  album: Album | null;
+  onClose: () => void;
+}
+
+export default function AlbumExportDialog({ album, onClose }: AlbumExportDialogProps) {
+  const [includeOriginals, setIncludeOriginals] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const isExporting = progress !== null;
+
+  const handleExport = async () => {
+    if (!album) return;
+    setProgress({ done: 0, total: album.assetIds.length });
+    try {
+      const result = await exportAlbumGallery(album, {
+        includeOriginals,
+        onProgress: (done, total) => setProgress({ done, total }),
+      });
+      saveBlob(result.blob, result.filename);
+      if (result.skipped > 0) {
+        alert(`${result.skipped} ${result.skipped === 1 ? 'asset' : 'assets'} could not be fetched and were left out of the gallery.`);
+      }
+      onClose();
+    } catch (error) {
+      console.error('Failed to export album:', error);
+      alert('Failed to export album. Please try again.');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <Dialog as="div" className="relative z-50" open={!!album} onClose={() => !isExporting && onClose()}>
+      <div className="fixed inset-0 bg-black/30 dark:bg-black/50" />
+      <div className="fixed inset-0 overflow-y-auto">
+        <div className="flex min-h-full items-center justify-center p-4">
+          <Dialog.Panel className="w-full max-w-md rounded-lg bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 shadow-xl p-6 space-y-4">
+            <Dialog.Title className="text-lg font-semibold text-zinc-900 dark:text-zinc-100">
+              Export "{album?.name}" as web gallery
+            </Dialog.Title>
+            <p className="text-sm text-zinc-600 dark:text-zinc-400">
+              Creates a ZIP with an <code>index.html</code> viewer and the album's previews. Unzip it and open the page from a
+              USB stick, or upload the folder to any static web host.
+            </p>
+            <label className="flex items-center gap-2 text-sm text-zinc-700 dark:text-zinc-300">
+              <input
+                type="checkbox"
+                checked={includeOriginals}
+                onChange={(e) => setIncludeOriginals(e.target.checked)}
+                disabled={isExporting}
+              />
+              Include original files (larger download)
+            </label>
+            {progress && (
+              <div className="space-y-1">
+                <div className="h-2 rounded-full bg-zinc-200 dark:bg-zinc-800 overflow-hidden">
+                  <div
+                    className="h-full bg-blue-600 transition-all"
+                    style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 100}%` }}
+                  />
+                </div>
+                <div className="text-xs text-zinc-500">
+                  {progress.done < progress.total ? `Collecting ${progress.done} of ${progress.total}…` : 'Building ZIP…'}
+                </div>
+              </div>
+            )}
+            <div className="flex justify-end gap-2">
+              <button
+                onClick={onClose}
+                disabled={isExporting}
+                className="px-3 py-1.5 rounded-md border border-zinc-300 dark:border-zinc-700 hover:bg-zinc-50 dark:hover:bg-zinc-800 text-sm transition-colors disabled:opacity-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleExport}
+                disabled={isExporting || !album?.assetIds.length}
+                className="px-3 py-1.5 rounded-md bg-blue-600 hover:bg-blue-700 text-white text-sm transition-colors disabled:opacity-50"
+              >
+                {isExporting ? 'Exporting…' : 'Export'}
+              </button>
+            </div>
+          </Dialog.Panel>
+        </div>
+      </div>
+    </Dialog>
+  );
+}
@@ -0,0 +1,105 @@
+import { ChevronDownIcon, ChevronRightIcon, FolderIcon, RectangleStackIcon } from '@heroicons/react/24/outline';
+import type { AlbumDragItem, AlbumFolder, FolderCounts } from '../lib/albums';
+
+// Drop targets are folder ids; null is the top level
+export interface AlbumDropHandlers {
+  onDragStart: (item: AlbumDragItem) => void;
+  onDragEnd: () => void;
+  onDragOver: (e: React.DragEvent, folderId: string | null) => void;
+  onDragLeave: () => void;
+  onDrop: (e: React.DragEvent, folderId: string | null) => void;
+}
+
+interface AlbumFolderTreeProps {
+  folders: AlbumFolder[];
+  counts: Map<string, FolderCounts>;
+  currentId: string | null;
+  expanded: Set<string>;
+  onToggle: (id: string) => void;
+  onSelect: (id: string | null) => void;
+  dropTarget: string | null | undefined;
+  drag?: AlbumDropHandlers;
+}
+
+export default function AlbumFolderTree({
+  folders,
+  counts,
+  currentId,
+  expanded,
+  onToggle,
+  onSelect,
+  dropTarget,
+  drag,
+}: AlbumFolderTreeProps) {
+  const childrenOf = (parentId: string | null) =>
+    folders.filter((f) => f.parentId === parentId).sort((a, b) => a.name.localeCompare(b.name));
+
+  const rowClass = (id: string | null) =>
+    `flex items-center gap-1 rounded px-1.5 py-1 text-sm cursor-pointer ${
+      dropTarget === id
+        ? 'ring-2 ring-blue-500 bg-blue-50 dark:bg-blue-900/30'
+        : currentId === id
+          ? 'bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 font-medium'
+          : 'hover:bg-zinc-100 dark:hover:bg-zinc-800'
+    }`;
+
+  const renderFolder = (folder: AlbumFolder, depth: number) => {
+    const children = childrenOf(folder.id);
+    const isExpanded = expanded.has(folder.id);
+    const count = counts.get(folder.id);
+    return (
+      <li key={folder.id}>
+        <div
+          className={rowClass(folder.id)}
+          style={{ paddingLeft: `${depth * 0.75 + 0.375}rem` }}
+          onClick={() => onSelect(folder.id)}
+          draggable={!!drag}
+          onDragStart={drag ? () => drag.onDragStart({ type: 'folder', id: folder.id }) : undefined}
+          onDragEnd={drag?.onDragEnd}
+          onDragOver={drag ? (e) => drag.onDragOver(e, folder.id) : undefined}
+          onDragLeave={drag?.onDragLeave}
+          onDrop={drag ? (e) => drag.onDrop(e, folder.id) : undefined}
+        >
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onToggle(folder.id);
+            }}
+            className={`p-0.5 rounded hover:bg-zinc-200 dark:hover:bg-zinc-700 ${children.length ? '' : 'invisible'}`}
+            aria-label={isExpanded ? 'Collapse' : 'Expand'}
+          >
+            {isExpanded ? <ChevronDownIcon className="size-3.5" /> : <ChevronRightIcon className="size-3.5" />}
+          </button>
+          <FolderIcon className="size-4 flex-shrink-0 text-blue-500 dark:text-blue-400" />
+          <span className="truncate flex-1">{folder.name}</span>
+          {count && (
+            <span className="text-xs text-zinc-500 flex-shrink-0" title={`${count.albums} albums, ${count.items} items`}>
+              {count.albums}
+            </span>
+          )}
+        </div>
+        {isExpanded && children.length > 0 && <ul>{children.map((child) => renderFolder(child, depth + 1))}</ul>}
+      </li>
+    );
+  };
+
+  return (
+    <nav aria-label="Album folders">
+      <ul className="space-y-0.5">
+        <li>
+          <div
+            className={rowClass(null)}
+            onClick={() => onSelect(null)}
+            onDragOver={drag ? (e) => drag.onDragOver(e, null) : undefined}
+            onDragLeave={drag?.onDragLeave}
+            onDrop={drag ? (e) => drag.onDrop(e, null) : undefined}
+          >
+            <RectangleStackIcon className="size-4 ml-5 flex-shrink-0 text-zinc-500" />
+            <span className="truncate flex-1">All albums</span>
+          </div>
+        </li>
+        {childrenOf(null).map((folder) => renderFolder(folder, 0))}
+      </ul>
+    </nav>
+  );
+}
@@ -1,14 +1,20 @@
 import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { useState, useEffect } from 'react';
 import { CheckIcon } from '@heroicons/react/24/solid';
-import type { Asset, Paginated } from '../types';
+import type { Asset, AssetFlagChanges, Paginated } from '../types';
 import { media, assetApi, api } from '../lib/api';
 import { isVideo, isImage } from '../lib/utils';
-import { PlayIcon } from '@heroicons/react/24/solid';
+import { PlayIcon, Square2StackIcon } from '@heroicons/react/24/solid';
 import ContextMenu from './ContextMenu';
 import ConfirmDialog from './ConfirmDialog';
+import RatingControls, { RatingBadge } from './RatingControls';
 import { saveGalleryScroll } from '../lib/scroll';
 import { useUIStore } from '../lib/store';
+import { usePersonSummaries } from '../lib/hooks';
+import { usePermission } from '../lib/permissions';
+import { isFavorite } from '../lib/assetFlags';
+import { updateAssetFlags, useAssetFlags } from '../lib/ratings';
+import { useAssetTags } from '../lib/tags';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import type { InfiniteData } from '@tanstack/react-query';
 import { addAssetsToAlbum, getAlbums, createAlbum, getAlbumsForAsset, removeAssetsFromAlbum, type Album } from '../lib/albums';
@@ -28,9 +34,14 @@ interface AssetCardProps {
   personId?: number | null;
   selectedIds?: Set<number>; // Set of selected asset IDs for multi-select operations
   isInAlbumsView?: boolean; // Whether this card is being displayed in the Albums view
+  onSetAlbumCover?: (assetId: number) => void;
+  stackSize?: number; // Shots in the burst stack this card leads
+  isStackExpanded?: boolean;
+  onToggleStack?: () => void;
+  stacks?: number[][]; // Burst stacks of the grid, for the Lightbox
 }
 
-export default function AssetCard({ asset, index, sort, order, filteredAssetIds, isSelected, onSelect, selectionMode, onDelete, isDragging, isCtrlPressed, personId, selectedIds, isInAlbumsView }: AssetCardProps) {
+export default function AssetCard({ asset, index, sort, order, filteredAssetIds, isSelected, onSelect, selectionMode, onDelete, isDragging, isCtrlPressed, personId, selectedIds, isInAlbumsView, onSetAlbumCover, stackSize, isStackExpanded, onToggleStack, stacks }: AssetCardProps) {
   const location = useLocation();
   const url = media.thumbUrl(asset.id, asset.sha256);
   const preview = media.previewUrl(asset.id, asset.sha256);
@@ -60,6 +71,7 @@ export default function AssetCard({ asset, index, sort, order, filteredAssetIds,
     queryFn: () => api.listPersons(),
     enabled: showAssignDialog,
   });
+  const { data: personSummaries } = usePersonSummaries(showAssignDialog);
 
   // Load albums and check asset album membership when album menu is shown
   useEffect(() => {
@@ -104,6 +116,15 @@ export default function AssetCard({ asset, index, sort, order, filteredAssetIds,
     }
   }, [asset.id, showAlbumTags, isInAlbumsView]);
 
+  // Album names (except in the Albums view) followed by the asset's own tags
+  const tags = useAssetTags(asset);
+  const cardTags = showAlbumTags
+    ? [
+        ...(isInAlbumsView ? [] : assetAlbums).map((album) => ({ key: `album:${album.id}`, label: album.name })),
+        ...tags.map((tag) => ({ key: `tag:${tag}`, label: `#${tag}` })),
+      ]
+    : [];
+
   // Close album menu when clicking outside
   useEffect(() => {
     if (!showAlbumMenu) return;
@@ -131,8 +152,7 @@ export default function AssetCard({ asset, index, sort, order, filteredAssetIds,
     onSuccess: (data, targetPersonId) => {
       // Invalidate queries
       queryClient.invalidateQueries({ queryKey: ['persons'] });
-      queryClient.invalidateQueries({ queryKey: ['personAssets'] });
-      queryClient.invalidateQueries({ queryKey: ['personFace'] });
+      queryClient.invalidateQueries({ queryKey: ['personSummaries'] });
       queryClient.invalidateQueries({ queryKey: ['faceProgress'] });
       queryClient.invalidateQueries({ queryKey: ['unassignedFaces'] });
       
@@ -240,7 +260,22 @@ export default function AssetCard({ asset, index, sort, order, filteredAssetIds,
   };
 
   const showDeleteConfirmation = useUIStore((s) => s.showDeleteConfirmation);
-  const deleteOriginalFiles = useUIStore((s) => s.deleteOriginalFiles);
+  const canEdit = usePermission('edit');
+  // The setting only applies to roles allowed to delete originals
+  const canDeleteOriginals = usePermission('deleteOriginals');
+  const deleteOriginalFiles = useUIStore((s) => s.deleteOriginalFiles) && canDeleteOriginals;
+
+  const flags = useAssetFlags(asset);
+
+  const handleSetFlags = async (changes: AssetFlagChanges) => {
+    setContextMenu(null);
+    try {
+      await updateAssetFlags([asset], changes);
+    } catch (error) {
+      console.error('Failed to update favorites and ratings:', error);
+      alert(error instanceof Error ? error.message : 'Failed to update favorites and ratings');
+    }
+  };
 
   const handleDeleteClick = () => {
     setContextMenu(null); // Close context menu
@@ -417,8 +452,7 @@ export default function AssetCard({ asset, index, sort, order, filteredAssetIds,
       
       // Invalidate queries
       queryClient.invalidateQueries({ queryKey: ['persons'] });
-      queryClient.invalidateQueries({ queryKey: ['personAssets', personId] });
-      queryClient.invalidateQueries({ queryKey: ['personFace', personId] });
+      queryClient.invalidateQueries({ queryKey: ['personSummaries'] });
       queryClient.invalidateQueries({ queryKey: ['faceProgress'] });
       queryClient.invalidateQueries({ queryKey: ['unassignedFaces'] });
       removeAssetFromPersonCaches(personId);
@@ -504,32 +538,32 @@ export default function AssetCard({ asset, index, sort, order, filteredAssetIds,
           </div>
         )}
 
-        {/* Album tags - only show in gallery view when setting is enabled */}
-        {!isInAlbumsView && showAlbumTags && assetAlbums.length > 0 && (
+        {/* Album and keyword tags - only shown when the setting is enabled */}
+        {cardTags.length > 0 && (
           <div className="absolute top-2 right-2 z-10 flex flex-col gap-1 max-w-[40%]">
-            {assetAlbums.slice(0, 3).map((album) => (
+            {cardTags.slice(0, 3).map((tag) => (
               <div
-                key={album.id}
+                key={tag.key}
                 className="px-2 py-0.5 rounded text-[10px] font-medium backdrop-blur-sm truncate"
                 style={{
                   color: albumTagFontColor,
                   backgroundColor: albumTagBackgroundColor,
                 }}
-                title={album.name}
+                title={tag.label}
               >
-                {album.name}
+                {tag.label}
               </div>
             ))}
-            {assetAlbums.length > 3 && (
+            {cardTags.length > 3 && (
               <div
                 className="px-2 py-0.5 rounded text-[10px] font-medium backdrop-blur-sm"
                 style={{
                   color: albumTagFontColor,
                   backgroundColor: albumTagBackgroundColor,
                 }}
-                title={assetAlbums.slice(3).map(a => a.name).join(', ')}
+                title={cardTags.slice(3).map((t) => t.label).join(', ')}
               >
-                +{assetAlbums.length - 3} more
+                +{cardTags.length - 3} more
               </div>
             )}
           </div>
@@ -570,9 +604,35 @@ export default function AssetCard({ asset, index, sort, order, filteredAssetIds,
             video
           </div>
         )}
+        {onToggleStack && stackSize && (
+          <button
+            type="button"
+            onClick={(e) => {
+              e.preventDefault();
+              e.stopPropagation();
+              onToggleStack();
+            }}
+            className={`absolute bottom-1 left-1 z-10 rounded px-1.5 py-0.5 text-[11px] flex items-center gap-1 text-white transition-colors ${
+              isStackExpanded ? 'bg-blue-600 hover:bg-blue-700' : 'bg-black/60 hover:bg-black/80'
+            }`}
+            title={isStackExpanded ? 'Collapse burst' : `Show all ${stackSize} shots`}
+          >
+            <Square2StackIcon className="size-3" />
+            {stackSize}
+          </button>
+        )}
       </div>
-      <div className="p-2 text-[11px] truncate opacity-80">
-        {asset.filename}
+      <div className="p-2 text-[11px] flex items-center gap-1 min-w-0">
+        <span className="truncate opacity-80 flex-1">{asset.filename}</span>
+        <RatingBadge flags={flags} className={canEdit ? 'group-hover:hidden' : ''} />
+        {canEdit && (
+          <RatingControls
+            flags={flags}
+            onToggleFavorite={() => handleSetFlags({ favorite: !isFavorite(flags) })}
+            onRate={(rating) => handleSetFlags({ rating })}
+            className="hidden group-hover:flex shrink-0"
+          />
+        )}
       </div>
     </div>
   );
@@ -609,6 +669,7 @@ export default function AssetCard({ asset, index, sort, order, filteredAssetIds,
         sort,
         order,
         filteredAssetIds,
+        stacks,
         from: {
           pathname: location.pathname,
           search: location.search,
@@ -636,15 +697,19 @@ export default function AssetCard({ asset, index, sort, order, filteredAssetIds,
             setAlbumMenuMode('add');
           }}
           onDownload={handleDownload}
-          onDelete={handleDeleteClick}
+          onDelete={canEdit ? handleDeleteClick : undefined}
           onCopy={handleCopy}
-          onAddToAlbum={!isInAlbumsView ? handleAddToAlbum : undefined}
-          onMoveToAlbum={isInAlbumsView && assetAlbums.length > 0 ? handleMoveToAlbum : undefined}
-          onRemoveFromAlbum={isInAlbumsView && assetAlbums.length > 0 ? () => handleRemoveFromAlbum() : undefined}
+          onAddToAlbum={canEdit && !isInAlbumsView ? handleAddToAlbum : undefined}
+          onMoveToAlbum={canEdit && isInAlbumsView && assetAlbums.length > 0 ? handleMoveToAlbum : undefined}
+          onRemoveFromAlbum={canEdit && isInAlbumsView && assetAlbums.length > 0 ? () => handleRemoveFromAlbum() : undefined}
+          onSetAsCover={canEdit && onSetAlbumCover ? () => onSetAlbumCover(asset.id) : undefined}
+          flags={flags}
+          onToggleFavorite={canEdit ? () => handleSetFlags({ favorite: !isFavorite(flags) }) : undefined}
+          onRate={canEdit ? (rating) => handleSetFlags({ rating }) : undefined}
           onAssignToPerson={handleAssignToPerson}
-          showAssignToPerson={!!personId}
+          showAssignToPerson={canEdit && !!personId}
           onUnassignFromPerson={personId ? handleUnassignFromPerson : undefined}
-          showUnassignFromPerson={!!personId}
+          showUnassignFromPerson={canEdit && !!personId}
         />
       )}
       
@@ -797,11 +862,15 @@ export default function AssetCard({ asset, index, sort, order, filteredAssetIds,
                       const nameB = (b.name || `Person ${b.id}`).toLowerCase();
                       return nameA.localeCompare(nameB);
                     })
-                    .map((person) => (
-                      <option key={person.id} value={person.id}>
-                        {person.name || `Person ${person.id}`}
-                      </option>
-                    ))
+                    .map((person) => {
+                      const count = personSummaries?.get(person.id)?.asset_count;
+                      return (
+                        <option key={person.id} value={person.id}>
+                          {person.name || `Person ${person.id}`}
+                          {count !== undefined ? ` (${count} ${count === 1 ? 'photo' : 'photos'})` : ''}
+                        </option>
+                      );
+                    })
                 ) : (
                   <option value="" disabled>Loading persons...</option>
                 )}
@@ -0,0 +1,70 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { api } from '../lib/api';
+import { MIN_BACKEND_VERSION } from '../lib/config';
+import { compareVersions, formatIssue, useSchemaViolationStore } from '../lib/validation';
+
+// Warns when the backend is older than this frontend expects. In dev builds it
+// also lists endpoints whose responses failed schema validation.
+export default function BackendCompatibilityBanner() {
+  const [dismissed, setDismissed] = useState(false);
+  const violations = useSchemaViolationStore((s) => s.violations);
+  const clearViolations = useSchemaViolationStore((s) => s.clear);
+
+  // Shares the cached health query with the footer
+  const { data: health } = useQuery({
+    queryKey: ['health'],
+    queryFn: () => api.health(),
+    staleTime: Infinity,
+    refetchInterval: false,
+    retry: 1,
+  });
+
+  const outdated = health ? (compareVersions(health.version, MIN_BACKEND_VERSION) ?? 0) < 0 : false;
+  const entries = import.meta.env.DEV ? Object.values(violations) : [];
+
+  if ((!outdated || dismissed) && entries.length === 0) return null;
+
+  return (
+    <div className="container-responsive pt-3 space-y-2">
+      {outdated && !dismissed && health && (
+        <div className="flex items-start gap-2 rounded border border-amber-300 dark:border-amber-700 bg-amber-50 dark:bg-amber-900/30 text-amber-800 dark:text-amber-200 p-3 text-sm">
+          <ExclamationTriangleIcon className="w-5 h-5 flex-shrink-0" />
+          <div className="flex-1">
+            <div className="font-medium">Backend {health.version} is older than this app supports</div>
+            <div className="mt-1 text-xs opacity-80">
+              Version {MIN_BACKEND_VERSION} or newer is required. Some views may show missing or incorrect data until the
+              backend is updated.
+            </div>
+          </div>
+          <button onClick={() => setDismissed(true)} className="text-xs underline hover:opacity-80">
+            Dismiss
+          </button>
+        </div>
+      )}
+      {entries.length > 0 && (
+        <div className="rounded border border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 p-3 text-xs">
+          <div className="flex items-center justify-between gap-2">
+            <div className="font-medium">Schema violations (dev only)</div>
+            <button onClick={clearViolations} className="underline hover:opacity-80">
+              Clear
+            </button>
+          </div>
+          <ul className="mt-2 space-y-1 font-mono">
+            {entries.map((v) => (
+              <li key={v.endpoint}>
+                <span className="font-semibold">{v.endpoint}</span> ×{v.count}
+                {v.issues.map((issue, i) => (
+                  <div key={i} className="pl-4 opacity-80">
+                    {formatIssue(issue)}
+                  </div>
+                ))}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
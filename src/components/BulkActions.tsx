@@ -1,27 +1,49 @@
 import { useState, useEffect } from 'react';
-import { XMarkIcon, FolderPlusIcon, TrashIcon, ArrowRightCircleIcon } from '@heroicons/react/24/outline';
+import { XMarkIcon, FolderPlusIcon, TrashIcon, ArrowRightCircleIcon, ArrowDownTrayIcon, HeartIcon, StarIcon, TagIcon } from '@heroicons/react/24/outline';
+import { StarIcon as StarSolidIcon } from '@heroicons/react/24/solid';
 import { addAssetsToAlbum, getAlbums, createAlbum, getAlbumsForAsset, removeAssetsFromAlbum, type Album } from '../lib/albums';
+import { usePermission } from '../lib/permissions';
+import { useZipDownloadStore } from '../lib/zipDownload';
+import { MAX_RATING, isFavorite } from '../lib/assetFlags';
+import { flagsOf, updateAssetFlags, useAssetFlagsStore } from '../lib/ratings';
+import { tagsOf, updateAssetTags, useAssetTagsStore } from '../lib/tags';
+import TagEditor from './TagEditor';
+import type { Asset, AssetFlagChanges, AssetTagChanges } from '../types';
 
 interface BulkActionsProps {
   selectedIds: Set<number>;
   selectedAssetIds?: number[]; // Array of selected asset IDs for album checking
+  selectedAssets?: Asset[]; // Loaded assets of the selection, for ZIP downloads
   onClearSelection: () => void;
   onAddToAlbum?: (albumId: string, assetIds: number[]) => void;
   onDelete?: () => void;
   showRemoveFromAlbum?: boolean; // Whether to show "Remove from Album" button (only in albums view)
 }
 
-export default function BulkActions({ selectedIds, selectedAssetIds, onClearSelection, onAddToAlbum, onDelete, showRemoveFromAlbum = false }: BulkActionsProps) {
+export default function BulkActions({ selectedIds, selectedAssetIds, selectedAssets, onClearSelection, onAddToAlbum, onDelete, showRemoveFromAlbum = false }: BulkActionsProps) {
   const [showAlbumMenu, setShowAlbumMenu] = useState(false);
   const [showRemoveMenu, setShowRemoveMenu] = useState(false);
+  const [showRatingMenu, setShowRatingMenu] = useState(false);
+  const [showTagMenu, setShowTagMenu] = useState(false);
   const [albums, setAlbums] = useState<Album[]>([]);
   const [assetsInAlbums, setAssetsInAlbums] = useState<Map<number, Album[]>>(new Map());
   const [isCreatingAlbum, setIsCreatingAlbum] = useState(false);
   const [newAlbumName, setNewAlbumName] = useState('');
   const [newAlbumDescription, setNewAlbumDescription] = useState('');
+  const canEdit = usePermission('edit');
+  const requestZipDownload = useZipDownloadStore((s) => s.request);
+  const isZipDownloading = useZipDownloadStore((s) => s.progress !== null);
+  const flagOverrides = useAssetFlagsStore((s) => s.flags);
+  const tagOverrides = useAssetTagsStore((s) => s.tags);
   const count = selectedIds.size;
   const assetIdsArray = selectedAssetIds || Array.from(selectedIds);
   const hasAssetsInAlbums = Array.from(assetsInAlbums.values()).some(albums => albums.length > 0);
+  // Favorite unless every loaded asset of the selection already is one
+  const allFavorites = !!selectedAssets?.length && selectedAssets.every((a) => isFavorite(flagsOf(a, flagOverrides)));
+  // Tags on any loaded asset of the selection; removing one removes it from all
+  const selectionTags = [...new Set((selectedAssets ?? []).flatMap((a) => tagsOf(a, tagOverrides)))].sort();
+  // Tags on every loaded asset; the others can still be added to the rest
+  const commonTags = selectionTags.filter((tag) => (selectedAssets ?? []).every((a) => tagsOf(a, tagOverrides).includes(tag)));
 
   // Load albums and check album membership for selected assets
   useEffect(() => {
@@ -107,6 +129,27 @@ export default function BulkActions({ selectedIds, selectedAssetIds, onClearSele
     }
   };
 
+  const handleSetFlags = async (changes: AssetFlagChanges) => {
+    if (!selectedAssets) return;
+    setShowRatingMenu(false);
+    try {
+      await updateAssetFlags(selectedAssets, changes);
+    } catch (error) {
+      console.error('Failed to update favorites and ratings:', error);
+      alert(error instanceof Error ? error.message : 'Failed to update favorites and ratings. Please try again.');
+    }
+  };
+
+  const handleUpdateTags = async (changes: AssetTagChanges) => {
+    if (!selectedAssets) return;
+    try {
+      await updateAssetTags(selectedAssets, changes);
+    } catch (error) {
+      console.error('Failed to update tags:', error);
+      alert(error instanceof Error ? error.message : 'Failed to update tags. Please try again.');
+    }
+  };
+
   const handleCreateAlbum = async () => {
     if (!newAlbumName.trim()) {
       return;
@@ -165,11 +208,14 @@ export default function BulkActions({ selectedIds, selectedAssetIds, onClearSele
           {count} {count === 1 ? 'item' : 'items'}
         </span>
 
+        {canEdit && (
         <div className="relative">
           <button
             onClick={() => {
               setShowAlbumMenu(!showAlbumMenu);
               setShowRemoveMenu(false);
+              setShowRatingMenu(false);
+              setShowTagMenu(false);
             }}
             className="px-2 sm:px-3 py-1 sm:py-1.5 rounded-md border border-zinc-300 dark:border-zinc-700 hover:bg-zinc-50 dark:hover:bg-zinc-800 text-xs sm:text-sm transition-colors flex items-center gap-1.5 sm:gap-2"
           >
@@ -271,13 +317,16 @@ export default function BulkActions({ selectedIds, selectedAssetIds, onClearSele
             </div>
           )}
         </div>
+        )}
 
-        {hasAssetsInAlbums && showRemoveFromAlbum && (
+        {canEdit && hasAssetsInAlbums && showRemoveFromAlbum && (
           <div className="relative">
             <button
               onClick={() => {
                 setShowRemoveMenu(!showRemoveMenu);
                 setShowAlbumMenu(false);
+                setShowRatingMenu(false);
+                setShowTagMenu(false);
               }}
               className="px-2 sm:px-3 py-1 sm:py-1.5 rounded-md border border-zinc-300 dark:border-zinc-700 hover:bg-zinc-50 dark:hover:bg-zinc-800 text-xs sm:text-sm transition-colors flex items-center gap-1.5 sm:gap-2"
             >
@@ -312,6 +361,102 @@ export default function BulkActions({ selectedIds, selectedAssetIds, onClearSele
           </div>
         )}
 
+        {canEdit && selectedAssets && selectedAssets.length > 0 && (
+          <>
+            <button
+              onClick={() => handleSetFlags({ favorite: !allFavorites })}
+              className="px-2 sm:px-3 py-1 sm:py-1.5 rounded-md border border-zinc-300 dark:border-zinc-700 hover:bg-zinc-50 dark:hover:bg-zinc-800 text-xs sm:text-sm transition-colors flex items-center gap-1.5 sm:gap-2"
+            >
+              <HeartIcon className="w-3.5 sm:w-4 h-3.5 sm:h-4" />
+              <span className="hidden sm:inline">{allFavorites ? 'Unfavorite' : 'Favorite'}</span>
+              <span className="sm:hidden">{allFavorites ? 'Unfav' : 'Fav'}</span>
+            </button>
+
+            <div className="relative">
+              <button
+                onClick={() => {
+                  setShowRatingMenu(!showRatingMenu);
+                  setShowAlbumMenu(false);
+                  setShowRemoveMenu(false);
+                  setShowTagMenu(false);
+                }}
+                className="px-2 sm:px-3 py-1 sm:py-1.5 rounded-md border border-zinc-300 dark:border-zinc-700 hover:bg-zinc-50 dark:hover:bg-zinc-800 text-xs sm:text-sm transition-colors flex items-center gap-1.5 sm:gap-2"
+              >
+                <StarIcon className="w-3.5 sm:w-4 h-3.5 sm:h-4" />
+                Rate
+              </button>
+
+              {showRatingMenu && (
+                <div className="absolute bottom-full left-0 mb-2 w-44 bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded-lg shadow-lg overflow-hidden">
+                  {Array.from({ length: MAX_RATING }, (_, i) => MAX_RATING - i).map((rating) => (
+                    <button
+                      key={rating}
+                      onClick={() => handleSetFlags({ rating })}
+                      className="w-full text-left px-3 py-2 hover:bg-zinc-50 dark:hover:bg-zinc-800 transition-colors text-sm flex items-center gap-0.5"
+                      title={`Rate ${rating} ${rating === 1 ? 'star' : 'stars'}`}
+                    >
+                      {Array.from({ length: rating }, (_, i) => (
+                        <StarSolidIcon key={i} className="w-4 h-4 text-amber-400" />
+                      ))}
+                    </button>
+                  ))}
+                  <button
+                    onClick={() => handleSetFlags({ rating: 0 })}
+                    className="w-full text-left px-3 py-2 hover:bg-zinc-50 dark:hover:bg-zinc-800 transition-colors text-sm border-t border-zinc-200 dark:border-zinc-800"
+                  >
+                    Clear rating
+                  </button>
+                </div>
+              )}
+            </div>
+
+            <div className="relative">
+              <button
+                onClick={() => {
+                  setShowTagMenu(!showTagMenu);
+                  setShowAlbumMenu(false);
+                  setShowRemoveMenu(false);
+                  setShowRatingMenu(false);
+                }}
+                className="px-2 sm:px-3 py-1 sm:py-1.5 rounded-md border border-zinc-300 dark:border-zinc-700 hover:bg-zinc-50 dark:hover:bg-zinc-800 text-xs sm:text-sm transition-colors flex items-center gap-1.5 sm:gap-2"
+              >
+                <TagIcon className="w-3.5 sm:w-4 h-3.5 sm:h-4" />
+                Tag
+              </button>
+
+              {showTagMenu && (
+                <div className="absolute bottom-full left-0 mb-2 w-72 p-3 bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded-lg shadow-lg">
+                  <TagEditor
+                    tags={selectionTags}
+                    commonTags={commonTags}
+                    onAdd={(add) => handleUpdateTags({ add })}
+                    onRemove={(tag) => handleUpdateTags({ remove: [tag] })}
+                    placeholder={`Tag ${selectedAssets.length} ${selectedAssets.length === 1 ? 'item' : 'items'}…`}
+                    dropUp
+                  />
+                </div>
+              )}
+            </div>
+          </>
+        )}
+
+        {selectedAssets && selectedAssets.length > 0 && (
+          <button
+            onClick={() => requestZipDownload(selectedAssets)}
+            disabled={isZipDownloading}
+            className="px-2 sm:px-3 py-1 sm:py-1.5 rounded-md border border-zinc-300 dark:border-zinc-700 hover:bg-zinc-50 dark:hover:bg-zinc-800 text-xs sm:text-sm transition-colors flex items-center gap-1.5 sm:gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            title={
+              isZipDownloading
+                ? 'A ZIP download is already running; wait for it to finish or cancel it'
+                : 'Download the originals as a ZIP'
+            }
+          >
+            <ArrowDownTrayIcon className="w-3.5 sm:w-4 h-3.5 sm:h-4" />
+            <span className="hidden sm:inline">Download</span>
+            <span className="sm:hidden">ZIP</span>
+          </button>
+        )}
+
         {onDelete && (
           <button
             onClick={onDelete}
@@ -0,0 +1,94 @@
+import { useState } from 'react';
+import { PencilSquareIcon } from '@heroicons/react/24/outline';
+import { MAX_CAPTION_LENGTH } from '../lib/captions';
+
+interface CaptionEditorProps {
+  caption: string;
+  // Without a handler the caption is read-only
+  onSave?: (caption: string) => Promise<void> | void;
+  // Opens straight into the text area, for editors shown on demand
+  autoEdit?: boolean;
+  className?: string;
+}
+
+// Caption text with an inline editor; Ctrl/Cmd+Enter saves, Escape cancels
+export default function CaptionEditor({ caption, onSave, autoEdit = false, className = '' }: CaptionEditorProps) {
+  const [draft, setDraft] = useState<string | null>(autoEdit && onSave ? caption : null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const save = async () => {
+    if (draft === null || !onSave) return;
+    setIsSaving(true);
+    try {
+      await onSave(draft);
+      setDraft(null);
+    } catch {
+      // The caller reports the error; keep the draft for another try
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      save();
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      setDraft(null);
+    }
+  };
+
+  if (draft !== null) {
+    return (
+      <div className={`space-y-2 ${className}`}>
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={handleKeyDown}
+          maxLength={MAX_CAPTION_LENGTH}
+          rows={3}
+          autoFocus
+          placeholder="Write a caption…"
+          className="w-full px-2 py-1.5 rounded border border-zinc-300 dark:border-zinc-700 bg-white dark:bg-zinc-900 text-zinc-900 dark:text-zinc-100 text-sm resize-y"
+          aria-label="Caption"
+        />
+        <div className="flex items-center justify-end gap-2">
+          <button
+            onClick={() => setDraft(null)}
+            className="px-2.5 py-1 rounded-md border border-zinc-300 dark:border-zinc-700 hover:bg-zinc-50 dark:hover:bg-zinc-800 text-sm text-zinc-700 dark:text-zinc-200 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={save}
+            disabled={isSaving}
+            className="px-2.5 py-1 rounded-md bg-blue-600 hover:bg-blue-700 text-white text-sm transition-colors disabled:opacity-50"
+          >
+            {isSaving ? 'Saving…' : 'Save'}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`flex items-start gap-2 ${className}`}>
+      {caption ? (
+        <p className="flex-1 min-w-0 text-sm whitespace-pre-wrap break-words">{caption}</p>
+      ) : (
+        <p className="flex-1 text-sm text-zinc-500">{onSave ? 'No caption yet' : 'No caption'}</p>
+      )}
+      {onSave && (
+        <button
+          onClick={() => setDraft(caption)}
+          className="shrink-0 p-1 rounded hover:bg-black/10 dark:hover:bg-white/10"
+          title={caption ? 'Edit caption' : 'Add caption'}
+          aria-label={caption ? 'Edit caption' : 'Add caption'}
+        >
+          <PencilSquareIcon className="w-4 h-4" />
+        </button>
+      )}
+    </div>
+  );
+}
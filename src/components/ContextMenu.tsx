@@ -1,20 +1,26 @@
 import { useEffect, useRef } from 'react';
-import { ArrowDownTrayIcon, TrashIcon, ClipboardDocumentIcon, UserPlusIcon, FolderPlusIcon, ArrowRightCircleIcon } from '@heroicons/react/24/outline';
+import { ArrowDownTrayIcon, TrashIcon, ClipboardDocumentIcon, UserPlusIcon, FolderPlusIcon, ArrowRightCircleIcon, PhotoIcon, HeartIcon, StarIcon } from '@heroicons/react/24/outline';
+import { HeartIcon as HeartSolidIcon, StarIcon as StarSolidIcon } from '@heroicons/react/24/solid';
+import { MAX_RATING, isFavorite, ratingOf } from '../lib/assetFlags';
 
 interface ContextMenuProps {
   x: number;
   y: number;
   onClose: () => void;
   onDownload: () => void;
-  onDelete: () => void;
+  onDelete?: () => void;
   onCopy: () => void;
   onAddToAlbum?: () => void;
   onMoveToAlbum?: () => void;
   onRemoveFromAlbum?: () => void;
+  onSetAsCover?: () => void;
   onAssignToPerson?: () => void;
   showAssignToPerson?: boolean;
   onUnassignFromPerson?: () => void;
   showUnassignFromPerson?: boolean;
+  flags?: number;
+  onToggleFavorite?: () => void;
+  onRate?: (rating: number) => void;
 }
 
 export default function ContextMenu({
@@ -27,10 +33,14 @@ export default function ContextMenu({
   onAddToAlbum,
   onMoveToAlbum,
   onRemoveFromAlbum,
+  onSetAsCover,
   onAssignToPerson,
   showAssignToPerson,
   onUnassignFromPerson,
   showUnassignFromPerson,
+  flags = 0,
+  onToggleFavorite,
+  onRate,
 }: ContextMenuProps) {
   const menuRef = useRef<HTMLDivElement>(null);
 
@@ -59,11 +69,21 @@ export default function ContextMenu({
         e.preventDefault();
         onCopy();
         onClose();
-      } else if (e.key === 'd' || e.key === 'D') {
+      } else if ((e.key === 'd' || e.key === 'D') && onDelete) {
         // D key - Delete
         e.preventDefault();
         onDelete();
         onClose();
+      } else if ((e.key === 'l' || e.key === 'L') && onToggleFavorite) {
+        // L key - Toggle favorite
+        e.preventDefault();
+        onToggleFavorite();
+        onClose();
+      } else if (/^[0-5]$/.test(e.key) && onRate) {
+        // 0-5 keys - Set rating
+        e.preventDefault();
+        onRate(Number(e.key));
+        onClose();
       }
     };
 
@@ -75,7 +95,7 @@ export default function ContextMenu({
       document.removeEventListener('mousedown', handleClickOutside);
       document.removeEventListener('keydown', handleKeyDown);
     };
-  }, [onClose, onDownload, onCopy, onDelete]);
+  }, [onClose, onDownload, onCopy, onDelete, onToggleFavorite, onRate]);
 
   // Adjust position if menu would go off screen
   const [adjustedX, adjustedY] = (() => {
@@ -132,6 +152,47 @@ export default function ContextMenu({
         </div>
         <kbd className="px-1.5 py-0.5 text-xs font-semibold text-zinc-500 dark:text-zinc-400 bg-zinc-100 dark:bg-zinc-700 border border-zinc-300 dark:border-zinc-600 rounded">C</kbd>
       </button>
+      {onToggleFavorite && (
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            onToggleFavorite();
+            onClose();
+          }}
+          className="w-full px-4 py-2 text-left text-sm text-zinc-700 dark:text-zinc-200 hover:bg-zinc-100 dark:hover:bg-zinc-700 flex items-center justify-between gap-2"
+        >
+          <div className="flex items-center gap-2">
+            {isFavorite(flags) ? <HeartSolidIcon className="w-4 h-4 text-red-500" /> : <HeartIcon className="w-4 h-4" />}
+            {isFavorite(flags) ? 'Remove from Favorites' : 'Add to Favorites'}
+          </div>
+          <kbd className="px-1.5 py-0.5 text-xs font-semibold text-zinc-500 dark:text-zinc-400 bg-zinc-100 dark:bg-zinc-700 border border-zinc-300 dark:border-zinc-600 rounded">L</kbd>
+        </button>
+      )}
+      {onRate && (
+        <div className="px-4 py-1.5 flex items-center justify-between gap-2 text-sm text-zinc-700 dark:text-zinc-200">
+          <div className="flex items-center gap-0.5">
+            {Array.from({ length: MAX_RATING }, (_, i) => i + 1).map((rating) => (
+              <button
+                key={rating}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onRate(rating === ratingOf(flags) ? 0 : rating);
+                  onClose();
+                }}
+                className="p-1 rounded hover:bg-zinc-100 dark:hover:bg-zinc-700"
+                title={rating === ratingOf(flags) ? 'Clear rating' : `Rate ${rating} ${rating === 1 ? 'star' : 'stars'}`}
+              >
+                {rating <= ratingOf(flags) ? (
+                  <StarSolidIcon className="w-4 h-4 text-amber-400" />
+                ) : (
+                  <StarIcon className="w-4 h-4" />
+                )}
+              </button>
+            ))}
+          </div>
+          <kbd className="px-1.5 py-0.5 text-xs font-semibold text-zinc-500 dark:text-zinc-400 bg-zinc-100 dark:bg-zinc-700 border border-zinc-300 dark:border-zinc-600 rounded">0-5</kbd>
+        </div>
+      )}
       {onAddToAlbum && (
         <button
           onClick={(e) => {
@@ -171,6 +232,19 @@ export default function ContextMenu({
           Remove from Album
         </button>
       )}
+      {onSetAsCover && (
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            onSetAsCover();
+            onClose();
+          }}
+          className="w-full px-4 py-2 text-left text-sm text-zinc-700 dark:text-zinc-200 hover:bg-zinc-100 dark:hover:bg-zinc-700 flex items-center gap-2"
+        >
+          <PhotoIcon className="w-4 h-4" />
+          Set as Album Cover
+        </button>
+      )}
       {showAssignToPerson && onAssignToPerson && (
         <button
           onClick={(e) => {
@@ -196,6 +270,8 @@ export default function ContextMenu({
           Unassign from Person
         </button>
       )}
+      {onDelete && (
+      <>
       <div className="border-t border-zinc-200 dark:border-zinc-700 my-1" />
       <button
         onClick={(e) => {
@@ -211,6 +287,8 @@ export default function ContextMenu({
         </div>
         <kbd className="px-1.5 py-0.5 text-xs font-semibold text-zinc-500 dark:text-zinc-400 bg-zinc-100 dark:bg-zinc-700 border border-zinc-300 dark:border-zinc-600 rounded">D</kbd>
       </button>
+      </>
+      )}
     </div>
   );
 }
@@ -1,4 +1,5 @@
 import React, { Component, ErrorInfo, ReactNode } from 'react';
+import { describeError } from '../lib/errors';
 
 interface Props {
   children: ReactNode;
@@ -29,11 +30,17 @@ export default class ErrorBoundary extends Component<Props, State> {
       if (this.props.fallback) {
         return this.props.fallback;
       }
+      const { title, message, hint } = describeError(
+        this.state.error ?? new Error('An unexpected error occurred')
+      );
       return (
         <div className="fixed inset-0 z-50 bg-black/95 backdrop-blur-sm flex items-center justify-center">
-          <div className="text-white text-center">
-            <p className="text-lg mb-2">Something went wrong</p>
-            <p className="text-sm opacity-75 mb-4">{this.state.error?.message || 'An unexpected error occurred'}</p>
+          <div className="text-white text-center max-w-lg px-4">
+            <p className="text-lg mb-2">{title}</p>
+            <p className={`text-sm opacity-75 break-words ${hint ? 'mb-2' : 'mb-4'}`}>
+              {message || 'An unexpected error occurred'}
+            </p>
+            {hint && <p className="text-xs opacity-60 mb-4">{hint}</p>}
             <button
               onClick={() => this.setState({ hasError: false, error: null })}
               className="px-4 py-2 rounded-md bg-white/10 hover:bg-white/20 text-white transition-colors"
@@ -1,9 +1,12 @@
-export default function ErrorView({ error, onRetry }: { error: any; onRetry?: () => void }) {
-  const msg = error instanceof Error ? error.message : String(error);
+import { describeError } from '../lib/errors';
+
+export default function ErrorView({ error, onRetry }: { error: unknown; onRetry?: () => void }) {
+  const { title, message, hint } = describeError(error);
   return (
     <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 rounded p-3 text-sm">
-      <div className="font-medium">Something went wrong</div>
-      <div className="mt-1 opacity-90 whitespace-pre-wrap break-words">{msg}</div>
+      <div className="font-medium">{title}</div>
+      <div className="mt-1 opacity-90 whitespace-pre-wrap break-words">{message}</div>
+      {hint && <div className="mt-1 text-xs opacity-75">{hint}</div>}
       {onRetry && (
         <button onClick={onRetry} className="mt-2 text-xs underline hover:opacity-80">
           Retry
@@ -12,4 +15,3 @@ export default function ErrorView({ error, onRetry }: { error: any; onRetry?: ()
     </div>
   );
 }
-
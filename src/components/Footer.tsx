@@ -3,11 +3,13 @@ import { secondsToHms, formatNumber } from '../lib/utils';
 import { useLocation } from 'react-router-dom';
 import { useQuery } from '@tanstack/react-query';
 import { api } from '../lib/api';
+import { useLiveUpdatesStore } from '../lib/liveUpdates';
 
 export default function Footer() {
   const { data } = useStats();
   const location = useLocation();
   const isDashboard = location.pathname === '/' || location.pathname === '/dashboard';
+  const liveMode = useLiveUpdatesStore((s) => s.mode);
   
   // Fetch health info to get version and database type (fetch once, no polling)
   const { data: health } = useQuery({
@@ -35,7 +37,14 @@ export default function Footer() {
             </div>
           </>
         )}
-        <div className={`${isDashboard ? 'ml-auto' : 'ml-auto'} opacity-70 font-kalam`}>
+        <div
+          className="ml-auto flex items-center gap-1 opacity-70"
+          title={liveMode === 'stream' ? 'Receiving live updates' : 'Live updates unavailable, polling for changes'}
+        >
+          <span className={`inline-block size-1.5 rounded-full ${liveMode === 'stream' ? 'bg-green-500' : 'bg-zinc-400'}`} />
+          {liveMode === 'stream' ? 'live' : 'polling'}
+        </div>
+        <div className="opacity-70 font-kalam">
           {health ? (
             <>version {health.version} {health.database}</>
           ) : (
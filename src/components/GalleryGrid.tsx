@@ -2,13 +2,15 @@ import { useState, useEffect, useRef, useMemo, useCallback, useLayoutEffect } fr
 import type { Asset } from '../types';
 import AssetCard from './AssetCard';
 import { useUIStore } from '../lib/store';
+import { usePermission } from '../lib/permissions';
 import { GalleryGridSkeleton } from './LoadingSkeleton';
 import BulkActions from './BulkActions';
 import { addAssetsToAlbum } from '../lib/albums';
 import { assetApi } from '../lib/api';
 import ConfirmDialog from './ConfirmDialog';
+import { groupBursts } from '../lib/bursts';
 
-export default function GalleryGrid({ assets, onLoadMore, hasMore, onLoadPrevious, hasPrevious, sort, order, isLoading, isFetchingNextPage, onAssetDeleted, mobileColumns, personId, filteredAssetIdsOverride, showRemoveFromAlbum }: {
+export default function GalleryGrid({ assets, onLoadMore, hasMore, onLoadPrevious, hasPrevious, sort, order, isLoading, isFetchingNextPage, onAssetDeleted, mobileColumns, personId, filteredAssetIdsOverride, showRemoveFromAlbum, onSetAlbumCover, stackBursts }: {
   assets: Asset[];
   onLoadMore?: () => void;
   hasMore?: boolean;
@@ -23,6 +25,8 @@ export default function GalleryGrid({ assets, onLoadMore, hasMore, onLoadPreviou
   personId?: number | null;
   filteredAssetIdsOverride?: number[];
   showRemoveFromAlbum?: boolean; // Whether to show "Remove from Album" in bulk actions (only in albums view)
+  onSetAlbumCover?: (assetId: number) => void; // Offers "Set as Album Cover" in the context menu
+  stackBursts?: boolean; // Collapse burst shots into one card with a count badge
 }) {
   // Deduplicate assets by ID to prevent duplicate React keys
   const uniqueAssets = useMemo(() => {
@@ -35,6 +39,36 @@ export default function GalleryGrid({ assets, onLoadMore, hasMore, onLoadPreviou
       return true;
     });
   }, [assets]);
+
+  // Burst stacks of two or more shots, keyed by the id of their first shot
+  const [expandedStacks, setExpandedStacks] = useState<Set<number>>(new Set());
+  const stacks = useMemo(
+    () => (stackBursts ? groupBursts(uniqueAssets).filter((stack) => stack.length > 1) : []),
+    [uniqueAssets, stackBursts]
+  );
+  const stackIds = useMemo(() => stacks.map((stack) => stack.map((a) => a.id)), [stacks]);
+  const stackByFirstId = useMemo(() => new Map(stacks.map((stack) => [stack[0].id, stack])), [stacks]);
+
+  // Cards shown in the grid: collapsed stacks show only their first shot
+  const gridAssets = useMemo(() => {
+    if (stacks.length === 0) return uniqueAssets;
+    const hidden = new Set(
+      stacks.filter((stack) => !expandedStacks.has(stack[0].id)).flatMap((stack) => stack.slice(1).map((a) => a.id))
+    );
+    return uniqueAssets.filter((a) => !hidden.has(a.id));
+  }, [uniqueAssets, stacks, expandedStacks]);
+
+  const toggleStack = useCallback((firstId: number) => {
+    setExpandedStacks((prev) => {
+      const next = new Set(prev);
+      if (next.has(firstId)) {
+        next.delete(firstId);
+      } else {
+        next.add(firstId);
+      }
+      return next;
+    });
+  }, []);
   
   const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
   const [selectionMode, setSelectionMode] = useState(false);
@@ -70,7 +104,9 @@ export default function GalleryGrid({ assets, onLoadMore, hasMore, onLoadPreviou
   }, [onLoadMore, hasMore]);
 
   const gridSize = useUIStore((s) => s.gridSize);
-  const deleteOriginalFiles = useUIStore((s) => s.deleteOriginalFiles);
+  const canEdit = usePermission('edit');
+  const canDeleteOriginals = usePermission('deleteOriginals');
+  const deleteOriginalFiles = useUIStore((s) => s.deleteOriginalFiles) && canDeleteOriginals;
   const showDeleteConfirmation = useUIStore((s) => s.showDeleteConfirmation);
 
   const GAP_PX = 8; // Tailwind gap-2
@@ -122,7 +158,7 @@ export default function GalleryGrid({ assets, onLoadMore, hasMore, onLoadPreviou
   }, [columnWidth]);
 
   const rowHeightWithGap = rowHeight + GAP_PX;
-  const totalRows = columnCount ? Math.ceil(uniqueAssets.length / columnCount) : 0;
+  const totalRows = columnCount ? Math.ceil(gridAssets.length / columnCount) : 0;
   // Disable virtualization to match the stable behavior from commit 706ba335
   // and avoid flicker/jitter when paging through many images.
   const shouldVirtualize = false;
@@ -130,7 +166,7 @@ export default function GalleryGrid({ assets, onLoadMore, hasMore, onLoadPreviou
   // Recompute visible range on scroll/resize - throttled to prevent jitter
   useEffect(() => {
     if (!shouldVirtualize || typeof window === 'undefined') {
-      setVirtualRange({ start: 0, end: uniqueAssets.length });
+      setVirtualRange({ start: 0, end: gridAssets.length });
       return;
     }
 
@@ -191,7 +227,7 @@ export default function GalleryGrid({ assets, onLoadMore, hasMore, onLoadPreviou
         const visibleRowCount = Math.ceil(viewportHeight / rowHeightWithGap);
         const overscan = 3;
         const startIndex = Math.max(0, startRow * columnCount - overscan * columnCount);
-        const endIndex = Math.min(uniqueAssets.length, (startRow + visibleRowCount + overscan) * columnCount);
+        const endIndex = Math.min(gridAssets.length, (startRow + visibleRowCount + overscan) * columnCount);
         setVirtualRange((prev) => {
           // Only update if not currently scrolling to prevent jitter
           if (isUserScrolling && prev.start === startIndex && prev.end === endIndex) {
@@ -220,7 +256,7 @@ export default function GalleryGrid({ assets, onLoadMore, hasMore, onLoadPreviou
       window.removeEventListener('scroll', updateRange);
       window.removeEventListener('resize', updateRange);
     };
-  }, [shouldVirtualize, columnCount, rowHeightWithGap, uniqueAssets.length]);
+  }, [shouldVirtualize, columnCount, rowHeightWithGap, gridAssets.length]);
 
   // Only update virtual range when assets length changes significantly, not on every change
   // This prevents unnecessary layout recalculations that cause jitter
@@ -231,10 +267,10 @@ export default function GalleryGrid({ assets, onLoadMore, hasMore, onLoadPreviou
     const rafId = requestAnimationFrame(() => {
       setVirtualRange((prev) => {
         // Only update if the end needs to change significantly
-        const newEnd = Math.min(uniqueAssets.length, prev.start + columnCount * 10);
+        const newEnd = Math.min(gridAssets.length, prev.start + columnCount * 10);
         // Only update if the change is meaningful (more than 1 row difference)
         const rowDiff = Math.abs((newEnd - prev.end) / columnCount);
-        if (rowDiff > 1 || newEnd > uniqueAssets.length) {
+        if (rowDiff > 1 || newEnd > gridAssets.length) {
           return { start: prev.start, end: newEnd };
         }
         return prev;
@@ -242,7 +278,7 @@ export default function GalleryGrid({ assets, onLoadMore, hasMore, onLoadPreviou
     });
     
     return () => cancelAnimationFrame(rafId);
-  }, [shouldVirtualize, uniqueAssets.length, columnCount]);
+  }, [shouldVirtualize, gridAssets.length, columnCount]);
 
   const uniqueAssetIds = useMemo(() => {
     if (filteredAssetIdsOverride) {
@@ -252,9 +288,9 @@ export default function GalleryGrid({ assets, onLoadMore, hasMore, onLoadPreviou
   }, [uniqueAssets, filteredAssetIdsOverride]);
 
   const virtualizedAssets = useMemo(() => {
-    if (!shouldVirtualize) return uniqueAssets;
-    return uniqueAssets.slice(virtualRange.start, virtualRange.end);
-  }, [uniqueAssets, shouldVirtualize, virtualRange]);
+    if (!shouldVirtualize) return gridAssets;
+    return gridAssets.slice(virtualRange.start, virtualRange.end);
+  }, [gridAssets, shouldVirtualize, virtualRange]);
 
   useEffect(() => {
     if (!shouldVirtualize) return;
@@ -292,7 +328,7 @@ export default function GalleryGrid({ assets, onLoadMore, hasMore, onLoadPreviou
       if (e.key === 'Escape' && selectionMode) {
         setSelectionMode(false);
         setSelectedIds(new Set());
-      } else if ((e.key === 'Delete' || e.key === 'Backspace') && selectionMode && selectedIds.size > 0) {
+      } else if ((e.key === 'Delete' || e.key === 'Backspace') && canEdit && selectionMode && selectedIds.size > 0) {
         e.preventDefault();
         setShowBulkDeleteConfirm(true);
       }
@@ -318,7 +354,7 @@ export default function GalleryGrid({ assets, onLoadMore, hasMore, onLoadPreviou
       window.removeEventListener('keyup', handleKeyUp);
       window.removeEventListener('blur', handleBlur);
     };
-  }, [selectionMode, selectedIds.size]);
+  }, [selectionMode, selectedIds.size, canEdit]);
 
   const handleSelect = useCallback((id: number, selected: boolean, _isCtrlClick: boolean = false) => {
     setSelectedIds((prev) => {
@@ -660,12 +696,17 @@ export default function GalleryGrid({ assets, onLoadMore, hasMore, onLoadPreviou
                     isSelected={selectedIds.has(a.id)}
                     onSelect={(id: number, selected: boolean, isCtrlClick?: boolean) => handleSelect(id, selected, isCtrlClick)}
                     selectionMode={selectionMode}
-                    onDelete={handleDelete}
+                    onDelete={canEdit ? handleDelete : undefined}
                     isDragging={isDragging && hasDragged}
                     isCtrlPressed={isCtrlPressed}
                     personId={personId}
                     selectedIds={selectedIds}
                     isInAlbumsView={showRemoveFromAlbum}
+                    onSetAlbumCover={onSetAlbumCover}
+                    stackSize={stackByFirstId.get(a.id)?.length}
+                    isStackExpanded={expandedStacks.has(a.id)}
+                    onToggleStack={stackByFirstId.has(a.id) ? () => toggleStack(a.id) : undefined}
+                    stacks={stackIds.length > 0 ? stackIds : undefined}
                   />
                 </div>
               );
@@ -697,15 +738,16 @@ export default function GalleryGrid({ assets, onLoadMore, hasMore, onLoadPreviou
         <BulkActions
           selectedIds={selectedIds}
           selectedAssetIds={Array.from(selectedIds)}
+          selectedAssets={uniqueAssets.filter((a) => selectedIds.has(a.id))}
           onClearSelection={handleClearSelection}
           onAddToAlbum={handleAddToAlbum}
-          onDelete={() => {
+          onDelete={canEdit ? () => {
             if (showDeleteConfirmation) {
               setShowBulkDeleteConfirm(true);
             } else {
               handleBulkDelete();
             }
-          }}
+          } : undefined}
           showRemoveFromAlbum={showRemoveFromAlbum}
         />
       )}
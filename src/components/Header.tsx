@@ -1,35 +1,100 @@
 import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { useState, useEffect, useRef } from 'react';
-import { MagnifyingGlassIcon, Cog6ToothIcon } from '@heroicons/react/24/outline';
+import { MagnifyingGlassIcon, Cog6ToothIcon, CloudArrowUpIcon, ArrowRightOnRectangleIcon } from '@heroicons/react/24/outline';
+import { useQueryClient } from '@tanstack/react-query';
 import SettingsModal from './SettingsModal';
+import SearchQueryInput from './SearchQueryInput';
+import SearchSuggestions from './SearchSuggestions';
 import { useUIStore } from '../lib/store';
+import { replayQueuedMutations, useOfflineQueueStore } from '../lib/offlineQueue';
+import { useAuthStore } from '../lib/auth';
+import { api } from '../lib/api';
+import { parseSearchFilters, writeSearchFilters } from '../lib/searchFilters';
+import { formatSearchQuery, parseSearchQuery } from '../lib/searchQuery';
+import { addRecentSearch, applySuggestion, useSearchSuggestions, type SearchSuggestion } from '../lib/searchSuggestions';
+
+// The search box shows the Search page's URL filters as query syntax
+function queryFromLocation(pathname: string, search: string): string {
+  const params = new URLSearchParams(search);
+  if (!pathname.startsWith('/search')) return params.get('q') || '';
+  return formatSearchQuery(params.get('q') || '', parseSearchFilters(params));
+}
 
 export default function Header() {
   const navigate = useNavigate();
   const location = useLocation();
   const { search } = useLocation();
-  const params = new URLSearchParams(search);
-  const [q, setQ] = useState(params.get('q') || '');
+  const [q, setQ] = useState(() => queryFromLocation(location.pathname, search));
+  const [showQueryErrors, setShowQueryErrors] = useState(false);
+  const [suggestionsOpen, setSuggestionsOpen] = useState(false);
+  const [activeSuggestion, setActiveSuggestion] = useState(-1);
+  const suggestions = useSearchSuggestions(q, suggestionsOpen && !showQueryErrors);
   const inputRef = useRef<HTMLInputElement | null>(null);
   useEffect(() => {
-    setQ(params.get('q') || '');
-  }, [search]);
+    setQ(queryFromLocation(location.pathname, search));
+    setShowQueryErrors(false);
+  }, [location.pathname, search]);
 
   const [settingsOpen, setSettingsOpen] = useState(false);
   const isFetching = useUIStore((s) => s.isFetching);
+  const pendingChanges = useOfflineQueueStore((s) => s.pending);
+  const isReplaying = useOfflineQueueStore((s) => s.isReplaying);
+  const lastQueueError = useOfflineQueueStore((s) => s.lastError);
+  const session = useAuthStore((s) => s.session);
+  const clearSession = useAuthStore((s) => s.clearSession);
+  const queryClient = useQueryClient();
+
+  const signOut = () => {
+    // Revoke the token server-side, but don't keep the user waiting on it
+    api.logout().catch(() => {});
+    clearSession(false);
+    queryClient.clear();
+    navigate('/login');
+  };
+
+  const runSearch = (query: string) => {
+    // The box holds the whole query, filters included, so it replaces the URL's
+    const parsed = parseSearchQuery(query);
+    if (parsed.errors.length > 0) {
+      setShowQueryErrors(true);
+      return;
+    }
+    addRecentSearch(query);
+    setSuggestionsOpen(false);
+    const next = new URLSearchParams();
+    if (parsed.text) next.set('q', parsed.text);
+    writeSearchFilters(next, parsed.filters);
+    const qs = next.toString();
+    navigate(qs ? `/search?${qs}` : '/search');
+  };
 
   const onSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    // Preserve existing query params (including advanced filters) when searching,
-    // but update the q parameter to the new query.
-    const current = new URLSearchParams(search);
-    if (q) {
-      current.set('q', q);
-    } else {
-      current.delete('q');
+    runSearch(q);
+  };
+
+  const selectSuggestion = (suggestion: SearchSuggestion) => {
+    const next = applySuggestion(q, suggestion);
+    setQ(next);
+    setActiveSuggestion(-1);
+    if (suggestion.kind === 'recent') runSearch(next);
+  };
+
+  const onSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!suggestionsOpen || suggestions.length === 0) return;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      // Cycles through the suggestions and back to the typed text (-1)
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      const slots = suggestions.length + 1;
+      setActiveSuggestion((i) => ((i + 1 + step + slots) % slots) - 1);
+    } else if (e.key === 'Enter' && activeSuggestion >= 0) {
+      e.preventDefault();
+      selectSuggestion(suggestions[activeSuggestion]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      setSuggestionsOpen(false);
     }
-    const qs = current.toString();
-    navigate(qs ? `/search?${qs}` : '/search');
   };
 
   const isActive = (path: string) => {
@@ -77,6 +142,8 @@ export default function Header() {
             <Link to="/search" className={`${linkClass('/search')} whitespace-nowrap px-1`}>Search</Link>
             <Link to="/albums" className={`${linkClass('/albums')} whitespace-nowrap px-1`}>Albums</Link>
             <Link to="/people" className={`${linkClass('/people')} whitespace-nowrap px-1`}>People</Link>
+            <Link to="/tags" className={`${linkClass('/tags')} whitespace-nowrap px-1`}>Tags</Link>
+            <Link to="/duplicates" className={`${linkClass('/duplicates')} whitespace-nowrap px-1`}>Duplicates</Link>
             <Link to="/" className="ml-auto flex-shrink-0">
               <img 
                 src="/logo.png" 
@@ -97,23 +164,56 @@ export default function Header() {
           <Link to="/search" className={`${linkClass('/search')} px-2`}>Search</Link>
           <Link to="/albums" className={`${linkClass('/albums')} px-2`}>Albums</Link>
           <Link to="/people" className={`${linkClass('/people')} px-2`}>People</Link>
+          <Link to="/tags" className={`${linkClass('/tags')} px-2`}>Tags</Link>
+          <Link to="/duplicates" className={`${linkClass('/duplicates')} px-2`}>Duplicates</Link>
         </nav>
         <form onSubmit={onSubmit} className="flex items-center gap-1.5 sm:gap-2 w-full sm:ml-auto sm:max-w-xl">
-          <div className="relative flex-1 min-w-0">
-            <MagnifyingGlassIcon className="absolute left-2 top-1/2 -translate-y-1/2 size-4 sm:size-5 text-zinc-400" />
-            <input
-              ref={inputRef}
+          <div className="relative flex-1 min-w-0 flex">
+            <MagnifyingGlassIcon className="absolute left-2 top-1/2 -translate-y-1/2 size-4 sm:size-5 text-zinc-400 z-10" />
+            <SearchQueryInput
+              inputRef={inputRef}
               value={q}
-              onChange={(e) => setQ(e.target.value)}
-              onKeyDown={(e) => {
-                if (e.key === 'Escape') {
-                  (e.target as HTMLInputElement).blur();
-                }
+              onChange={(value) => {
+                setQ(value);
+                setShowQueryErrors(false);
+                setSuggestionsOpen(true);
+                setActiveSuggestion(-1);
               }}
-              placeholder="Search..."
+              onKeyDown={onSearchKeyDown}
+              onFocus={() => setSuggestionsOpen(true)}
+              onBlur={() => {
+                setSuggestionsOpen(false);
+                setActiveSuggestion(-1);
+              }}
+              showErrors={showQueryErrors}
+              placeholder="Search... (try camera:canon is:video after:2020)"
               className="w-full pl-8 sm:pl-9 pr-2 sm:pr-3 py-1.5 sm:py-2 rounded-md bg-zinc-100 dark:bg-zinc-800 outline-none border border-transparent focus:border-blue-500 text-xs sm:text-sm sm:text-base"
             />
+            {suggestionsOpen && !showQueryErrors && (
+              <SearchSuggestions
+                suggestions={suggestions}
+                activeIndex={activeSuggestion}
+                onSelect={selectSuggestion}
+                onHover={setActiveSuggestion}
+              />
+            )}
           </div>
+          {pendingChanges > 0 && (
+            <button
+              type="button"
+              onClick={() => replayQueuedMutations()}
+              disabled={isReplaying}
+              title={
+                `${pendingChanges} change${pendingChanges === 1 ? '' : 's'} waiting for the backend. ` +
+                (isReplaying ? 'Syncing...' : 'Click to retry now.') +
+                (lastQueueError ? `\nLast error: ${lastQueueError}` : '')
+              }
+              className="flex items-center gap-1 px-1.5 sm:px-2 py-1.5 sm:py-2 rounded-md border border-amber-300 dark:border-amber-700 bg-amber-50 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300 text-xs flex-shrink-0 hover:bg-amber-100 dark:hover:bg-amber-900/50 transition-colors disabled:opacity-60"
+            >
+              <CloudArrowUpIcon className={`size-4 sm:size-5 ${isReplaying ? 'animate-pulse' : ''}`} />
+              <span>{pendingChanges}</span>
+            </button>
+          )}
           <button
             type="button"
             onClick={() => setSettingsOpen(true)}
@@ -122,6 +222,16 @@ export default function Header() {
           >
             <Cog6ToothIcon className="size-4 sm:size-5" />
           </button>
+          {session && (
+            <button
+              type="button"
+              onClick={signOut}
+              title={`Sign out (${session.username})`}
+              className="p-1.5 sm:p-2 rounded-md border border-zinc-200 dark:border-zinc-700 flex-shrink-0 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors"
+            >
+              <ArrowRightOnRectangleIcon className="size-4 sm:size-5" />
+            </button>
+          )}
         </form>
       </div>
       <SettingsModal isOpen={settingsOpen} onClose={() => setSettingsOpen(false)} />
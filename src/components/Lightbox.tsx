@@ -1,8 +1,18 @@
 import { useEffect, useState, useRef } from 'react';
-import { XMarkIcon, ChevronLeftIcon, ChevronRightIcon, MagnifyingGlassPlusIcon, MagnifyingGlassMinusIcon, ArrowsPointingOutIcon, ArrowPathIcon } from '@heroicons/react/24/outline';
-import type { Asset } from '../types';
+import { XMarkIcon, ChevronLeftIcon, ChevronRightIcon, MagnifyingGlassPlusIcon, MagnifyingGlassMinusIcon, ArrowsPointingOutIcon, ArrowPathIcon, TagIcon, ChatBubbleBottomCenterTextIcon } from '@heroicons/react/24/outline';
+import type { Asset, AssetFlagChanges, AssetTagChanges } from '../types';
 import { media, assetApi } from '../lib/api';
 import { isVideo } from '../lib/utils';
+import { usePermission } from '../lib/permissions';
+import { useArchiveStore } from '../lib/archive';
+import { isFavorite, ratingOf } from '../lib/assetFlags';
+import { updateAssetFlags, useAssetFlagsStore } from '../lib/ratings';
+import { updateAssetTags, useAssetTagsStore } from '../lib/tags';
+import { updateAssetCaption, useAssetCaptionsStore } from '../lib/captions';
+import { MutationQueuedError } from '../lib/errors';
+import RatingControls, { RatingBadge } from './RatingControls';
+import TagEditor from './TagEditor';
+import CaptionEditor from './CaptionEditor';
 
 interface LightboxProps {
   asset: Asset;
@@ -13,9 +23,49 @@ interface LightboxProps {
   onDelete?: (id: number) => void;
   videoState?: { currentTime: number; isPlaying: boolean } | null;
   onVideoStateChange?: (state: { currentTime: number; isPlaying: boolean }) => void;
+  stack?: number[]; // Burst the asset belongs to, shown as a strip to compare shots
+  onSelectStackMember?: (id: number) => void;
+  onKeepStackMember?: (id: number) => void; // Keeps one shot and archives the rest
 }
 
-export default function Lightbox({ asset, currentIndex, total, onNavigate, onClose, onDelete, videoState, onVideoStateChange }: LightboxProps) {
+async function saveFlags(asset: Asset, changes: AssetFlagChanges) {
+  try {
+    await updateAssetFlags([asset], changes);
+  } catch (error) {
+    console.error('Failed to update favorites and ratings:', error);
+    alert(error instanceof Error ? error.message : 'Failed to update favorites and ratings');
+  }
+}
+
+async function saveTags(asset: Asset, changes: AssetTagChanges) {
+  try {
+    await updateAssetTags([asset], changes);
+  } catch (error) {
+    console.error('Failed to update tags:', error);
+    alert(error instanceof Error ? error.message : 'Failed to update tags');
+  }
+}
+
+async function saveCaption(asset: Asset, caption: string) {
+  try {
+    await updateAssetCaption(asset, caption);
+  } catch (error) {
+    console.error('Failed to save caption:', error);
+    alert(error instanceof Error ? error.message : 'Failed to save caption');
+    // Keeps the editor open unless the change was queued
+    if (!(error instanceof MutationQueuedError)) throw error;
+  }
+}
+
+export default function Lightbox({ asset, currentIndex, total, onNavigate, onClose, onDelete, videoState, onVideoStateChange, stack, onSelectStackMember, onKeepStackMember }: LightboxProps) {
+  const canEdit = usePermission('edit');
+  const isArchived = useArchiveStore((s) => s.archived.has(asset?.id));
+  const unarchive = useArchiveStore((s) => s.unarchive);
+  const flags = useAssetFlagsStore((s) => s.flags.get(asset?.id)) ?? asset?.flags ?? 0;
+  const tags = useAssetTagsStore((s) => s.tags.get(asset?.id)) ?? asset?.tags ?? [];
+  const [showTags, setShowTags] = useState(false);
+  const caption = useAssetCaptionsStore((s) => s.captions.get(asset?.id)) ?? asset?.caption ?? '';
+  const [showCaptionEditor, setShowCaptionEditor] = useState(false);
   // Validate props
   if (!asset) {
     console.error('Lightbox: asset is required');
@@ -185,12 +235,31 @@ export default function Lightbox({ asset, currentIndex, total, onNavigate, onClo
         // 'f' key to exit fullscreen (close lightbox)
         e.preventDefault();
         onClose();
+      } else if (/^[1-5]$/.test(e.key) && canEdit) {
+        // 1-5 rate the asset, repeating the current rating clears it
+        e.preventDefault();
+        const rating = Number(e.key);
+        saveFlags(asset, { rating: rating === ratingOf(flags) ? 0 : rating });
+      } else if (e.key === 't' || e.key === 'T') {
+        // 't' key to show or hide tags
+        e.preventDefault();
+        setShowTags((v) => !v);
+        setShowCaptionEditor(false);
+      } else if ((e.key === 'c' || e.key === 'C') && canEdit && !e.ctrlKey && !e.metaKey) {
+        // 'c' key to edit the caption
+        e.preventDefault();
+        setShowCaptionEditor((v) => !v);
+        setShowTags(false);
+      } else if ((e.key === 'l' || e.key === 'L') && canEdit) {
+        // 'l' key to toggle favorite
+        e.preventDefault();
+        saveFlags(asset, { favorite: !isFavorite(flags) });
       }
     };
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [currentIndex, totalCount, onClose, onNavigate, onDelete, asset.id]);
+  }, [currentIndex, totalCount, onClose, onNavigate, onDelete, asset, canEdit, flags]);
 
   // Mouse wheel zoom
   useEffect(() => {
@@ -338,6 +407,60 @@ export default function Lightbox({ asset, currentIndex, total, onNavigate, onClo
         <XMarkIcon className="w-6 h-6" />
       </button>
 
+      {/* Tags */}
+      <button
+        onClick={() => {
+          setShowTags((v) => !v);
+          setShowCaptionEditor(false);
+        }}
+        className={`absolute top-4 right-16 z-10 p-2 rounded-full text-white transition-colors ${
+          showTags ? 'bg-blue-600 hover:bg-blue-700' : 'bg-black/50 hover:bg-black/70'
+        }`}
+        aria-label={showTags ? 'Hide tags' : 'Show tags'}
+        title="Tags (T)"
+      >
+        <TagIcon className="w-6 h-6" />
+      </button>
+      {showTags && (
+        <div className="absolute top-16 right-4 z-20 w-72 max-w-[calc(100vw-2rem)] p-3 rounded-lg bg-white dark:bg-zinc-900 text-zinc-900 dark:text-zinc-100 shadow-lg">
+          <TagEditor
+            tags={tags}
+            onAdd={canEdit ? (add) => saveTags(asset, { add }) : undefined}
+            onRemove={canEdit ? (tag) => saveTags(asset, { remove: [tag] }) : undefined}
+          />
+        </div>
+      )}
+
+      {/* Caption */}
+      {canEdit && (
+        <button
+          onClick={() => {
+            setShowCaptionEditor((v) => !v);
+            setShowTags(false);
+          }}
+          className={`absolute top-4 right-28 z-10 p-2 rounded-full text-white transition-colors ${
+            showCaptionEditor ? 'bg-blue-600 hover:bg-blue-700' : 'bg-black/50 hover:bg-black/70'
+          }`}
+          aria-label={showCaptionEditor ? 'Close caption editor' : 'Edit caption'}
+          title="Caption (C)"
+        >
+          <ChatBubbleBottomCenterTextIcon className="w-6 h-6" />
+        </button>
+      )}
+      {showCaptionEditor && canEdit && (
+        <div className="absolute top-16 right-4 z-20 w-80 max-w-[calc(100vw-2rem)] p-3 rounded-lg bg-white dark:bg-zinc-900 text-zinc-900 dark:text-zinc-100 shadow-lg">
+          <CaptionEditor
+            key={asset.id}
+            caption={caption}
+            autoEdit
+            onSave={async (text) => {
+              await saveCaption(asset, text);
+              setShowCaptionEditor(false);
+            }}
+          />
+        </div>
+      )}
+
       {/* Navigation buttons */}
       {canGoPrev && (
         <button
@@ -420,7 +543,7 @@ export default function Lightbox({ asset, currentIndex, total, onNavigate, onClo
               </button>
             )}
             {/* Save to disk button - appears for 3 seconds after rotation, then fades out */}
-            {showSaveButton && (
+            {showSaveButton && canEdit && (
               <div className="ml-2">
                 <button
                   onClick={handleSaveOrientation}
@@ -436,6 +559,71 @@ export default function Lightbox({ asset, currentIndex, total, onNavigate, onClo
         )}
       </div>
 
+      {/* Burst strip */}
+      {stack && stack.length > 1 && (
+        <div className="absolute bottom-16 left-1/2 -translate-x-1/2 z-10 max-w-[90vw] flex flex-col items-center gap-2 p-2 rounded-lg bg-black/50 backdrop-blur-sm">
+          <div className="flex gap-1 max-w-full overflow-x-auto">
+            {stack.map((id, i) => (
+              <button
+                key={id}
+                onClick={() => onSelectStackMember?.(id)}
+                className={`flex-shrink-0 w-14 h-14 rounded overflow-hidden border-2 transition-opacity ${
+                  id === asset.id ? 'border-white' : 'border-transparent opacity-60 hover:opacity-100'
+                }`}
+                aria-label={`Shot ${i + 1} of ${stack.length}`}
+              >
+                <img src={media.thumbUrl(id)} alt="" className="w-full h-full object-cover" draggable={false} />
+              </button>
+            ))}
+          </div>
+          {onKeepStackMember && (
+            <button
+              onClick={() => onKeepStackMember(asset.id)}
+              className="px-2 py-1 text-xs text-white border border-white/50 rounded hover:border-white/80 transition-colors"
+            >
+              Keep this shot, hide the other {stack.length - 1} on this device
+            </button>
+          )}
+        </div>
+      )}
+
+      {isArchived && (
+        <div className="absolute bottom-4 left-4 z-10 flex items-center gap-2 px-3 py-2 rounded-full bg-black/50 backdrop-blur-sm text-white text-sm">
+          Hidden on this device
+          {canEdit && (
+            <button onClick={() => unarchive([asset.id])} className="underline hover:opacity-80">
+              Unhide
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Favorite and rating */}
+      {canEdit ? (
+        <div className="absolute bottom-4 right-4 z-10 px-3 py-2 rounded-full bg-black/50 backdrop-blur-sm text-white">
+          <RatingControls
+            flags={flags}
+            onToggleFavorite={() => saveFlags(asset, { favorite: !isFavorite(flags) })}
+            onRate={(rating) => saveFlags(asset, { rating })}
+          />
+        </div>
+      ) : (
+        (isFavorite(flags) || ratingOf(flags) > 0) && (
+          <div className="absolute bottom-4 right-4 z-10 px-3 py-2 rounded-full bg-black/50 backdrop-blur-sm text-white text-sm">
+            <RatingBadge flags={flags} />
+          </div>
+        )
+      )}
+
+      {/* Caption overlay, kept above the burst strip when it shows */}
+      {caption && !showCaptionEditor && (
+        <div
+          className={`absolute ${stack && stack.length > 1 ? 'bottom-48' : 'bottom-16'} left-1/2 -translate-x-1/2 z-10 max-w-[80vw] sm:max-w-2xl px-4 py-2 rounded-lg bg-black/50 backdrop-blur-sm text-white text-sm text-center whitespace-pre-wrap break-words max-h-32 overflow-y-auto`}
+        >
+          {caption}
+        </div>
+      )}
+
       {/* Image counter */}
       <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-10 px-4 py-2 rounded-full bg-black/50 backdrop-blur-sm text-white text-sm">
         {currentIndex + 1} / {totalCount}
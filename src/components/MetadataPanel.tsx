@@ -1,7 +1,15 @@
 import { useState } from 'react';
 import { ChevronDownIcon, ChevronUpIcon, DocumentDuplicateIcon, ArrowDownTrayIcon } from '@heroicons/react/24/outline';
-import type { Asset } from '../types';
+import type { Asset, AssetTagChanges } from '../types';
 import { media, assetApi } from '../lib/api';
+import { isFavorite, ratingOf } from '../lib/assetFlags';
+import { useAssetFlags } from '../lib/ratings';
+import { updateAssetTags, useAssetTags } from '../lib/tags';
+import { updateAssetCaption, useAssetCaption } from '../lib/captions';
+import { MutationQueuedError } from '../lib/errors';
+import { usePermission } from '../lib/permissions';
+import TagEditor from './TagEditor';
+import CaptionEditor from './CaptionEditor';
 
 interface MetadataPanelProps {
   asset: Asset;
@@ -70,6 +78,31 @@ function formatExposure(exposure: number) {
 }
 
 export default function MetadataPanel({ asset }: MetadataPanelProps) {
+  const flags = useAssetFlags(asset);
+  const tags = useAssetTags(asset);
+  const caption = useAssetCaption(asset);
+  const canEdit = usePermission('edit');
+
+  const handleUpdateTags = async (changes: AssetTagChanges) => {
+    try {
+      await updateAssetTags([asset], changes);
+    } catch (error) {
+      console.error('Failed to update tags:', error);
+      alert(error instanceof Error ? error.message : 'Failed to update tags');
+    }
+  };
+
+  const handleSaveCaption = async (text: string) => {
+    try {
+      await updateAssetCaption(asset, text);
+    } catch (error) {
+      console.error('Failed to save caption:', error);
+      alert(error instanceof Error ? error.message : 'Failed to save caption');
+      // Keeps the editor open unless the change was queued
+      if (!(error instanceof MutationQueuedError)) throw error;
+    }
+  };
+
   const handleCopyPath = () => {
     navigator.clipboard.writeText(asset.path);
   };
@@ -106,6 +139,18 @@ export default function MetadataPanel({ asset }: MetadataPanelProps) {
         </button>
       </div>
 
+      <Section title="Caption" defaultOpen={true}>
+        <CaptionEditor key={asset.id} caption={caption} onSave={canEdit ? handleSaveCaption : undefined} />
+      </Section>
+
+      <Section title="Tags" defaultOpen={true}>
+        <TagEditor
+          tags={tags}
+          onAdd={canEdit ? (add) => handleUpdateTags({ add }) : undefined}
+          onRemove={canEdit ? (tag) => handleUpdateTags({ remove: [tag] }) : undefined}
+        />
+      </Section>
+
       {/* File Information */}
       <Section title="File Information" defaultOpen={true}>
         <MetadataRow label="Filename" value={asset.filename} />
@@ -171,7 +216,9 @@ export default function MetadataPanel({ asset }: MetadataPanelProps) {
         {asset.xxh64 && (
           <MetadataRow label="XXH64" value={asset.xxh64.toString()} />
         )}
-        <MetadataRow label="Flags" value={asset.flags.toString()} />
+        <MetadataRow label="Favorite" value={isFavorite(flags) ? 'Yes' : 'No'} />
+        <MetadataRow label="Rating" value={ratingOf(flags) > 0 ? `${ratingOf(flags)} / 5` : 'Unrated'} />
+        <MetadataRow label="Flags" value={flags.toString()} />
       </Section>
     </div>
   );
@@ -1,11 +1,14 @@
-import { useState, useEffect } from 'react';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useState } from 'react';
+import { useQuery, useQueries, useMutation, useQueryClient } from '@tanstack/react-query';
 import { api } from '../lib/api';
 import { TrashIcon, PlusIcon, FolderOpenIcon, PlayIcon, PauseIcon } from '@heroicons/react/24/outline';
 import ConfirmDialog from './ConfirmDialog';
 import FileBrowser from './FileBrowser';
 import { useUIStore } from '../lib/store';
 import { usePageVisibility } from '../lib/hooks';
+import { useLiveUpdatesStore } from '../lib/liveUpdates';
+
+type PathStatus = { scanning: boolean; watcher_paused: boolean; watching: boolean };
 
 export default function PathsManager() {
   const queryClient = useQueryClient();
@@ -13,8 +16,8 @@ export default function PathsManager() {
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [pathToDelete, setPathToDelete] = useState<string | null>(null);
   const [browserOpen, setBrowserOpen] = useState(false);
-  const [pathStatuses, setPathStatuses] = useState<Record<string, { scanning: boolean; watcher_paused: boolean; watching: boolean }>>({});
   const isPageVisible = usePageVisibility();
+  const liveMode = useLiveUpdatesStore((s) => s.mode);
 
   const { data: pathsData = [], isLoading } = useQuery({
     queryKey: ['scanPaths'],
@@ -28,33 +31,23 @@ export default function PathsManager() {
     typeof item === 'string' ? { path: item, is_default: false, host_path: null } : item
   );
 
-  // Fetch path statuses for all paths
-  useEffect(() => {
-    const fetchStatuses = async () => {
-      const statusPromises = paths.map(async (item) => {
-        try {
-          const status = await api.getPathStatus(item.path);
-          return { path: item.path, status };
-        } catch (error) {
-          // If status fetch fails, assume path is not active
-          return { path: item.path, status: { scanning: false, watcher_paused: false, watching: false } };
-        }
-      });
-      const results = await Promise.all(statusPromises);
-      const statusMap: Record<string, { scanning: boolean; watcher_paused: boolean; watching: boolean }> = {};
-      results.forEach(({ path, status }) => {
-        statusMap[path] = status;
-      });
-      setPathStatuses(statusMap);
-    };
-
-    if (paths.length > 0 && isPageVisible) {
-      fetchStatuses();
-      // Poll for status updates every 2 seconds
-      const interval = setInterval(fetchStatuses, 2000);
-      return () => clearInterval(interval);
-    }
-  }, [paths, isPageVisible]);
+  // Path statuses live in the query cache so the live stream can update them
+  const statusQueries = useQueries({
+    queries: paths.map((item) => ({
+      queryKey: ['pathStatus', item.path],
+      queryFn: () =>
+        api.getPathStatus(item.path).catch(() => ({ scanning: false, watcher_paused: false, watching: false })),
+      enabled: isPageVisible,
+      refetchInterval: isPageVisible && liveMode !== 'stream' ? 2000 : false,
+    })),
+  });
+  const pathStatuses: Record<string, PathStatus> = {};
+  paths.forEach((item, index) => {
+    const status = statusQueries[index]?.data;
+    if (status) pathStatuses[item.path] = status;
+  });
+  const setPathStatus = (path: string, status: PathStatus) =>
+    queryClient.setQueryData(['pathStatus', path], status);
 
   // Start browser from /host to show mounted directories
   const defaultRootPath = '/host';
@@ -83,20 +76,10 @@ export default function PathsManager() {
     mutationFn: (path: string) => api.scanPath(path),
     onSuccess: (_, path) => {
       // Update local status immediately to show pause button
-      setPathStatuses(prev => ({
-        ...prev,
-        [path]: { scanning: true, watcher_paused: false, watching: true }
-      }));
+      setPathStatus(path, { scanning: true, watcher_paused: false, watching: true });
       queryClient.invalidateQueries({ queryKey: ['stats'] });
       // Also refresh all path statuses to ensure consistency
-      paths.forEach(async (item) => {
-        try {
-          const status = await api.getPathStatus(item.path);
-          setPathStatuses(prev => ({ ...prev, [item.path]: status }));
-        } catch (error) {
-          // Ignore errors
-        }
-      });
+      queryClient.invalidateQueries({ queryKey: ['pathStatus'] });
     },
   });
 
@@ -104,10 +87,7 @@ export default function PathsManager() {
     mutationFn: (path: string) => api.pausePath(path),
     onSuccess: (_, path) => {
       // Update local status immediately
-      setPathStatuses(prev => ({
-        ...prev,
-        [path]: { scanning: false, watcher_paused: true, watching: true }
-      }));
+      setPathStatus(path, { scanning: false, watcher_paused: true, watching: true });
       queryClient.invalidateQueries({ queryKey: ['stats'] });
     },
   });
@@ -128,10 +108,7 @@ export default function PathsManager() {
         }
         try {
           await api.scanPath(item.path);
-          setPathStatuses(prev => ({
-            ...prev,
-            [item.path]: { scanning: true, watcher_paused: false, watching: true }
-          }));
+          setPathStatus(item.path, { scanning: true, watcher_paused: false, watching: true });
         } catch (error) {
           console.error('Failed to run scan for path', item.path, error);
         }
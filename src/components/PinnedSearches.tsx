@@ -0,0 +1,22 @@
+import SavedSearchLink from './SavedSearchLink';
+import { useSavedSearchesStore } from '../lib/savedSearches';
+
+// Saved searches pinned from the Search page sidebar
+export default function PinnedSearches() {
+  const searches = useSavedSearchesStore((s) => s.searches);
+  const pinned = searches.filter((s) => s.pinned);
+  if (pinned.length === 0) return null;
+
+  return (
+    <section>
+      <div className="rounded-lg border border-zinc-200 dark:border-zinc-800 p-3 sm:p-4 bg-white dark:bg-zinc-900">
+        <h2 className="text-sm font-semibold text-zinc-700 dark:text-zinc-300 mb-2">Saved searches</h2>
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-1">
+          {pinned.map((search) => (
+            <SavedSearchLink key={search.id} search={search} />
+          ))}
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,75 @@
+import { HeartIcon, StarIcon } from '@heroicons/react/24/outline';
+import { HeartIcon as HeartSolidIcon, StarIcon as StarSolidIcon } from '@heroicons/react/24/solid';
+import { MAX_RATING, isFavorite, ratingOf } from '../lib/assetFlags';
+
+const RATINGS = Array.from({ length: MAX_RATING }, (_, i) => i + 1);
+
+interface RatingControlsProps {
+  flags: number;
+  onToggleFavorite: () => void;
+  onRate: (rating: number) => void;
+  className?: string;
+}
+
+// Heart and stars; clicking the current rating clears it. Clicks are kept
+// from reaching enclosing links and selection handlers.
+export default function RatingControls({ flags, onToggleFavorite, onRate, className = '' }: RatingControlsProps) {
+  const favorite = isFavorite(flags);
+  const rating = ratingOf(flags);
+
+  const stop = (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+  };
+
+  return (
+    <div className={`flex items-center gap-0.5 ${className}`}>
+      <button
+        onClick={(e) => {
+          stop(e);
+          onToggleFavorite();
+        }}
+        className="p-0.5 rounded hover:bg-black/10 dark:hover:bg-white/10"
+        title={favorite ? 'Remove from favorites' : 'Add to favorites'}
+        aria-pressed={favorite}
+      >
+        {favorite ? <HeartSolidIcon className="w-3.5 h-3.5 text-red-500" /> : <HeartIcon className="w-3.5 h-3.5" />}
+      </button>
+      {RATINGS.map((value) => (
+        <button
+          key={value}
+          onClick={(e) => {
+            stop(e);
+            onRate(value === rating ? 0 : value);
+          }}
+          className="p-0.5 rounded hover:bg-black/10 dark:hover:bg-white/10"
+          title={value === rating ? 'Clear rating' : `Rate ${value} ${value === 1 ? 'star' : 'stars'}`}
+        >
+          {value <= rating ? (
+            <StarSolidIcon className="w-3.5 h-3.5 text-amber-400" />
+          ) : (
+            <StarIcon className="w-3.5 h-3.5" />
+          )}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+// Compact favorite and rating marker for cards
+export function RatingBadge({ flags, className = '' }: { flags: number; className?: string }) {
+  const favorite = isFavorite(flags);
+  const rating = ratingOf(flags);
+  if (!favorite && rating === 0) return null;
+  return (
+    <span className={`flex items-center gap-1 shrink-0 ${className}`}>
+      {favorite && <HeartSolidIcon className="w-3.5 h-3.5 text-red-500" aria-label="Favorite" />}
+      {rating > 0 && (
+        <span className="flex items-center gap-0.5" aria-label={`${rating} stars`}>
+          <StarSolidIcon className="w-3.5 h-3.5 text-amber-400" />
+          {rating}
+        </span>
+      )}
+    </span>
+  );
+}
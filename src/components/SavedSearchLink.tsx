@@ -0,0 +1,38 @@
+import { Link } from 'react-router-dom';
+import { newSinceLastViewed, savedSearchUrl, useSavedSearchTotal, type SavedSearch } from '../lib/savedSearches';
+import { formatSearchQuery } from '../lib/searchQuery';
+
+interface SavedSearchLinkProps {
+  search: SavedSearch;
+  active?: boolean;
+  actions?: React.ReactNode;
+}
+
+export default function SavedSearchLink({ search, active, actions }: SavedSearchLinkProps) {
+  const { data: total } = useSavedSearchTotal(search);
+  const fresh = newSinceLastViewed(search, total);
+
+  return (
+    <div
+      className={`group flex items-center gap-2 rounded-md px-2 py-1.5 text-sm ${
+        active ? 'bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300' : 'hover:bg-zinc-100 dark:hover:bg-zinc-800'
+      }`}
+    >
+      <Link to={savedSearchUrl(search)} className="flex-1 min-w-0" title={formatSearchQuery(search.q, search.filters)}>
+        <div className="truncate font-medium">{search.name}</div>
+        <div className="text-xs text-zinc-500">
+          {total === undefined ? '…' : total === null ? 'Filtered in the browser' : `${total.toLocaleString()} results`}
+        </div>
+      </Link>
+      {fresh > 0 && (
+        <span
+          className="px-1.5 py-0.5 rounded-full bg-blue-600 text-white text-xs flex-shrink-0"
+          title={`${fresh} new since last viewed`}
+        >
+          {fresh} new
+        </span>
+      )}
+      {actions}
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+import { useState } from 'react';
+import { BookmarkIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { BookmarkIcon as BookmarkSolidIcon } from '@heroicons/react/24/solid';
+import SavedSearchLink from './SavedSearchLink';
+import { isSavableSearch, useSavedSearchesStore, type SavedSearch } from '../lib/savedSearches';
+import { formatSearchQuery } from '../lib/searchQuery';
+import type { SearchFilters } from '../types';
+
+interface SavedSearchesSidebarProps {
+  q: string;
+  filters: SearchFilters;
+  // Result total of the current search, once loaded
+  total: number | undefined;
+  current: SavedSearch | undefined;
+}
+
+export default function SavedSearchesSidebar({ q, filters, total, current }: SavedSearchesSidebarProps) {
+  const searches = useSavedSearchesStore((s) => s.searches);
+  const save = useSavedSearchesStore((s) => s.save);
+  const remove = useSavedSearchesStore((s) => s.remove);
+  const togglePinned = useSavedSearchesStore((s) => s.togglePinned);
+  const [name, setName] = useState<string | null>(null);
+
+  const canSave = !current && isSavableSearch(q, filters);
+
+  const onSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name?.trim()) return;
+    save(name, q, filters, total ?? null);
+    setName(null);
+  };
+
+  return (
+    <aside className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-semibold text-zinc-700 dark:text-zinc-300">Saved searches</h2>
+        {canSave && name === null && (
+          <button
+            onClick={() => setName(formatSearchQuery(q, filters))}
+            title="Save this search"
+            className="p-1 rounded-md hover:bg-zinc-100 dark:hover:bg-zinc-800 text-zinc-600 dark:text-zinc-400"
+          >
+            <PlusIcon className="size-4" />
+          </button>
+        )}
+      </div>
+
+      {name !== null && (
+        <form onSubmit={onSave} className="space-y-1.5">
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Escape') setName(null);
+            }}
+            placeholder="Name"
+            autoFocus
+            className="w-full px-2 py-1 rounded-md border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <div className="flex gap-1.5">
+            <button
+              type="submit"
+              disabled={!name.trim()}
+              className="px-2 py-1 rounded-md bg-blue-600 hover:bg-blue-700 text-white text-xs disabled:opacity-50"
+            >
+              Save
+            </button>
+            <button
+              type="button"
+              onClick={() => setName(null)}
+              className="px-2 py-1 rounded-md border border-zinc-200 dark:border-zinc-700 text-xs hover:bg-zinc-100 dark:hover:bg-zinc-800"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {searches.length === 0 && name === null && (
+        <p className="text-xs text-zinc-500">
+          {canSave ? 'Save this search with + to come back to it.' : 'Run a search to save it here.'}
+        </p>
+      )}
+
+      <div className="space-y-0.5">
+        {searches.map((search) => (
+          <SavedSearchLink
+            key={search.id}
+            search={search}
+            active={search.id === current?.id}
+            actions={
+              <div className="flex flex-shrink-0 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                <button
+                  onClick={() => togglePinned(search.id)}
+                  title={search.pinned ? 'Unpin from Dashboard' : 'Pin to Dashboard'}
+                  className="p-1 rounded hover:bg-zinc-200 dark:hover:bg-zinc-700"
+                >
+                  {search.pinned ? <BookmarkSolidIcon className="size-4 text-blue-600" /> : <BookmarkIcon className="size-4" />}
+                </button>
+                <button
+                  onClick={() => remove(search.id)}
+                  title="Delete saved search"
+                  className="p-1 rounded hover:bg-zinc-200 dark:hover:bg-zinc-700 text-red-600"
+                >
+                  <TrashIcon className="size-4" />
+                </button>
+              </div>
+            }
+          />
+        ))}
+      </div>
+    </aside>
+  );
+}
@@ -0,0 +1,75 @@
+import { useState } from 'react';
+import { FACET_GROUPS } from '../lib/searchFacets';
+import type { SearchFilters, SearchResultFacets } from '../types';
+
+interface SearchFacetsPanelProps {
+  facets: SearchResultFacets;
+  filters: SearchFilters;
+  onChange: (filters: SearchFilters) => void;
+  // Counts cover only the loaded pages
+  partial?: boolean;
+}
+
+const COLLAPSED_VALUES = 6;
+
+export default function SearchFacetsPanel({ facets, filters, onChange, partial }: SearchFacetsPanelProps) {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const groups = FACET_GROUPS.filter((group) => facets[group.key].length > 0);
+  if (groups.length === 0) return null;
+
+  const toggleExpanded = (key: string) =>
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <h2 className="text-sm font-semibold text-zinc-700 dark:text-zinc-300">Refine</h2>
+        {partial && <p className="text-xs text-zinc-500">Counts for the loaded results only</p>}
+      </div>
+      {groups.map((group) => {
+        const values = facets[group.key];
+        const isExpanded = expanded.has(group.key);
+        const shown = isExpanded ? values : values.slice(0, COLLAPSED_VALUES);
+        return (
+          <div key={group.key}>
+            <div className="text-xs font-medium uppercase tracking-wide text-zinc-500 mb-1">{group.label}</div>
+            <ul className="space-y-0.5">
+              {shown.map(({ value, count }) => {
+                const active = group.isActive(filters, value);
+                return (
+                  <li key={value}>
+                    <button
+                      onClick={() => onChange(group.toggle(filters, value))}
+                      title={active ? 'Remove this filter' : 'Show only these results'}
+                      className={`w-full flex items-center justify-between gap-2 rounded px-2 py-1 text-sm text-left ${
+                        active
+                          ? 'bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 font-medium'
+                          : 'hover:bg-zinc-100 dark:hover:bg-zinc-800'
+                      }`}
+                    >
+                      <span className="truncate">{group.format ? group.format(value) : value}</span>
+                      <span className="text-xs text-zinc-500 flex-shrink-0">{count.toLocaleString()}</span>
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+            {values.length > COLLAPSED_VALUES && (
+              <button
+                onClick={() => toggleExpanded(group.key)}
+                className="mt-0.5 px-2 text-xs text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                {isExpanded ? 'Show less' : `Show all ${values.length}`}
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
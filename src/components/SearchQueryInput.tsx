@@ -0,0 +1,95 @@
+import { useMemo, useRef } from 'react';
+import { parseSearchQuery, type QueryToken } from '../lib/searchQuery';
+
+interface SearchQueryInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  className?: string;
+  inputRef?: React.Ref<HTMLInputElement>;
+  showErrors?: boolean;
+  onKeyDown?: (e: React.KeyboardEvent<HTMLInputElement>) => void;
+  onFocus?: () => void;
+  onBlur?: () => void;
+}
+
+function tokenClass(token: QueryToken): string {
+  if (token.error) return 'underline decoration-wavy decoration-red-500 text-red-600 dark:text-red-400';
+  return token.key === null ? '' : 'text-emerald-700 dark:text-emerald-400';
+}
+
+// Text input that highlights `key:value` filters. The highlighted copy sits
+// behind a transparent input with the same font and padding, so the caret and
+// selection stay native.
+export default function SearchQueryInput({
+  value,
+  onChange,
+  placeholder,
+  className = '',
+  inputRef,
+  showErrors,
+  onKeyDown,
+  onFocus,
+  onBlur,
+}: SearchQueryInputProps) {
+  const overlayRef = useRef<HTMLDivElement | null>(null);
+  const parsed = useMemo(() => parseSearchQuery(value), [value]);
+
+  const segments: React.ReactNode[] = [];
+  let pos = 0;
+  for (const token of parsed.tokens) {
+    if (token.start > pos) segments.push(value.slice(pos, token.start));
+    const raw = value.slice(token.start, token.end);
+    const keyLength = token.key === null ? 0 : token.key.length + 1;
+    segments.push(
+      <span key={token.start} className={tokenClass(token)} title={token.error}>
+        {keyLength > 0 && <span className="text-blue-600 dark:text-blue-400">{raw.slice(0, keyLength)}</span>}
+        {raw.slice(keyLength)}
+      </span>
+    );
+    pos = token.end;
+  }
+  if (pos < value.length) segments.push(value.slice(pos));
+
+  return (
+    <div className="relative flex-1 min-w-0">
+      <div
+        ref={overlayRef}
+        aria-hidden
+        className={`${className} absolute inset-0 overflow-hidden whitespace-pre pointer-events-none border-transparent`}
+      >
+        {segments}
+      </div>
+      <input
+        ref={inputRef}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onScroll={(e) => {
+          if (overlayRef.current) overlayRef.current.scrollLeft = e.currentTarget.scrollLeft;
+        }}
+        onFocus={onFocus}
+        onBlur={onBlur}
+        onKeyDown={(e) => {
+          onKeyDown?.(e);
+          if (e.key === 'Escape' && !e.defaultPrevented) {
+            (e.target as HTMLInputElement).blur();
+          }
+        }}
+        placeholder={placeholder}
+        spellCheck={false}
+        aria-invalid={parsed.errors.length > 0}
+        className={`${className} relative text-transparent caret-zinc-900 dark:caret-zinc-100 selection:text-transparent`}
+        style={{ background: 'transparent' }}
+      />
+      {showErrors && parsed.errors.length > 0 && (
+        <ul className="absolute left-0 right-0 top-full mt-1 z-50 rounded-md border border-red-200 dark:border-red-900 bg-white dark:bg-zinc-900 p-2 text-xs text-red-600 dark:text-red-400 shadow-sm space-y-0.5">
+          {parsed.errors.map((token) => (
+            <li key={token.start}>
+              <span className="font-mono">{value.slice(token.start, token.end)}</span>: {token.error}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import { ClockIcon, FolderIcon, UserIcon, CameraIcon, RectangleStackIcon, FunnelIcon, TagIcon } from '@heroicons/react/24/outline';
+import type { SearchSuggestion, SuggestionKind } from '../lib/searchSuggestions';
+
+interface SearchSuggestionsProps {
+  suggestions: SearchSuggestion[];
+  activeIndex: number;
+  onSelect: (suggestion: SearchSuggestion) => void;
+  onHover: (index: number) => void;
+}
+
+const KIND_ICONS: Record<SuggestionKind, typeof ClockIcon> = {
+  recent: ClockIcon,
+  filter: FunnelIcon,
+  camera: CameraIcon,
+  model: CameraIcon,
+  lens: CameraIcon,
+  folder: FolderIcon,
+  person: UserIcon,
+  album: RectangleStackIcon,
+  tag: TagIcon,
+  type: FunnelIcon,
+};
+
+const KIND_LABELS: Record<SuggestionKind, string> = {
+  recent: 'Recent',
+  filter: 'Filter',
+  camera: 'Camera',
+  model: 'Model',
+  lens: 'Lens',
+  folder: 'Folder',
+  person: 'Person',
+  album: 'Album',
+  tag: 'Tag',
+  type: 'Type',
+};
+
+export default function SearchSuggestions({ suggestions, activeIndex, onSelect, onHover }: SearchSuggestionsProps) {
+  if (suggestions.length === 0) return null;
+  return (
+    <ul
+      role="listbox"
+      className="absolute left-0 right-0 top-full mt-1 z-50 max-h-80 overflow-y-auto rounded-md border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-900 py-1 text-sm shadow-lg"
+    >
+      {suggestions.map((suggestion, i) => {
+        const Icon = KIND_ICONS[suggestion.kind];
+        return (
+          <li
+            key={`${suggestion.kind}:${suggestion.text}`}
+            role="option"
+            aria-selected={i === activeIndex}
+            // mousedown keeps focus in the input, which would close the list on blur
+            onMouseDown={(e) => {
+              e.preventDefault();
+              onSelect(suggestion);
+            }}
+            onMouseEnter={() => onHover(i)}
+            className={`flex items-center gap-2 px-3 py-1.5 cursor-pointer ${
+              i === activeIndex ? 'bg-blue-50 dark:bg-blue-900/40' : ''
+            }`}
+          >
+            <Icon className="size-4 flex-shrink-0 text-zinc-400" />
+            <span className="truncate flex-1">{suggestion.label}</span>
+            <span className="text-xs text-zinc-500 flex-shrink-0">
+              {KIND_LABELS[suggestion.kind]}
+              {suggestion.count !== undefined && ` · ${suggestion.count.toLocaleString()}`}
+            </span>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,156 @@
+import { useState } from 'react';
+import { CheckCircleIcon, ExclamationCircleIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { checkServer } from '../lib/api';
+import { describeError } from '../lib/errors';
+import { DEFAULT_PROFILE_ID, useServerProfileStore } from '../lib/serverProfiles';
+
+type TestResult = { ok: true; version: string; database: string } | { ok: false; message: string };
+
+export default function ServerProfilesPanel() {
+  const profiles = useServerProfileStore((s) => s.profiles);
+  const activeId = useServerProfileStore((s) => s.activeId);
+  const addProfile = useServerProfileStore((s) => s.addProfile);
+  const removeProfile = useServerProfileStore((s) => s.removeProfile);
+  const setActiveProfile = useServerProfileStore((s) => s.setActiveProfile);
+  const [name, setName] = useState('');
+  const [baseUrl, setBaseUrl] = useState('');
+  const [results, setResults] = useState<Record<string, TestResult>>({});
+  const [testing, setTesting] = useState<string | null>(null);
+
+  // Results are keyed by URL so the draft and saved profiles share them
+  const test = async (url: string) => {
+    setTesting(url);
+    try {
+      const health = await checkServer(url);
+      setResults((r) => ({ ...r, [url]: { ok: true, version: health.version, database: health.database } }));
+    } catch (error) {
+      const { title, message } = describeError(error);
+      setResults((r) => ({ ...r, [url]: { ok: false, message: `${title}: ${message}` } }));
+    } finally {
+      setTesting(null);
+    }
+  };
+
+  const handleAdd = () => {
+    if (!baseUrl.trim()) return;
+    addProfile(name, baseUrl);
+    setName('');
+    setBaseUrl('');
+  };
+
+  const renderResult = (url: string) => {
+    const result = results[url];
+    if (testing === url) return <span className="text-[10px] text-zinc-500 dark:text-zinc-400">Testing…</span>;
+    if (!result) return null;
+    return result.ok ? (
+      <span className="flex items-center gap-1 text-[10px] text-green-600 dark:text-green-400">
+        <CheckCircleIcon className="size-3.5" />
+        {result.version} · {result.database}
+      </span>
+    ) : (
+      <span className="flex items-center gap-1 text-[10px] text-red-600 dark:text-red-400" title={result.message}>
+        <ExclamationCircleIcon className="size-3.5" />
+        Unreachable
+      </span>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-zinc-500 dark:text-zinc-400">
+        Switch between nazr backends without rebuilding. Each server keeps its own cached data and view state;
+        switching reloads the current page against the selected server.
+      </p>
+
+      <div className="space-y-2">
+        {profiles.map((profile) => {
+          const isActive = profile.id === activeId;
+          return (
+            <div
+              key={profile.id}
+              className={`p-2 rounded-md border ${
+                isActive
+                  ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20'
+                  : 'border-zinc-200 dark:border-zinc-700'
+              }`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <div className="text-xs font-medium text-zinc-900 dark:text-zinc-100 truncate">
+                    {profile.name}
+                    {isActive && <span className="ml-2 text-[10px] text-blue-600 dark:text-blue-400">Active</span>}
+                  </div>
+                  <div className="text-[10px] text-zinc-500 dark:text-zinc-400 truncate">{profile.baseUrl}</div>
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <button
+                    onClick={() => test(profile.baseUrl)}
+                    disabled={testing !== null}
+                    className="px-2 py-1 text-[10px] rounded border border-zinc-200 dark:border-zinc-700 hover:bg-zinc-50 dark:hover:bg-zinc-800 disabled:opacity-50"
+                  >
+                    Test
+                  </button>
+                  {!isActive && (
+                    <button
+                      onClick={() => setActiveProfile(profile.id)}
+                      className="px-2 py-1 text-[10px] rounded bg-blue-600 hover:bg-blue-700 text-white"
+                    >
+                      Use
+                    </button>
+                  )}
+                  {profile.id !== DEFAULT_PROFILE_ID && (
+                    <button
+                      onClick={() => removeProfile(profile.id)}
+                      title="Remove server"
+                      className="p-1 rounded text-zinc-500 hover:text-red-600 hover:bg-zinc-100 dark:hover:bg-zinc-800"
+                    >
+                      <TrashIcon className="size-3.5" />
+                    </button>
+                  )}
+                </div>
+              </div>
+              <div className="mt-1">{renderResult(profile.baseUrl)}</div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="pt-2 border-t border-zinc-200 dark:border-zinc-800 space-y-2">
+        <label className="text-xs font-medium text-zinc-700 dark:text-zinc-300 block">Add server</label>
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Name (e.g. Synology)"
+          className="w-full p-2 rounded-md border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-xs text-zinc-900 dark:text-zinc-100 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+        <input
+          type="url"
+          value={baseUrl}
+          onChange={(e) => setBaseUrl(e.target.value)}
+          placeholder="http://nas.local:9161"
+          className="w-full p-2 rounded-md border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-xs text-zinc-900 dark:text-zinc-100 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+        <div className="flex items-center justify-between gap-2">
+          <div>{baseUrl.trim() && renderResult(baseUrl.trim())}</div>
+          <div className="flex gap-2">
+            <button
+              onClick={() => test(baseUrl.trim())}
+              disabled={!baseUrl.trim() || testing !== null}
+              className="px-3 py-1.5 text-xs rounded-md border border-zinc-200 dark:border-zinc-700 hover:bg-zinc-50 dark:hover:bg-zinc-800 disabled:opacity-50"
+            >
+              Test
+            </button>
+            <button
+              onClick={handleAdd}
+              disabled={!baseUrl.trim()}
+              className="px-3 py-1.5 text-xs rounded-md bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50"
+            >
+              Add
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
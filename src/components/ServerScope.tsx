@@ -0,0 +1,14 @@
+import type { ReactNode } from 'react';
+import { QueryProvider, getQueryClient } from '../lib/hooks';
+import { useServerProfileStore } from '../lib/serverProfiles';
+
+// Switching server profiles swaps the query cache and remounts the app, so
+// selections and other component state never carry over between backends.
+export default function ServerScope({ children }: { children: ReactNode }) {
+  const activeId = useServerProfileStore((s) => s.activeId);
+  return (
+    <QueryProvider key={activeId} client={getQueryClient(activeId)}>
+      {children}
+    </QueryProvider>
+  );
+}
@@ -5,7 +5,10 @@ import { useUIStore, type DefaultScreen, type FontFamily, type FontSize } from '
 import { useMutation, useQueryClient, useQuery } from '@tanstack/react-query';
 import { api } from '../lib/api';
 import ConfirmDialog from './ConfirmDialog';
+import ServerProfilesPanel from './ServerProfilesPanel';
 import { useStats } from '../lib/hooks';
+import { profileKey } from '../lib/serverProfiles';
+import { usePermission } from '../lib/permissions';
 
 // Helper function to get smart merge description
 function getSmartMergeDescription(level: number): { name: string; description: string; threshold: string } {
@@ -87,11 +90,14 @@ export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
   const setAlbumTagFontColor = useUIStore((s) => s.setAlbumTagFontColor);
   const albumTagBackgroundColor = useUIStore((s) => s.albumTagBackgroundColor);
   const setAlbumTagBackgroundColor = useUIStore((s) => s.setAlbumTagBackgroundColor);
-  const [activeTab, setActiveTab] = useState<'general' | 'tags' | 'fonts' | 'organization' | 'about'>('general');
+  const [activeTab, setActiveTab] = useState<'general' | 'servers' | 'tags' | 'fonts' | 'organization' | 'about'>('general');
   const [clearDialogOpen, setClearDialogOpen] = useState(false);
   const [clearSuccess, setClearSuccess] = useState(false);
   const [clearError, setClearError] = useState<string | null>(null);
   const [resetSuccess, setResetSuccess] = useState(false);
+  const canEdit = usePermission('edit');
+  const canManage = usePermission('manage');
+  const canDeleteOriginals = usePermission('deleteOriginals');
   const queryClient = useQueryClient();
   const { data: stats } = useStats();
   // Only fetch health when modal is open (shares query with Footer)
@@ -113,8 +119,8 @@ export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
       queryClient.invalidateQueries({ queryKey: ['performance'] });
       // Clear persisted dashboard values from localStorage
       try {
-        localStorage.removeItem('nazr_last_scan');
-        localStorage.removeItem('nazr_last_processing');
+        localStorage.removeItem(profileKey('nazr_last_scan'));
+        localStorage.removeItem(profileKey('nazr_last_processing'));
       } catch (e) {
         // Ignore localStorage errors
       }
@@ -247,6 +253,16 @@ export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
                       >
                         General
                       </button>
+                      <button
+                        onClick={() => setActiveTab('servers')}
+                        className={`px-4 py-2 text-sm font-medium transition-colors ${
+                          activeTab === 'servers'
+                            ? 'text-blue-600 dark:text-blue-400 border-b-2 border-blue-600 dark:border-blue-400'
+                            : 'text-zinc-600 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-200'
+                        }`}
+                      >
+                        Servers
+                      </button>
                       <button
                         onClick={() => setActiveTab('tags')}
                         className={`px-4 py-2 text-sm font-medium transition-colors ${
@@ -338,6 +354,7 @@ export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
                             </div>
 
                             {/* Reset Dashboard Stats */}
+                            {canManage && (
                             <div>
                               <label className="text-xs font-medium text-zinc-700 dark:text-zinc-300 mb-1 block">
                                 Dashboard Statistics
@@ -369,11 +386,13 @@ export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
                                 Reset performance statistics (files discovered, files catalogued, rates, etc.) on the dashboard. This does not delete any data from the database.
                               </p>
                             </div>
+                            )}
                           </div>
 
                           {/* Column 2 */}
                           <div className="space-y-4">
                             {/* Delete Confirmation Toggle */}
+                            {canEdit && (
                             <div>
                               <label className="text-xs font-medium text-zinc-700 dark:text-zinc-300 mb-1 block">
                                 Delete Confirmation
@@ -396,8 +415,10 @@ export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
                                 When disabled, items will be deleted immediately without confirmation.
                               </p>
                             </div>
+                            )}
 
                             {/* Delete Originals Toggle */}
+                            {canDeleteOriginals && (
                             <div>
                               <label className="text-xs font-medium text-zinc-700 dark:text-zinc-300 mb-1 block">
                                 Delete Original Files
@@ -420,8 +441,10 @@ export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
                                 Default behavior keeps the original file on disk. Enable this to also delete the source file and generated previews.
                               </p>
                             </div>
+                            )}
 
                             {/* Clear Data */}
+                            {canManage && (
                             <div>
                               <label className="text-xs font-medium text-zinc-700 dark:text-zinc-300 mb-1 block">
                                 Data Management
@@ -469,10 +492,13 @@ export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
                                 Permanently delete all assets, faces, and persons from the database.
                               </p>
                             </div>
+                            )}
                           </div>
                         </div>
                       )}
 
+                      {activeTab === 'servers' && <ServerProfilesPanel />}
+
                       {activeTab === 'tags' && (
                         <>
                           {/* Show Album Tags Toggle */}
@@ -482,7 +508,7 @@ export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
                             </label>
                             <div className="flex items-center justify-between p-3 rounded-md border border-zinc-200 dark:border-zinc-700">
                               <span className="text-sm text-zinc-900 dark:text-zinc-100">
-                                Display album names on photos in the gallery view
+                                Display album names and tags on photos in the gallery view
                               </span>
                               <label className="relative inline-flex items-center cursor-pointer">
                                 <input
@@ -495,7 +521,7 @@ export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
                               </label>
                             </div>
                             <p className="mt-2 text-xs text-zinc-500 dark:text-zinc-400">
-                              When enabled, photos in the gallery will show small tags with album names in the top right corner. Tags are stacked when photos are in multiple albums.
+                              When enabled, photos in the gallery will show small labels with their album names and #tags in the top right corner. Labels are stacked when photos are in multiple albums or have several tags.
                             </p>
                           </div>
 
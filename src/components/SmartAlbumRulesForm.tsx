@@ -0,0 +1,129 @@
+import { useQuery } from '@tanstack/react-query';
+import { api } from '../lib/api';
+import type { SmartAlbumRules } from '../lib/smartAlbums';
+
+interface SmartAlbumRulesFormProps {
+  value: SmartAlbumRules;
+  onChange: (rules: SmartAlbumRules) => void;
+}
+
+const MB = 1024 * 1024;
+
+const KIND_OPTIONS = [
+  { value: '', label: 'Photos and videos' },
+  { value: 'image/', label: 'Photos' },
+  { value: 'video/', label: 'Videos' },
+];
+
+const PLATFORM_OPTIONS = [
+  { value: '', label: 'Any platform' },
+  { value: 'whatsapp', label: 'WhatsApp' },
+  { value: 'pxl', label: 'Google Pixel' },
+];
+
+const inputClass =
+  'w-full px-2 py-1.5 rounded border border-zinc-300 dark:border-zinc-700 bg-transparent text-sm';
+const labelClass = 'text-xs font-medium text-zinc-600 dark:text-zinc-400 mb-1 block';
+
+export default function SmartAlbumRulesForm({ value, onChange }: SmartAlbumRulesFormProps) {
+  const { data: persons = [] } = useQuery({
+    queryKey: ['persons'],
+    queryFn: () => api.listPersons(),
+  });
+  const names = persons.flatMap((p) => (p.name ? [p.name] : [])).sort((a, b) => a.localeCompare(b));
+  const set = (changes: Partial<SmartAlbumRules>) => onChange({ ...value, ...changes });
+  const megabytes = (bytes: number | undefined) => (bytes ? String(bytes / MB) : '');
+  const bytes = (mb: string) => (mb && Number(mb) > 0 ? Math.round(Number(mb) * MB) : undefined);
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+      <div>
+        <label className={labelClass}>Taken from</label>
+        <input type="date" value={value.from ?? ''} onChange={(e) => set({ from: e.target.value || undefined })} className={inputClass} />
+      </div>
+      <div>
+        <label className={labelClass}>Taken until</label>
+        <input type="date" value={value.to ?? ''} onChange={(e) => set({ to: e.target.value || undefined })} className={inputClass} />
+      </div>
+      <div>
+        <label className={labelClass}>Camera make</label>
+        <input
+          value={value.camera_make ?? ''}
+          onChange={(e) => set({ camera_make: e.target.value || undefined })}
+          placeholder="e.g. Canon"
+          className={inputClass}
+        />
+      </div>
+      <div>
+        <label className={labelClass}>Camera model</label>
+        <input
+          value={value.camera_model ?? ''}
+          onChange={(e) => set({ camera_model: e.target.value || undefined })}
+          className={inputClass}
+        />
+      </div>
+      <div>
+        <label className={labelClass}>Person</label>
+        <select value={value.person ?? ''} onChange={(e) => set({ person: e.target.value || undefined })} className={inputClass}>
+          <option value="">Anyone</option>
+          {names.map((name) => (
+            <option key={name} value={name}>{name}</option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <label className={labelClass}>Folder starts with</label>
+        <input
+          value={value.folder ?? ''}
+          onChange={(e) => set({ folder: e.target.value || undefined })}
+          placeholder="/photos/2021"
+          className={inputClass}
+        />
+      </div>
+      <div>
+        <label className={labelClass}>File type</label>
+        <select
+          value={value.fileTypes?.[0] ?? ''}
+          onChange={(e) => set({ fileTypes: e.target.value ? [e.target.value] : undefined })}
+          className={inputClass}
+        >
+          {KIND_OPTIONS.map((o) => (
+            <option key={o.value} value={o.value}>{o.label}</option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <label className={labelClass}>Platform</label>
+        <select
+          value={value.platformType ?? ''}
+          onChange={(e) => set({ platformType: e.target.value || undefined })}
+          className={inputClass}
+        >
+          {PLATFORM_OPTIONS.map((o) => (
+            <option key={o.value} value={o.value}>{o.label}</option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <label className={labelClass}>Min size (MB)</label>
+        <input
+          type="number"
+          min="0"
+          value={megabytes(value.minSize)}
+          onChange={(e) => set({ minSize: bytes(e.target.value) })}
+          className={inputClass}
+        />
+      </div>
+      <div>
+        <label className={labelClass}>Max size (MB)</label>
+        <input
+          type="number"
+          min="0"
+          value={megabytes(value.maxSize)}
+          onChange={(e) => set({ maxSize: bytes(e.target.value) })}
+          className={inputClass}
+        />
+      </div>
+    </div>
+  );
+}
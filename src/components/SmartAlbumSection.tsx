@@ -0,0 +1,148 @@
+import { useEffect, useMemo, useState } from 'react';
+import { ChevronDownIcon, ChevronRightIcon, PencilIcon, TrashIcon, SparklesIcon, ArchiveBoxArrowDownIcon } from '@heroicons/react/24/outline';
+import GalleryGrid from './GalleryGrid';
+import { useSearchInfinite } from '../lib/hooks';
+import { useLibraryVersion, useSmartAlbumTotal, type SmartAlbum } from '../lib/smartAlbums';
+import { formatSearchQuery } from '../lib/searchQuery';
+import { applyClientSideFilters, clientSideFilters } from '../lib/searchFilters';
+
+interface SmartAlbumSectionProps {
+  album: SmartAlbum;
+  isExpanded: boolean;
+  onToggle: (event: React.MouseEvent) => void;
+  onEdit?: () => void;
+  onDelete?: () => void;
+  onConvert?: () => Promise<void>;
+  headingClassName: string;
+  headingStyle: React.CSSProperties;
+}
+
+function SmartAlbumContents({ album }: { album: SmartAlbum }) {
+  const rq = useSearchInfinite({ ...album.rules, q: '' });
+  const libraryVersion = useLibraryVersion();
+  const { refetch } = rq;
+
+  // Pick up assets added or removed by scans while the album is open
+  useEffect(() => {
+    if (libraryVersion !== undefined) refetch();
+  }, [libraryVersion, refetch]);
+
+  // Rules an older backend ignored are applied here, like on the Search page
+  const { data } = rq;
+  const assets = useMemo(() => {
+    const items = data?.pages.flatMap((p) => p.items) ?? [];
+    return applyClientSideFilters(items, clientSideFilters(album.rules, data?.pages[0]));
+  }, [data, album.rules]);
+  if (data && assets.length === 0 && !rq.hasNextPage) {
+    return (
+      <div className="text-center py-12 text-sm text-zinc-500">
+        No assets match these rules yet. They will show up here as scans add them.
+      </div>
+    );
+  }
+  return (
+    <GalleryGrid
+      assets={assets}
+      onLoadMore={() => rq.hasNextPage && rq.fetchNextPage()}
+      hasMore={!!rq.hasNextPage}
+      isLoading={!rq.data}
+      mobileColumns={2}
+    />
+  );
+}
+
+// Card and expanded contents of a smart album in the Albums grid
+export default function SmartAlbumSection({
+  album,
+  isExpanded,
+  onToggle,
+  onEdit,
+  onDelete,
+  onConvert,
+  headingClassName,
+  headingStyle,
+}: SmartAlbumSectionProps) {
+  const { data: total } = useSmartAlbumTotal(album);
+  const [isConverting, setIsConverting] = useState(false);
+
+  const handleConvert = async () => {
+    if (!onConvert) return;
+    setIsConverting(true);
+    try {
+      await onConvert();
+    } finally {
+      setIsConverting(false);
+    }
+  };
+
+  return (
+    <>
+      <div className="space-y-2">
+        <div
+          onClick={onToggle}
+          className="flex flex-col gap-2 cursor-pointer hover:bg-zinc-100 dark:hover:bg-zinc-800 rounded-lg p-3 border border-violet-200 dark:border-violet-900 transition-colors"
+        >
+          <div className="flex items-center gap-2 min-w-0">
+            {isExpanded ? (
+              <ChevronDownIcon className="w-4 h-4 sm:w-5 sm:h-5 text-zinc-600 dark:text-zinc-400 flex-shrink-0" />
+            ) : (
+              <ChevronRightIcon className="w-4 h-4 sm:w-5 sm:h-5 text-zinc-600 dark:text-zinc-400 flex-shrink-0" />
+            )}
+            <SparklesIcon className="w-5 h-5 sm:w-6 sm:h-6 text-violet-500 dark:text-violet-400 flex-shrink-0" />
+            <h2 className={`${headingClassName} font-semibold text-zinc-900 dark:text-zinc-100 flex-1 min-w-0 truncate`} style={headingStyle}>
+              {album.name}
+            </h2>
+          </div>
+          <p className="text-xs text-zinc-500 dark:text-zinc-400 truncate" title={formatSearchQuery('', album.rules)}>
+            <span className="mr-1.5 px-1.5 py-0.5 rounded-full bg-violet-100 dark:bg-violet-900/40 text-violet-700 dark:text-violet-300">
+              Smart
+            </span>
+            {album.description || formatSearchQuery('', album.rules)}
+          </p>
+          <div className="flex items-center justify-between">
+            <span className="text-xs sm:text-sm text-zinc-500 dark:text-zinc-400">
+              {total === undefined ? '…' : `${total} ${total === 1 ? 'item' : 'items'}`}
+            </span>
+            {(onEdit || onDelete || onConvert) && (
+              <div className="flex gap-1" onClick={(e) => e.stopPropagation()}>
+                {onConvert && (
+                  <button
+                    onClick={handleConvert}
+                    disabled={isConverting}
+                    className="p-1 rounded hover:bg-zinc-200 dark:hover:bg-zinc-700 transition-colors disabled:opacity-50"
+                    title="Convert to static album"
+                  >
+                    <ArchiveBoxArrowDownIcon className={`w-4 h-4 ${isConverting ? 'animate-pulse' : ''}`} />
+                  </button>
+                )}
+                {onEdit && (
+                  <button
+                    onClick={onEdit}
+                    className="p-1 rounded hover:bg-zinc-200 dark:hover:bg-zinc-700 transition-colors"
+                    title="Edit rules"
+                  >
+                    <PencilIcon className="w-4 h-4" />
+                  </button>
+                )}
+                {onDelete && (
+                  <button
+                    onClick={onDelete}
+                    className="p-1 rounded hover:bg-red-100 dark:hover:bg-red-900/30 transition-colors text-red-600 dark:text-red-400"
+                    title="Delete"
+                  >
+                    <TrashIcon className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+      {isExpanded && (
+        <div className="col-span-full mt-2" style={{ gridColumn: '1 / -1' }} tabIndex={-1}>
+          <SmartAlbumContents album={album} />
+        </div>
+      )}
+    </>
+  );
+}
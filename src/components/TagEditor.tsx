@@ -0,0 +1,145 @@
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import { useTagList } from '../lib/tags';
+import { normalizeTag, parseTagInput } from '../lib/tagNames';
+
+const MAX_SUGGESTIONS = 8;
+
+interface TagEditorProps {
+  tags: string[];
+  // Tags every target already has, left out of suggestions and additions.
+  // Defaults to `tags`; bulk editors pass the tags common to the selection.
+  commonTags?: string[];
+  // Without handlers the tags are read-only
+  onAdd?: (tags: string[]) => void;
+  onRemove?: (tag: string) => void;
+  placeholder?: string;
+  // Opens suggestions above the input, for editors near the bottom of the screen
+  dropUp?: boolean;
+  className?: string;
+}
+
+// Tag chips linking to a search, plus an input with autocomplete from the tags in use
+export default function TagEditor({ tags, commonTags = tags, onAdd, onRemove, placeholder = 'Add tags…', dropUp = false, className = '' }: TagEditorProps) {
+  const [input, setInput] = useState('');
+  const [isFocused, setIsFocused] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const { data: tagList } = useTagList(!!onAdd);
+
+  // Completes the part after the last comma
+  const needle = normalizeTag(input.split(/[,;]/).pop() ?? '');
+  const suggestions = useMemo(() => {
+    if (!needle) return [];
+    return (tagList ?? [])
+      .filter((t) => t.name.includes(needle) && !commonTags.includes(t.name))
+      .sort((a, b) => Number(b.name.startsWith(needle)) - Number(a.name.startsWith(needle)))
+      .slice(0, MAX_SUGGESTIONS);
+  }, [tagList, needle, commonTags]);
+
+  const submit = (value: string) => {
+    const added = parseTagInput(value).filter((tag) => !commonTags.includes(tag));
+    if (added.length > 0) onAdd?.(added);
+    setInput('');
+    setActiveIndex(-1);
+  };
+
+  const pickSuggestion = (name: string) => {
+    const head = input.includes(',') ? input.slice(0, input.lastIndexOf(',') + 1) : '';
+    submit(`${head}${name}`);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      if (activeIndex >= 0 && suggestions[activeIndex]) {
+        pickSuggestion(suggestions[activeIndex].name);
+      } else {
+        submit(input);
+      }
+    } else if (e.key === 'ArrowDown' && suggestions.length > 0) {
+      e.preventDefault();
+      setActiveIndex((i) => (i + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp' && suggestions.length > 0) {
+      e.preventDefault();
+      setActiveIndex((i) => (i <= 0 ? suggestions.length - 1 : i - 1));
+    } else if (e.key === 'Escape') {
+      setInput('');
+      setActiveIndex(-1);
+    }
+  };
+
+  return (
+    <div className={`space-y-2 ${className}`}>
+      {tags.length > 0 ? (
+        <div className="flex flex-wrap gap-1.5">
+          {tags.map((tag) => (
+            <span
+              key={tag}
+              className="inline-flex items-center gap-1 rounded-full bg-zinc-100 dark:bg-zinc-800 text-zinc-700 dark:text-zinc-200 pl-2.5 pr-1.5 py-0.5 text-xs"
+            >
+              <Link to={`/search?tag=${encodeURIComponent(tag)}`} className="hover:underline" title={`Search for "${tag}"`}>
+                {tag}
+              </Link>
+              {onRemove && (
+                <button
+                  onClick={() => onRemove(tag)}
+                  className="p-0.5 rounded-full hover:bg-zinc-200 dark:hover:bg-zinc-700"
+                  aria-label={`Remove tag ${tag}`}
+                >
+                  <XMarkIcon className="w-3 h-3" />
+                </button>
+              )}
+            </span>
+          ))}
+        </div>
+      ) : (
+        !onAdd && <p className="text-xs text-zinc-500">No tags</p>
+      )}
+      {onAdd && (
+        <div className="relative">
+          <input
+            type="text"
+            value={input}
+            onChange={(e) => {
+              setInput(e.target.value);
+              setActiveIndex(-1);
+            }}
+            onKeyDown={handleKeyDown}
+            onFocus={() => setIsFocused(true)}
+            onBlur={() => setIsFocused(false)}
+            placeholder={placeholder}
+            className="w-full px-2 py-1.5 rounded border border-zinc-300 dark:border-zinc-700 bg-white dark:bg-zinc-900 text-zinc-900 dark:text-zinc-100 text-sm"
+            aria-label="Add tags"
+          />
+          {isFocused && suggestions.length > 0 && (
+            <ul
+              role="listbox"
+              className={`absolute left-0 right-0 ${dropUp ? 'bottom-full mb-1' : 'top-full mt-1'} z-50 max-h-60 overflow-y-auto rounded-md border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-900 py-1 text-sm text-zinc-900 dark:text-zinc-100 shadow-lg`}
+            >
+              {suggestions.map((suggestion, i) => (
+                <li
+                  key={suggestion.name}
+                  role="option"
+                  aria-selected={i === activeIndex}
+                  // mousedown keeps focus in the input, which would close the list on blur
+                  onMouseDown={(e) => {
+                    e.preventDefault();
+                    pickSuggestion(suggestion.name);
+                  }}
+                  onMouseEnter={() => setActiveIndex(i)}
+                  className={`flex items-center justify-between gap-2 px-3 py-1.5 cursor-pointer ${
+                    i === activeIndex ? 'bg-blue-50 dark:bg-blue-900/40' : ''
+                  }`}
+                >
+                  <span className="truncate">{suggestion.name}</span>
+                  <span className="text-xs text-zinc-500">{suggestion.count.toLocaleString()}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+import { useState } from 'react';
+import { ArrowDownTrayIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import {
+  PART_BYTES,
+  estimateBytes,
+  jobBytes,
+  splitIntoParts,
+  useZipDownloadStore,
+  zipEntries,
+  type ZipLayout,
+} from '../lib/zipDownload';
+
+function formatBytes(bytes: number, decimals = 1) {
+  if (!+bytes) return '0 B';
+  const k = 1024;
+  const sizes = ['B', 'KB', 'MB', 'GB', 'TB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return `${parseFloat((bytes / Math.pow(k, i)).toFixed(decimals))} ${sizes[i]}`;
+}
+
+const buttonClass =
+  'px-3 py-1.5 rounded-md border border-zinc-300 dark:border-zinc-700 hover:bg-zinc-50 dark:hover:bg-zinc-800 text-sm transition-colors';
+const primaryButtonClass = 'px-3 py-1.5 rounded-md bg-blue-600 hover:bg-blue-700 text-white text-sm transition-colors';
+
+// Confirmation, progress and resume controls for ZIP downloads of selections
+export default function ZipDownloadPanel() {
+  const { pending, job, progress, error, dismiss, start, resume, cancel, discard } = useZipDownloadStore();
+  const [layout, setLayout] = useState<ZipLayout>('folders');
+
+  if (pending) {
+    const total = estimateBytes(pending);
+    const entries = zipEntries(pending, layout);
+    const parts = splitIntoParts(entries).length;
+    const oversized = entries.filter((entry) => entry.size > PART_BYTES).length;
+    return (
+      <Panel title="Download as ZIP" onClose={dismiss}>
+        <p className="text-sm text-zinc-600 dark:text-zinc-400">
+          {pending.length} {pending.length === 1 ? 'file' : 'files'}, about {formatBytes(total)}
+          {parts > 1 && `, saved as ${parts} ZIP files of up to ${formatBytes(PART_BYTES, 0)}`}.
+        </p>
+        {parts > 1 && (
+          <p className="text-sm text-zinc-600 dark:text-zinc-400">
+            Each part is packed in memory and saved separately, one after another, so allow this site to save several
+            files.
+          </p>
+        )}
+        {oversized > 0 && (
+          <p className="text-sm text-amber-600 dark:text-amber-400">
+            {oversized === 1 ? 'One file is' : `${oversized} files are`} larger than {formatBytes(PART_BYTES, 0)} and
+            get a ZIP file of their own; a file larger than the memory available to the browser cannot be packed.
+          </p>
+        )}
+        <div className="space-y-1 text-sm">
+          <label className="flex items-center gap-2">
+            <input type="radio" checked={layout === 'folders'} onChange={() => setLayout('folders')} />
+            Keep folder structure
+          </label>
+          <label className="flex items-center gap-2">
+            <input type="radio" checked={layout === 'flat'} onChange={() => setLayout('flat')} />
+            All files in one folder
+          </label>
+        </div>
+        {job && job.partsDone < job.parts.length && (
+          <p className="text-xs text-amber-600 dark:text-amber-400">This replaces the unfinished download.</p>
+        )}
+        <div className="flex justify-end gap-2">
+          <button onClick={dismiss} className={buttonClass}>Cancel</button>
+          <button onClick={() => start(layout)} className={primaryButtonClass}>Download</button>
+        </div>
+      </Panel>
+    );
+  }
+
+  if (!job) return null;
+
+  const total = jobBytes(job);
+  const isDone = job.partsDone >= job.parts.length;
+  const skippedNote =
+    job.skipped > 0 ? ` ${job.skipped} ${job.skipped === 1 ? 'file' : 'files'} could not be fetched and were left out.` : '';
+
+  if (progress) {
+    const percent = total ? Math.min(100, (progress.bytes / total) * 100) : 0;
+    return (
+      <Panel title="Downloading ZIP">
+        <div className="h-2 rounded-full bg-zinc-200 dark:bg-zinc-800 overflow-hidden">
+          <div className="h-full bg-blue-600 transition-all" style={{ width: `${percent}%` }} />
+        </div>
+        <p className="text-xs text-zinc-500">
+          {formatBytes(progress.bytes)} of {formatBytes(total)}
+          {job.parts.length > 1 && ` · part ${progress.part + 1} of ${job.parts.length}`}
+          {progress.packing && ' · packing…'}
+        </p>
+        <div className="flex justify-end">
+          <button onClick={cancel} className={buttonClass}>Cancel</button>
+        </div>
+      </Panel>
+    );
+  }
+
+  if (isDone) {
+    return (
+      <Panel title="Download complete" onClose={discard}>
+        <p className="text-sm text-zinc-600 dark:text-zinc-400">
+          Saved {job.parts.length === 1 ? 'the ZIP file' : `${job.parts.length} ZIP files`} ({formatBytes(total)}).{skippedNote}
+        </p>
+      </Panel>
+    );
+  }
+
+  return (
+    <Panel title="Download paused" onClose={discard}>
+      <p className="text-sm text-zinc-600 dark:text-zinc-400">
+        {job.partsDone > 0
+          ? `${job.partsDone} of ${job.parts.length} ZIP files saved. Resume to continue with the next one.`
+          : 'Nothing has been saved yet.'}
+        {skippedNote}
+      </p>
+      {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+      <div className="flex justify-end gap-2">
+        <button onClick={discard} className={buttonClass}>Discard</button>
+        <button onClick={resume} className={primaryButtonClass}>Resume</button>
+      </div>
+    </Panel>
+  );
+}
+
+function Panel({ title, onClose, children }: { title: string; onClose?: () => void; children: React.ReactNode }) {
+  return (
+    <div className="fixed bottom-20 right-2 sm:right-4 z-50 w-80 max-w-[calc(100vw-1rem)] bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded-lg shadow-lg p-4 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="text-sm font-semibold flex items-center gap-2">
+          <ArrowDownTrayIcon className="w-4 h-4" />
+          {title}
+        </h2>
+        {onClose && (
+          <button onClick={onClose} className="p-1 rounded hover:bg-zinc-100 dark:hover:bg-zinc-800" aria-label="Close">
+            <XMarkIcon className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+      {children}
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+import { api, assetApi } from './api';
+import { addAssetsToAlbum, createAlbum, type Album } from './albums';
+import { isNotFoundError } from './errors';
+import { arrayOf, enumOf, num, objectOf, optional, str, validate, formatIssue } from './validation';
+import type { AssetIdentity } from '../types';
+
+// Album definitions as portable JSON, for backups and moving albums between
+// servers. Assets are identified by path and sha256 because numeric ids are
+// local to each server's index.
+
+export interface ManifestAlbum {
+  name: string;
+  description?: string;
+  created_at: string; // ISO 8601
+  updated_at: string;
+  assets: AssetIdentity[];
+}
+
+export interface AlbumManifest {
+  format: 'nazr-albums';
+  version: 1;
+  exported_at: string;
+  albums: ManifestAlbum[];
+}
+
+export interface ManifestImportReport {
+  created: Album[];
+  matched: number;
+  unmatched: Array<{ album: string; asset: AssetIdentity }>;
+}
+
+const manifestSchema = objectOf({
+  format: enumOf('nazr-albums'),
+  version: num,
+  exported_at: str,
+  albums: arrayOf(
+    objectOf({
+      name: str,
+      description: optional(str),
+      created_at: str,
+      updated_at: str,
+      assets: arrayOf(objectOf({ path: str, sha256: optional(str) })),
+    })
+  ),
+});
+
+// Requests kept in flight while looking up asset identities
+const LOOKUP_CONCURRENCY = 8;
+// Page size when scanning the whole library on backends without `/assets/resolve`
+const SCAN_PAGE_SIZE = 500;
+
+export async function buildAlbumManifest(albums: Album[]): Promise<AlbumManifest> {
+  const ids = [...new Set(albums.flatMap((a) => a.assetIds))];
+  const identities = new Map<number, AssetIdentity>();
+  for (let i = 0; i < ids.length; i += LOOKUP_CONCURRENCY) {
+    await Promise.all(
+      ids.slice(i, i + LOOKUP_CONCURRENCY).map(async (id) => {
+        try {
+          const asset = await assetApi.get(id);
+          identities.set(id, asset.sha256 ? { path: asset.path, sha256: asset.sha256 } : { path: asset.path });
+        } catch (error) {
+          // Assets removed from the index since they were added are left out
+          if (!isNotFoundError(error)) throw error;
+        }
+      })
+    );
+  }
+
+  return {
+    format: 'nazr-albums',
+    version: 1,
+    exported_at: new Date().toISOString(),
+    albums: albums.map((album) => ({
+      name: album.name,
+      ...(album.description ? { description: album.description } : {}),
+      created_at: new Date(album.createdAt).toISOString(),
+      updated_at: new Date(album.updatedAt).toISOString(),
+      assets: album.assetIds.flatMap((id) => {
+        const identity = identities.get(id);
+        return identity ? [identity] : [];
+      }),
+    })),
+  };
+}
+
+export function manifestFilename(albums: Album[]): string {
+  const date = new Date().toISOString().slice(0, 10);
+  const name = albums.length === 1 ? albums[0].name.replace(/[\\/:*?"<>|]+/g, '_') : 'albums';
+  return `${name}-${date}.json`;
+}
+
+export function parseAlbumManifest(text: string): AlbumManifest {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  const issues = validate(manifestSchema, data);
+  if (issues.length > 0) {
+    throw new Error(`Not an album manifest (${formatIssue(issues[0])}).`);
+  }
+  const manifest = data as AlbumManifest;
+  if (manifest.version !== 1) {
+    throw new Error(`Unsupported album manifest version ${manifest.version}.`);
+  }
+  return manifest;
+}
+
+// Match identities against the whole library when the server cannot do it
+async function resolveByScanning(items: AssetIdentity[]): Promise<Array<number | null>> {
+  const byHash = new Map<string, number>();
+  const byPath = new Map<string, number>();
+  for (let offset = 0; ; offset += SCAN_PAGE_SIZE) {
+    const page = await api.assets({ offset, limit: SCAN_PAGE_SIZE });
+    for (const asset of page.items) {
+      if (asset.sha256) byHash.set(asset.sha256, asset.id);
+      byPath.set(asset.path, asset.id);
+    }
+    if (page.items.length < SCAN_PAGE_SIZE || offset + page.items.length >= page.total) break;
+  }
+  return items.map((item) => (item.sha256 ? byHash.get(item.sha256) : undefined) ?? byPath.get(item.path) ?? null);
+}
+
+// Creates every album of the manifest on the current server. Matching is by
+// hash first so renamed or moved files are found, then by path.
+export async function importAlbumManifest(manifest: AlbumManifest): Promise<ManifestImportReport> {
+  const identities = manifest.albums.flatMap((a) => a.assets);
+  const ids = identities.length > 0 ? ((await api.resolveAssets(identities)) ?? (await resolveByScanning(identities))) : [];
+
+  const report: ManifestImportReport = { created: [], matched: 0, unmatched: [] };
+  let cursor = 0;
+  for (const entry of manifest.albums) {
+    const albumIds: number[] = [];
+    for (const asset of entry.assets) {
+      const id = ids[cursor++];
+      if (id === null || id === undefined) {
+        report.unmatched.push({ album: entry.name, asset });
+      } else if (!albumIds.includes(id)) {
+        albumIds.push(id);
+      }
+    }
+    const album = await createAlbum(entry.name, entry.description);
+    const filled = albumIds.length > 0 ? await addAssetsToAlbum(album.id, albumIds) : album;
+    report.created.push(filled ?? album);
+    report.matched += albumIds.length;
+  }
+  return report;
+}
@@ -1,5 +1,6 @@
-import type { Asset } from '../types';
+import type { AlbumSort, Asset, BackendAlbum, BackendAlbumFolder } from '../types';
 import { assetApi } from './api';
+import { isNotFoundError } from './errors';
 
 export interface Album {
   id: string;
@@ -8,17 +9,25 @@ export interface Album {
   assetIds: number[];
   createdAt: number;
   updatedAt: number;
+  folderId: string | null;
+  coverAssetId: number | null;
+  sort: AlbumSort;
 }
 
-// Helper to convert backend album (numeric ID) to frontend album (string ID)
-function backendToFrontendAlbum(backend: {
-  id: number;
+export const ALBUM_SORT_LABELS: Record<AlbumSort, string> = {
+  manual: 'Manual',
+  taken: 'Date taken',
+  filename: 'Filename',
+};
+
+export interface AlbumFolder {
+  id: string;
   name: string;
-  description?: string;
-  asset_ids: number[];
-  created_at: number;
-  updated_at: number;
-}): Album {
+  parentId: string | null;
+}
+
+// Helper to convert backend album (numeric ID) to frontend album (string ID)
+function backendToFrontendAlbum(backend: BackendAlbum): Album {
   return {
     id: String(backend.id),
     name: backend.name,
@@ -26,9 +35,24 @@ function backendToFrontendAlbum(backend: {
     assetIds: backend.asset_ids,
     createdAt: backend.created_at * 1000, // Convert seconds to milliseconds
     updatedAt: backend.updated_at * 1000,
+    folderId: backend.folder_id != null ? String(backend.folder_id) : null,
+    coverAssetId: backend.cover_asset_id ?? null,
+    sort: backend.sort ?? 'manual',
+  };
+}
+
+function backendToFrontendFolder(backend: BackendAlbumFolder): AlbumFolder {
+  return {
+    id: String(backend.id),
+    name: backend.name,
+    parentId: backend.parent_id !== null ? String(backend.parent_id) : null,
   };
 }
 
+function parseFolderId(id: string | null): number | null {
+  return id === null ? null : parseInt(id, 10);
+}
+
 export async function getAlbums(): Promise<Album[]> {
   try {
     const backendAlbums = await assetApi.listAlbums();
@@ -60,8 +84,7 @@ export async function updateAlbum(id: string, updates: Partial<Pick<Album, 'name
     return backendToFrontendAlbum(backendAlbum);
   } catch (error) {
     console.error('Failed to update album:', error);
-    // Check if it's a 404 (album not found)
-    if (error instanceof Error && error.message.includes('404')) {
+    if (isNotFoundError(error)) {
       return null;
     }
     throw error;
@@ -79,8 +102,7 @@ export async function deleteAlbum(id: string): Promise<boolean> {
     return true;
   } catch (error) {
     console.error('Failed to delete album:', error);
-    // Check if it's a 404 (album not found)
-    if (error instanceof Error && error.message.includes('404')) {
+    if (isNotFoundError(error)) {
       return false;
     }
     throw error;
@@ -98,8 +120,7 @@ export async function addAssetsToAlbum(albumId: string, assetIds: number[]): Pro
     return backendToFrontendAlbum(backendAlbum);
   } catch (error) {
     console.error('Failed to add assets to album:', error);
-    // Check if it's a 404 (album not found)
-    if (error instanceof Error && error.message.includes('404')) {
+    if (isNotFoundError(error)) {
       return null;
     }
     throw error;
@@ -117,8 +138,7 @@ export async function removeAssetsFromAlbum(albumId: string, assetIds: number[])
     return backendToFrontendAlbum(backendAlbum);
   } catch (error) {
     console.error('Failed to remove assets from album:', error);
-    // Check if it's a 404 (album not found)
-    if (error instanceof Error && error.message.includes('404')) {
+    if (isNotFoundError(error)) {
       return null;
     }
     throw error;
@@ -136,8 +156,7 @@ export async function getAlbum(id: string): Promise<Album | null> {
     return backendToFrontendAlbum(backendAlbum);
   } catch (error) {
     console.error('Failed to get album:', error);
-    // Check if it's a 404 (album not found)
-    if (error instanceof Error && error.message.includes('404')) {
+    if (isNotFoundError(error)) {
       return null;
     }
     throw error;
@@ -157,3 +176,121 @@ export async function getAlbumsForAsset(assetId: number): Promise<Album[]> {
   }
 }
 
+export async function setAlbumCover(albumId: string, assetId: number | null): Promise<Album> {
+  const album = await assetApi.updateAlbumDisplay(parseInt(albumId, 10), { cover_asset_id: assetId });
+  return backendToFrontendAlbum(album);
+}
+
+export async function setAlbumSort(albumId: string, sort: AlbumSort): Promise<Album> {
+  const album = await assetApi.updateAlbumDisplay(parseInt(albumId, 10), { sort });
+  return backendToFrontendAlbum(album);
+}
+
+export async function reorderAlbumAssets(albumId: string, assetIds: number[]): Promise<Album> {
+  const album = await assetApi.reorderAlbumAssets(parseInt(albumId, 10), assetIds);
+  return backendToFrontendAlbum(album);
+}
+
+// The chosen cover while it is still in the album, else the first asset
+export function albumCoverId(album: Album): number | undefined {
+  if (album.coverAssetId !== null && album.assetIds.includes(album.coverAssetId)) return album.coverAssetId;
+  return album.assetIds[0];
+}
+
+// Assets in the album's default order
+export function sortAlbumAssets(album: Album, assets: Asset[]): Asset[] {
+  switch (album.sort) {
+    case 'taken': {
+      const takenAt = (a: Asset) => a.taken_at ?? a.mtime_ns / 1e9;
+      return [...assets].sort((a, b) => takenAt(a) - takenAt(b));
+    }
+    case 'filename':
+      return [...assets].sort((a, b) => a.filename.localeCompare(b.filename, undefined, { numeric: true }));
+    default: {
+      const position = new Map(album.assetIds.map((id, i) => [id, i]));
+      return [...assets].sort((a, b) => (position.get(a.id) ?? 0) - (position.get(b.id) ?? 0));
+    }
+  }
+}
+
+// Album folders. Resolves to null when the backend has no folder support, in
+// which case albums are shown as one flat list.
+export async function getAlbumFolders(): Promise<AlbumFolder[] | null> {
+  const folders = await assetApi.listAlbumFolders();
+  return folders ? folders.map(backendToFrontendFolder) : null;
+}
+
+export async function createAlbumFolder(name: string, parentId: string | null): Promise<AlbumFolder> {
+  const folder = await assetApi.createAlbumFolder(name, parseFolderId(parentId));
+  return backendToFrontendFolder(folder);
+}
+
+export async function renameAlbumFolder(id: string, name: string): Promise<AlbumFolder> {
+  const folder = await assetApi.updateAlbumFolder(parseInt(id, 10), { name });
+  return backendToFrontendFolder(folder);
+}
+
+export async function moveAlbumFolder(id: string, parentId: string | null): Promise<AlbumFolder> {
+  const folder = await assetApi.updateAlbumFolder(parseInt(id, 10), { parent_id: parseFolderId(parentId) });
+  return backendToFrontendFolder(folder);
+}
+
+export async function deleteAlbumFolder(id: string): Promise<void> {
+  await assetApi.deleteAlbumFolder(parseInt(id, 10));
+}
+
+export async function moveAlbumToFolder(albumId: string, folderId: string | null): Promise<Album> {
+  const album = await assetApi.moveAlbum(parseInt(albumId, 10), parseFolderId(folderId));
+  return backendToFrontendAlbum(album);
+}
+
+// Ids of a folder and every folder below it
+export function folderSubtree(folders: AlbumFolder[], rootId: string): Set<string> {
+  const ids = new Set([rootId]);
+  let added = true;
+  while (added) {
+    added = false;
+    for (const folder of folders) {
+      if (folder.parentId !== null && ids.has(folder.parentId) && !ids.has(folder.id)) {
+        ids.add(folder.id);
+        added = true;
+      }
+    }
+  }
+  return ids;
+}
+
+// Folders from the top level down to `folderId`, for breadcrumbs
+export function folderPath(folders: AlbumFolder[], folderId: string | null): AlbumFolder[] {
+  const byId = new Map(folders.map((f) => [f.id, f]));
+  const path: AlbumFolder[] = [];
+  let folder = folderId ? byId.get(folderId) : undefined;
+  // The length check stops at a parent cycle instead of looping forever
+  while (folder && path.length <= folders.length) {
+    path.unshift(folder);
+    folder = folder.parentId ? byId.get(folder.parentId) : undefined;
+  }
+  return path;
+}
+
+export interface FolderCounts {
+  albums: number;
+  items: number;
+}
+
+// Albums and items in each folder, including its sub-folders
+export function folderCounts(folders: AlbumFolder[], albums: Album[]): Map<string, FolderCounts> {
+  const counts = new Map<string, FolderCounts>();
+  for (const folder of folders) {
+    const subtree = folderSubtree(folders, folder.id);
+    const contained = albums.filter((a) => a.folderId !== null && subtree.has(a.folderId));
+    counts.set(folder.id, {
+      albums: contained.length,
+      items: contained.reduce((sum, a) => sum + a.assetIds.length, 0),
+    });
+  }
+  return counts;
+}
+
+// What is being dragged while reorganising albums
+export type AlbumDragItem = { type: 'album' | 'folder'; id: string };
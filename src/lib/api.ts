@@ -1,4 +1,4 @@
-import { API_BASE_URL, DEFAULT_PAGE_SIZE } from './config';
+import { DEFAULT_PAGE_SIZE, MOCK_BACKEND } from './config';
 import type {
   Asset,
   Paginated,
@@ -7,66 +7,290 @@ import type {
   Stats,
   FileTypesResponse,
   SearchResult,
+  SearchFilters,
+  SearchFacets,
+  SearchResultFacets,
   DeleteResponse,
   PermanentDeleteResponse,
   BulkPermanentDeleteResponse,
+  DuplicateGroup,
+  AssetFlagChanges,
+  AssetTagChanges,
+  TagCount,
+  Person,
+  BackendAlbum,
+  BackendAlbumFolder,
+  AlbumSort,
+  AssetIdentity,
+  HealthResponse,
+  PersonSummary,
+  LoginResponse,
 } from '../types';
+import {
+  ApiError,
+  InvalidResponseError,
+  MutationQueuedError,
+  NetworkError,
+  ServerError,
+  TimeoutError,
+  UnauthorizedError,
+  apiErrorFromResponse,
+  isClientError,
+  isNotFoundError,
+  parseErrorBody,
+} from './errors';
+import { enqueueMutation, type QueuedMutation } from './offlineQueue';
+import { mockAssetImageUrl, mockFaceImageUrl } from './mockImages';
+import { endpointKey, formatIssue, useSchemaViolationStore, validate, type Schema } from './validation';
+import * as schemas from './schemas';
+import { getApiBaseUrl, normalizeBaseUrl } from './serverProfiles';
+import { getAuthToken, useAuthStore, withAuthToken } from './auth';
+import { assertPermission, type Permission } from './permissions';
 
 function withBase(path: string) {
   if (path.startsWith('http')) return path;
-  return `${API_BASE_URL}${path.startsWith('/') ? '' : '/'}${path}`;
+  return `${getApiBaseUrl()}${path.startsWith('/') ? '' : '/'}${path}`;
 }
 
-async function request<T>(path: string, init?: RequestInit): Promise<T> {
+const REQUEST_TIMEOUT_MS = 30000;
+
+// Wrap fetch so transport failures surface as NetworkError / TimeoutError.
+// Requests to the active backend carry the session token; a 401 from it ends the session,
+// except for sign-in requests (`anonymous`), where it means wrong credentials.
+async function send(
+  url: string,
+  init?: RequestInit,
+  timeoutMs: number = REQUEST_TIMEOUT_MS,
+  anonymous: boolean = false
+): Promise<Response> {
   const controller = init?.signal ? null : new AbortController();
-  const timeoutId = controller ? setTimeout(() => controller.abort(), 30000) : null;
+  const timeoutId = controller ? setTimeout(() => controller.abort(), timeoutMs) : null;
+  const isActiveBackend = url.startsWith(getApiBaseUrl());
+  const headers = new Headers(init?.headers);
+  const token = isActiveBackend ? getAuthToken() : null;
+  if (token && !headers.has('Authorization')) headers.set('Authorization', `Bearer ${token}`);
   try {
-    const res = await fetch(withBase(path), {
-      headers: { 'Content-Type': 'application/json', ...(init?.headers || {}) },
-      ...init,
-      signal: init?.signal || controller?.signal,
-    });
-    if (timeoutId) clearTimeout(timeoutId);
-    if (!res.ok) {
-      const text = await res.text().catch(() => '');
-      throw new Error(`HTTP ${res.status}: ${res.statusText}${text ? `\n${text}` : ''}`);
+    let response: Response;
+    if (MOCK_BACKEND) {
+      const { handleMockRequest } = await import('./mockBackend');
+      response = await handleMockRequest(url, { ...init, headers, signal: init?.signal || controller?.signal });
+    } else {
+      response = await fetch(url, { ...init, headers, signal: init?.signal || controller?.signal });
     }
-    const ct = res.headers.get('content-type') || '';
-    if (ct.includes('application/json')) return (await res.json()) as T;
-    return (await res.blob()) as unknown as T;
+    if (response.status === 401 && isActiveBackend && !anonymous) {
+      useAuthStore.getState().clearSession(true);
+    }
+    return response;
   } catch (error) {
-    if (timeoutId) clearTimeout(timeoutId);
-    if (error instanceof TypeError && error.message === 'Failed to fetch') {
-      const apiUrl = withBase(path);
-      throw new Error(
-        `Cannot connect to API at ${apiUrl}. ` +
-        `Please ensure the backend is running and accessible. ` +
-        `If using Docker, check that the container is running with: docker ps`
-      );
+    // Caller-initiated cancellation is not a transport failure
+    if (init?.signal?.aborted) throw error;
+    if (error instanceof TypeError) {
+      throw new NetworkError(url);
     }
     if (error instanceof Error && (error.name === 'AbortError' || error.message.includes('aborted'))) {
-      throw new Error(`Request to ${withBase(path)} timed out after 30 seconds`);
+      throw new TimeoutError(url, timeoutMs);
+    }
+    throw error;
+  } finally {
+    if (timeoutId) clearTimeout(timeoutId);
+  }
+}
+
+// Read the body of a response as text and parse it as JSON where possible.
+async function readBody(response: Response): Promise<unknown> {
+  const text = await response.text().catch(() => '');
+  return parseErrorBody(text);
+}
+
+// Backoff between attempts for idempotent GETs (three retries, ~3.5s total)
+const GET_RETRY_DELAYS_MS = [500, 1000, 2000];
+
+// Timeouts are not retried here: each attempt already waited REQUEST_TIMEOUT_MS,
+// and queries get one more try from the QueryClient
+function isTransientError(error: unknown): boolean {
+  if (error instanceof NetworkError) return true;
+  return error instanceof ServerError && (error.status === 502 || error.status === 503 || error.status === 504);
+}
+
+function delay(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+}
+
+interface RequestConfig extends RequestInit {
+  // Override the retry count for GETs (mutations are never retried)
+  retries?: number;
+  // Label for mutations that should be queued offline when the backend is unreachable
+  queueAs?: string;
+  // Expected shape of the JSON response
+  schema?: Schema;
+  // Permission the signed-in role needs; the call is refused client-side without it
+  requires?: Permission;
+  // Sign-in request: a 401 is reported to the caller instead of ending the session
+  anonymous?: boolean;
+}
+
+async function requestOnce<T>(url: string, init: RequestInit, schema?: Schema, anonymous?: boolean): Promise<T> {
+  const res = await send(
+    url,
+    { ...init, headers: { 'Content-Type': 'application/json', ...(init.headers || {}) } },
+    REQUEST_TIMEOUT_MS,
+    anonymous
+  );
+  if (!res.ok) {
+    throw apiErrorFromResponse(res, url, await readBody(res));
+  }
+  const ct = res.headers.get('content-type') || '';
+  if (!ct.includes('application/json')) return (await res.blob()) as unknown as T;
+  const data: unknown = await res.json();
+  if (schema) {
+    const issues = validate(schema, data);
+    if (issues.length > 0) {
+      const endpoint = endpointKey((init.method || 'GET').toUpperCase(), url);
+      useSchemaViolationStore.getState().report(endpoint, issues);
+      console.warn(`Non-conforming response from ${endpoint}:`, issues.map(formatIssue));
+      throw new InvalidResponseError(url, endpoint, issues);
     }
+  }
+  return data as T;
+}
+
+async function request<T>(path: string, config: RequestConfig = {}): Promise<T> {
+  const { retries, queueAs, schema, requires, anonymous, ...init } = config;
+  const url = withBase(path);
+  const method = (init.method || 'GET').toUpperCase();
+  if (requires) assertPermission(requires, url);
+
+  if (method !== 'GET') {
+    try {
+      return await requestOnce<T>(url, init, schema, anonymous);
+    } catch (error) {
+      // A proxy in front of a restarting backend answers 502-504 instead of failing to connect
+      if (queueAs && isTransientError(error)) {
+        await enqueueMutation({
+          url: path,
+          method,
+          body: typeof init.body === 'string' ? init.body : undefined,
+          label: queueAs,
+        });
+        throw new MutationQueuedError(url, queueAs);
+      }
+      throw error;
+    }
+  }
+
+  const maxRetries = retries ?? GET_RETRY_DELAYS_MS.length;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await requestOnce<T>(url, init, schema, anonymous);
+    } catch (error) {
+      if (attempt >= maxRetries || !isTransientError(error) || init.signal?.aborted) throw error;
+      await delay(GET_RETRY_DELAYS_MS[Math.min(attempt, GET_RETRY_DELAYS_MS.length - 1)], init.signal);
+    }
+  }
+}
+
+// Replay a mutation recorded by the offline queue against the backend.
+export async function replayMutation(mutation: QueuedMutation): Promise<'done' | 'offline'> {
+  try {
+    await requestOnce(withBase(mutation.url), { method: mutation.method, body: mutation.body });
+    return 'done';
+  } catch (error) {
+    // Only a client error (4xx) rejects the change; keep it queued through outages,
+    // a proxy answering for a backend that is still starting, or until the user signs in again
+    if (error instanceof UnauthorizedError || !isClientError(error)) return 'offline';
     throw error;
   }
 }
 
+// Single-shot health probe used to detect when the backend is back.
+export function checkHealth(): Promise<boolean> {
+  return request('/health', { retries: 0 }).then(() => true, () => false);
+}
+
+// Probe a backend that is not necessarily the active profile, e.g. before saving it.
+export function checkServer(baseUrl: string): Promise<HealthResponse> {
+  return request<HealthResponse>(`${normalizeBaseUrl(baseUrl)}/health`, { retries: 0, schema: schemas.healthSchema });
+}
+
+// Base URLs whose backend predates `/persons/summary`
+const personSummaryUnsupported = new Set<string>();
+// Older backends route `/persons/summary` to `/persons/{id}` and reject `summary` as an id
+const PERSON_SUMMARY_UNSUPPORTED_STATUSES = [400, 405, 422];
+// ... `/assets/facets` and `/assets/search/facets`
+const facetsUnsupported = new Set<string>();
+const resultFacetsUnsupported = new Set<string>();
+// ... `/assets/resolve`
+const resolveUnsupported = new Set<string>();
+// ... `/assets/duplicates`
+const duplicatesUnsupported = new Set<string>();
+// ... `/tags`
+const tagsUnsupported = new Set<string>();
+// ... `/album-folders`
+const albumFoldersUnsupported = new Set<string>();
+
+// Query parameters shared by `/assets/search` and its facets
+function setSearchParams(u: URL, params: SearchFilters & { q: string }) {
+  u.searchParams.set('q', params.q);
+  if (params.from) u.searchParams.set('from', params.from);
+  if (params.to) u.searchParams.set('to', params.to);
+  if (params.camera_make) u.searchParams.set('camera_make', params.camera_make);
+  if (params.camera_model) u.searchParams.set('camera_model', params.camera_model);
+  if (params.platformType) u.searchParams.set('platform_type', params.platformType);
+  if (params.minSize) u.searchParams.set('min_size', String(params.minSize));
+  if (params.maxSize) u.searchParams.set('max_size', String(params.maxSize));
+  if (params.fileTypes?.length) u.searchParams.set('file_types', params.fileTypes.join(','));
+  if (params.lens) u.searchParams.set('lens', params.lens);
+  if (params.ext?.length) u.searchParams.set('ext', params.ext.join(','));
+  if (params.person) u.searchParams.set('person', params.person);
+  if (params.album) u.searchParams.set('album', params.album);
+  if (params.folder) u.searchParams.set('folder', params.folder);
+  if (params.minDuration) u.searchParams.set('min_duration', String(params.minDuration));
+  if (params.maxDuration) u.searchParams.set('max_duration', String(params.maxDuration));
+  if (params.favorite) u.searchParams.set('favorite', '1');
+  if (params.minRating) u.searchParams.set('min_rating', String(params.minRating));
+  if (params.tag) u.searchParams.set('tag', params.tag);
+}
+
 export const api = {
+  // Auth
+  login: (username: string, password: string) =>
+    request<LoginResponse>('/auth/login', {
+      method: 'POST',
+      body: JSON.stringify({ username, password }),
+      schema: schemas.loginSchema,
+      anonymous: true,
+    }),
+  logout: () => request<{ success: boolean }>('/auth/logout', { method: 'POST', schema: schemas.successSchema }),
+
   // Faces (unassigned list)
   unassignedFaces: (offset: number = 0, limit: number = 60) =>
     request<{ faces: Array<{ id: number; asset_id: number; bbox: any; confidence: number }> }>(
-      `/faces/unassigned?offset=${offset}&limit=${limit}`
+      `/faces/unassigned?offset=${offset}&limit=${limit}`,
+      { schema: schemas.unassignedFacesSchema }
     ),
   assignFaceToPerson: (faceId: number, personId: number | null) =>
-    request<{ success: boolean }>(`/faces/${faceId}/assign`, {
-      method: 'POST',
-      body: JSON.stringify({ person_id: personId }),
-    }),
+    request<{ success: boolean }>(
+      `/faces/${faceId}/assign`,
+      {
+        method: 'POST',
+        body: JSON.stringify({ person_id: personId }),
+        queueAs: 'Assign face',
+        requires: 'edit',
+        schema: schemas.successSchema,
+      }
+    ),
 
   // Health and stats
-  health: () => request<{ status: string; version: string; database: string; backend_libraries: string[] }>('/health'),
-  stats: () => request<Stats>('/stats'),
-  fileTypes: () => request<FileTypesResponse>('/file-types'),
+  health: () => request<HealthResponse>('/health', { schema: schemas.healthSchema }),
+  stats: () => request<Stats>('/stats', { schema: schemas.statsSchema }),
+  fileTypes: () => request<FileTypesResponse>('/file-types', { schema: schemas.fileTypesSchema }),
   performance: () =>
     request<{
       nazr: {
@@ -100,7 +324,7 @@ export const api = {
         videos_processed?: number;
       };
       notes: string[];
-    }>('/performance'),
+    }>('/performance', { schema: schemas.performanceSchema }),
 
   // Assets
   assets: (params: {
@@ -119,81 +343,166 @@ export const api = {
     if (person_id !== undefined) {
       u.searchParams.set('person_id', String(person_id));
     }
-    return request<Paginated<Asset>>(u.toString());
+    return request<Paginated<Asset>>(u.toString(), { schema: schemas.paginatedSchema(schemas.assetSchema) });
   },
 
-  search: (params: {
+  search: (params: SearchFilters & {
     q: string;
-    from?: string;
-    to?: string;
-    camera_make?: string;
-    camera_model?: string;
-    platformType?: string;
     offset?: number;
     limit?: number;
   }) => {
     const u = new URL(withBase('/assets/search'));
-    u.searchParams.set('q', params.q);
-    if (params.from) u.searchParams.set('from', params.from);
-    if (params.to) u.searchParams.set('to', params.to);
-    if (params.camera_make) u.searchParams.set('camera_make', params.camera_make);
-    if (params.camera_model) u.searchParams.set('camera_model', params.camera_model);
-    if (params.platformType) u.searchParams.set('platform_type', params.platformType);
+    setSearchParams(u, params);
     u.searchParams.set('offset', String(params.offset ?? 0));
     u.searchParams.set('limit', String(params.limit ?? DEFAULT_PAGE_SIZE));
-    return request<SearchResult>(u.toString());
+    return request<SearchResult>(u.toString(), { schema: schemas.searchResultSchema });
+  },
+
+  // Counts per camera, lens, year, type, platform and person over every match
+  // of a search. Resolves to null on backends without the endpoint.
+  searchResultFacets: async (params: SearchFilters & { q: string }): Promise<SearchResultFacets | null> => {
+    const base = getApiBaseUrl();
+    if (resultFacetsUnsupported.has(base)) return null;
+    const u = new URL(withBase('/assets/search/facets'));
+    setSearchParams(u, params);
+    try {
+      return await request<SearchResultFacets>(u.toString(), { schema: schemas.searchResultFacetsSchema });
+    } catch (error) {
+      if (!isNotFoundError(error)) throw error;
+      resultFacetsUnsupported.add(base);
+      return null;
+    }
+  },
+
+  // Camera, lens and folder values for search suggestions, optionally narrowed
+  // to those containing `prefix`. Backends without facets suggest none.
+  searchFacets: async (prefix: string = '', limit: number = 20): Promise<SearchFacets> => {
+    const empty: SearchFacets = { camera_makes: [], camera_models: [], lenses: [], dirnames: [] };
+    const base = getApiBaseUrl();
+    if (facetsUnsupported.has(base)) return empty;
+    const u = new URL(withBase('/assets/facets'));
+    if (prefix) u.searchParams.set('q', prefix);
+    u.searchParams.set('limit', String(limit));
+    try {
+      return await request<SearchFacets>(u.toString(), { retries: 0, schema: schemas.searchFacetsSchema });
+    } catch (error) {
+      if (!isNotFoundError(error)) throw error;
+      facetsUnsupported.add(base);
+      return empty;
+    }
+  },
+
+  // Asset ids for path/hash identities, matched by hash first; null entries
+  // have no match. Resolves to null when the backend lacks the endpoint.
+  resolveAssets: async (items: AssetIdentity[]): Promise<Array<number | null> | null> => {
+    const base = getApiBaseUrl();
+    if (resolveUnsupported.has(base)) return null;
+    try {
+      const res = await request<{ ids: Array<number | null> }>('/assets/resolve', {
+        method: 'POST',
+        body: JSON.stringify({ items }),
+        retries: 0,
+        schema: schemas.resolveAssetsSchema,
+      });
+      return res.ids;
+    } catch (error) {
+      if (!isNotFoundError(error)) throw error;
+      resolveUnsupported.add(base);
+      return null;
+    }
+  },
+
+  // Groups of identical assets, largest reclaimable size first. Resolves to
+  // null when the backend lacks the endpoint.
+  duplicates: async (offset: number = 0, limit: number = 200): Promise<Paginated<DuplicateGroup> | null> => {
+    const base = getApiBaseUrl();
+    if (duplicatesUnsupported.has(base)) return null;
+    const u = new URL(withBase('/assets/duplicates'));
+    u.searchParams.set('offset', String(offset));
+    u.searchParams.set('limit', String(limit));
+    try {
+      const res = await request<{ total: number; groups: DuplicateGroup[] }>(u.toString(), {
+        retries: 0,
+        schema: schemas.duplicateGroupsSchema,
+      });
+      return { total: res.total, items: res.groups };
+    } catch (error) {
+      if (!isNotFoundError(error)) throw error;
+      duplicatesUnsupported.add(base);
+      return null;
+    }
   },
 
   getScanPaths: () =>
-    request<Array<{ path: string; is_default: boolean; host_path?: string | null }>>('/paths'),
+    request<Array<{ path: string; is_default: boolean; host_path?: string | null }>>('/paths', {
+      schema: schemas.scanPathsSchema,
+    }),
   addScanPath: (path: string) =>
     request<{ success: boolean; message: string }>('/paths', {
       method: 'POST',
       body: JSON.stringify({ path }),
+      requires: 'manage',
+      schema: schemas.successMessageSchema,
     }),
   removeScanPath: (path: string) =>
     request<{ success: boolean; path_removed: boolean; assets_deleted: number; faces_deleted: number; message: string }>(
       `/paths?path=${encodeURIComponent(path)}`,
-      { method: 'DELETE' }
+      { method: 'DELETE', requires: 'manage', schema: schemas.removeScanPathSchema }
     ),
   scanPath: (path: string) =>
     request<{ success: boolean; message: string }>(
       '/paths/scan',
-      { method: 'POST', body: JSON.stringify({ path }) }
+      { method: 'POST', body: JSON.stringify({ path }), requires: 'manage', schema: schemas.successMessageSchema }
     ),
   pausePath: (path: string) =>
     request<{ success: boolean; message: string }>(
       '/paths/pause',
-      { method: 'POST', body: JSON.stringify({ path }) }
+      { method: 'POST', body: JSON.stringify({ path }), requires: 'manage', schema: schemas.successMessageSchema }
     ),
   resumePath: (path: string) =>
     request<{ success: boolean; message: string }>(
       '/paths/resume',
-      { method: 'POST', body: JSON.stringify({ path }) }
+      { method: 'POST', body: JSON.stringify({ path }), requires: 'manage', schema: schemas.successMessageSchema }
     ),
   getPathStatus: (path: string) => {
     const url = `/paths/status?path=${encodeURIComponent(path)}`;
-    return request<{ scanning: boolean; watcher_paused: boolean; watching: boolean }>(url);
+    return request<{ scanning: boolean; watcher_paused: boolean; watching: boolean }>(url, {
+      schema: schemas.pathStatusSchema,
+    });
   },
   browseDirectory: (path?: string) => {
     const url = path ? `/browse?path=${encodeURIComponent(path)}` : '/browse';
-    return request<{ path: string; entries: Array<{ name: string; path: string; is_dir: boolean }> }>(url);
+    return request<{ path: string; entries: Array<{ name: string; path: string; is_dir: boolean }> }>(url, {
+      requires: 'manage',
+      schema: schemas.browseSchema,
+    });
   },
   clearAllData: () =>
     request<{ success: boolean; assets_deleted: number; faces_deleted: number; persons_deleted: number; message: string }>(
       '/clear',
-      { method: 'DELETE' }
+      { method: 'DELETE', requires: 'manage', schema: schemas.clearAllDataSchema }
     ),
   resetStats: () =>
     request<{ success: boolean; message: string }>(
       '/stats/reset',
-      { method: 'POST' }
+      { method: 'POST', requires: 'manage', schema: schemas.successMessageSchema }
     ),
 
   // Face recognition APIs
-  detectFaces: () => request<{ status: string; message: string }>('/faces/detect', { method: 'POST' }),
-  stopFaceDetection: () => request<{ status: string; message: string }>('/faces/stop', { method: 'POST' }),
-  faceDetectionStatus: () => request<{ enabled: boolean; queue_depth: number }>('/faces/status'),
+  detectFaces: () =>
+    request<{ status: string; message: string }>('/faces/detect', {
+      method: 'POST',
+      requires: 'manage',
+      schema: schemas.statusMessageSchema,
+    }),
+  stopFaceDetection: () =>
+    request<{ status: string; message: string }>('/faces/stop', {
+      method: 'POST',
+      requires: 'manage',
+      schema: schemas.statusMessageSchema,
+    }),
+  faceDetectionStatus: () =>
+    request<{ enabled: boolean; queue_depth: number }>('/faces/status', { schema: schemas.faceStatusSchema }),
   faceProgress: () =>
     request<{
       enabled: boolean;
@@ -202,45 +511,111 @@ export const api = {
       counts: { faces_total: number; persons_total: number; assets_with_faces: number };
       thresholds: { cluster_batch_size: number; remaining_to_next_cluster: number };
       status: string;
-    }>('/faces/progress'),
+    }>('/faces/progress', { schema: schemas.faceProgressSchema }),
   clearFacialData: () =>
     request<{ success: boolean; faces_deleted: number; persons_deleted: number; message: string }>(
       '/faces/clear',
-      { method: 'DELETE' }
+      { method: 'DELETE', requires: 'manage', schema: schemas.clearFacialDataSchema }
     ),
 
   // Persons
-  listPersons: () => request<Array<{ id: number; name: string | null; created_at: number }>>('/persons'),
-  getPerson: (id: number) => request<{ id: number; name: string | null; created_at: number }>(`/persons/${id}`),
+  listPersons: () => request<Person[]>('/persons', { schema: schemas.personsSchema }),
+  getPerson: (id: number) => request<Person>(`/persons/${id}`, { schema: schemas.personSchema }),
   getPersonAssets: (id: number) =>
-    request<{ asset_ids: number[] }>(`/persons/${id}/assets`).then((res) => res.asset_ids),
+    request<{ asset_ids: number[] }>(`/persons/${id}/assets`, { schema: schemas.personAssetsSchema })
+      .then((res) => res.asset_ids),
   getPersonFace: (id: number) =>
-    request<{ face_id: number }>(`/persons/${id}/face`).then((res) => res.face_id).catch(() => null),
+    request<{ face_id: number }>(`/persons/${id}/face`, { schema: schemas.personFaceSchema })
+      .then((res) => res.face_id)
+      .catch(() => null),
+  // Counts, cover face and date range for many persons in one request. Older
+  // backends without `/persons/summary` get the per-person calls instead.
+  getPersonSummaries: async (ids?: number[]): Promise<PersonSummary[]> => {
+    const base = getApiBaseUrl();
+    if (!personSummaryUnsupported.has(base)) {
+      const query = ids ? `?ids=${ids.join(',')}` : '';
+      try {
+        return await request<PersonSummary[]>(`/persons/summary${query}`, { schema: schemas.personSummariesSchema });
+      } catch (error) {
+        const unsupported =
+          isNotFoundError(error) ||
+          (error instanceof ApiError &&
+            error.status !== null &&
+            PERSON_SUMMARY_UNSUPPORTED_STATUSES.includes(error.status));
+        if (!unsupported) throw error;
+        personSummaryUnsupported.add(base);
+      }
+    }
+    const personIds = ids ?? (await api.listPersons()).map((p) => p.id);
+    // A person whose lookup fails is left out rather than failing the others
+    const results = await Promise.allSettled(
+      personIds.map(async (id): Promise<PersonSummary> => {
+        const [assetIds, faceId] = await Promise.all([api.getPersonAssets(id), api.getPersonFace(id)]);
+        return {
+          person_id: id,
+          asset_count: assetIds.length,
+          face_count: null,
+          cover_face_id: faceId,
+          first_seen: null,
+          last_seen: null,
+        };
+      })
+    );
+    return results.flatMap((result, i) => {
+      if (result.status === 'fulfilled') return [result.value];
+      console.error(`Failed to load the summary of person ${personIds[i]}:`, result.reason);
+      return [];
+    });
+  },
   updatePerson: (id: number, name: string | null) =>
-    request<{ success: boolean }>(`/persons/${id}`, { method: 'POST', body: JSON.stringify({ name }) }),
-  deletePerson: (id: number) => request<{ success: boolean }>(`/persons/${id}`, { method: 'DELETE' }),
+    request<{ success: boolean }>(
+      `/persons/${id}`,
+      {
+        method: 'POST',
+        body: JSON.stringify({ name }),
+        queueAs: name ? `Rename person to "${name}"` : 'Clear person name',
+        requires: 'edit',
+        schema: schemas.successSchema,
+      }
+    ),
+  deletePerson: (id: number) =>
+    request<{ success: boolean }>(`/persons/${id}`, {
+      method: 'DELETE',
+      queueAs: 'Delete person',
+      requires: 'edit',
+      schema: schemas.successSchema,
+    }),
   mergePersons: (sourceId: number, targetId: number) =>
     request<{
       success: boolean;
       faces_merged: number;
       moved_face_ids: number[];
       profile_refreshed?: { person_id: number; face_count: number; centroid_dim: number } | null;
-    }>(`/persons/merge`, {
-      method: 'POST',
-      body: JSON.stringify({ source_person_id: sourceId, target_person_id: targetId }),
-    }),
+    }>(
+      `/persons/merge`,
+      {
+        method: 'POST',
+        body: JSON.stringify({ source_person_id: sourceId, target_person_id: targetId }),
+        queueAs: 'Merge persons',
+        requires: 'edit',
+        schema: schemas.mergePersonsSchema,
+      }
+    ),
   refreshPersonProfile: (personId: number) =>
     request<{
       success: boolean;
       profile: { person_id: number; face_count: number; centroid_dim: number } | null;
     }>(`/faces/recluster/person/${personId}`, {
       method: 'POST',
+      requires: 'edit',
+      schema: schemas.refreshPersonProfileSchema,
     }),
 
   // Faces for an asset
   getAssetFaces: (id: number) =>
     request<Array<{ id: number; person_id: number | null; bbox_json: string; confidence: number }>>(
-      `/assets/${id}/faces`
+      `/assets/${id}/faces`,
+      { schema: schemas.assetFacesSchema }
     ),
 
   // Face settings
@@ -252,7 +627,7 @@ export const api = {
       min_cluster_size?: number;
       min_samples?: number;
       excluded_extensions?: string[];
-    }>('/faces/settings'),
+    }>('/faces/settings', { schema: schemas.faceSettingsSchema }),
   updateFaceSettings: (settings: {
     confidence_threshold?: number;
     nms_iou_threshold?: number;
@@ -264,33 +639,48 @@ export const api = {
     request<{ status: string }>('/faces/settings', {
       method: 'POST',
       body: JSON.stringify(settings),
+      requires: 'manage',
+      schema: schemas.statusSchema,
     }),
   smartMergePersons: (threshold?: number) =>
     request<{ success: boolean; persons_merged: number; faces_merged: number; remaining_persons: number }>(
       `/faces/smart-merge${threshold ? `?threshold=${threshold}` : ''}`,
-      { method: 'POST' }
+      { method: 'POST', requires: 'manage', schema: schemas.smartMergeSchema }
     ),
 };
 
+// URLs loaded directly by <img>/<video>/<a>, so auth travels in the query string
 export const media = {
   faceThumbUrl: (faceId: number, size: number = 160) =>
-    withBase(`/faces/${faceId}/thumb?size=${size}`),
+    MOCK_BACKEND ? mockFaceImageUrl(faceId, size) : withAuthToken(withBase(`/faces/${faceId}/thumb?size=${size}`)),
   thumbUrl: (id: number, version?: string) =>
-    withBase(version ? `/thumb/${id}?v=${version}` : `/thumb/${id}`),
+    MOCK_BACKEND
+      ? mockAssetImageUrl(id, 320)
+      : withAuthToken(withBase(version ? `/thumb/${id}?v=${version}` : `/thumb/${id}`)),
   previewUrl: (id: number, version?: string) =>
-    withBase(version ? `/preview/${id}?v=${version}` : `/preview/${id}`),
-  videoUrl: (id: number) => withBase(`/asset/${id}/video`),
-  downloadUrl: (id: number) => withBase(`/asset/${id}/download`),
-  audioMp3Url: (id: number) => withBase(`/asset/${id}/audio.mp3`),
+    MOCK_BACKEND
+      ? mockAssetImageUrl(id, 1600)
+      : withAuthToken(withBase(version ? `/preview/${id}?v=${version}` : `/preview/${id}`)),
+  videoUrl: (id: number) => withAuthToken(withBase(`/asset/${id}/video`)),
+  downloadUrl: (id: number) => withAuthToken(withBase(`/asset/${id}/download`)),
+  audioMp3Url: (id: number) => withAuthToken(withBase(`/asset/${id}/audio.mp3`)),
 };
 
 export const assetApi = {
-  get: (id: number) => request<Asset>(`/asset/${id}`),
+  get: (id: number) => request<Asset>(`/asset/${id}`, { schema: schemas.assetSchema }),
 
-  download: async (id: number) => {
+  // Response for the original file, left unread so callers can stream it
+  fetchOriginal: async (id: number, signal?: AbortSignal): Promise<Response> => {
     const url = media.downloadUrl(id);
-    const response = await fetch(url);
-    if (!response.ok) throw new Error(`Download failed: ${response.statusText}`);
+    const response = await send(url, { signal });
+    if (!response.ok) {
+      throw apiErrorFromResponse(response, url, await readBody(response), `Download failed: ${response.statusText}`);
+    }
+    return response;
+  },
+
+  download: async (id: number) => {
+    const response = await assetApi.fetchOriginal(id);
     const blob = await response.blob();
     const downloadUrl = window.URL.createObjectURL(blob);
     const a = document.createElement('a');
@@ -310,51 +700,38 @@ export const assetApi = {
   ): Promise<DeleteResponse | PermanentDeleteResponse> => {
     const permanent = options?.permanent === true;
     const url = withBase(permanent ? `/asset/${id}/permanent` : `/asset/${id}`);
-    const response = await fetch(url, { method: 'DELETE' });
-    const text = await response.text().catch(() => '');
+    assertPermission(permanent ? 'deleteOriginals' : 'edit', url);
+    const response = await send(url, { method: 'DELETE' });
+    const body = await readBody(response);
     let data: DeleteResponse | PermanentDeleteResponse = { success: response.ok };
-    if (text) {
-      try {
-        data = JSON.parse(text);
-      } catch {
-        data = { success: response.ok, error: text };
-      }
+    if (body && typeof body === 'object') {
+      data = body as DeleteResponse | PermanentDeleteResponse;
+    } else if (typeof body === 'string') {
+      data = { success: response.ok, error: body };
     }
     if (!response.ok) {
+      // A 409 on permanent delete reports a read-only original; callers inspect the payload.
       if (permanent && response.status === 409) {
         return data;
       }
-      const errorMessage =
-        (data as DeleteResponse).error ||
-        `Delete failed: ${response.status} ${response.statusText}${text ? `\n${text}` : ''}`;
-      throw new Error(errorMessage);
+      throw apiErrorFromResponse(response, url, body, `Delete failed: ${response.status} ${response.statusText}`);
     }
     return data;
   },
 
   deletePermanentBulk: async (ids: number[]): Promise<BulkPermanentDeleteResponse> => {
     const url = withBase('/assets/permanent');
-    const response = await fetch(url, {
+    assertPermission('deleteOriginals', url);
+    const response = await send(url, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ ids }),
     });
-      const text = await response.text().catch(() => '');
-    let parsed: any = null;
-    if (text) {
-      try {
-        parsed = JSON.parse(text);
-      } catch {
-        // ignore parse errors, will handle below
-      }
-    }
+    const body = await readBody(response);
     if (!response.ok && response.status !== 409) {
-      const message =
-        (parsed && typeof parsed.error === 'string')
-          ? parsed.error
-          : `Bulk delete failed: ${response.status} ${response.statusText}${text ? `\n${text}` : ''}`;
-      throw new Error(message);
+      throw apiErrorFromResponse(response, url, body, `Bulk delete failed: ${response.status} ${response.statusText}`);
     }
+    const parsed = body && typeof body === 'object' ? (body as Partial<BulkPermanentDeleteResponse>) : null;
     const data: BulkPermanentDeleteResponse = {
       success: Boolean(parsed?.success ?? response.ok),
       results: Array.isArray(parsed?.results) ? parsed.results : [],
@@ -365,142 +742,168 @@ export const assetApi = {
 
   extractAudioMp3: async (id: number) => {
     const url = media.audioMp3Url(id);
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 600000);
-    try {
-      const response = await fetch(url, { signal: controller.signal });
-      clearTimeout(timeoutId);
-      if (!response.ok) {
-        const text = await response.text().catch(() => '');
-        let errorMessage = `Audio extract failed: ${response.status} ${response.statusText}`;
-        if (text) {
-          try {
-            const json = JSON.parse(text);
-            errorMessage = json.error || json.details || errorMessage;
-          } catch {
-            errorMessage += `\n${text}`;
-          }
-        }
-        throw new Error(errorMessage);
-      }
-      const blob = await response.blob();
-      const downloadUrl = window.URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = downloadUrl;
-      const cd = response.headers.get('Content-Disposition');
-      const match = cd?.match(/filename=\"?([^\";]+)\"?/);
-      a.download = match ? match[1] : `audio-${id}.mp3`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      window.URL.revokeObjectURL(downloadUrl);
-    } catch (error) {
-      clearTimeout(timeoutId);
-      if (error instanceof Error && error.name === 'AbortError') {
-        throw new Error('Audio extraction timed out after 10 minutes');
-      }
-      throw error;
+    // Transcoding long videos can take several minutes
+    const response = await send(url, undefined, 600000);
+    if (!response.ok) {
+      throw apiErrorFromResponse(
+        response,
+        url,
+        await readBody(response),
+        `Audio extract failed: ${response.status} ${response.statusText}`
+      );
     }
+    const blob = await response.blob();
+    const downloadUrl = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = downloadUrl;
+    const cd = response.headers.get('Content-Disposition');
+    const match = cd?.match(/filename=\"?([^\";]+)\"?/);
+    a.download = match ? match[1] : `audio-${id}.mp3`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    window.URL.revokeObjectURL(downloadUrl);
   },
 
   saveOrientation: async (id: number, rotation: number): Promise<{ success: boolean; error?: string }> => {
     const url = withBase(`/asset/${id}/orientation`);
-    const response = await fetch(url, {
+    assertPermission('edit', url);
+    const response = await send(url, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ rotation }),
     });
-    const text = await response.text().catch(() => '');
-    let data: { success: boolean; error?: string } = { success: response.ok };
-    if (text) {
-      try {
-        data = JSON.parse(text);
-      } catch {
-        data = { success: response.ok, error: text || 'Unknown error' };
-      }
-    }
+    const body = await readBody(response);
     if (!response.ok) {
-      throw new Error(data.error || `Save orientation failed: ${response.status} ${response.statusText}`);
+      throw apiErrorFromResponse(
+        response,
+        url,
+        body,
+        `Save orientation failed: ${response.status} ${response.statusText}`
+      );
     }
-    return data;
+    if (body && typeof body === 'object') {
+      return body as { success: boolean; error?: string };
+    }
+    return { success: true };
   },
 
+  // Sets favorite and rating bits in each asset's `flags`; answers with the new flags
+  updateFlags: (ids: number[], changes: AssetFlagChanges) =>
+    request<{ assets: Array<{ id: number; flags: number }> }>(
+      '/assets/flags',
+      { method: 'PUT', body: JSON.stringify({ asset_ids: ids, ...changes }), queueAs: 'Update favorites and ratings', requires: 'edit', schema: schemas.assetFlagsSchema }
+    ),
+
+  // Every tag in use with its asset count. Resolves to null when the backend lacks the endpoint.
+  listTags: async (): Promise<TagCount[] | null> => {
+    const base = getApiBaseUrl();
+    if (tagsUnsupported.has(base)) return null;
+    try {
+      const res = await request<{ tags: TagCount[] }>('/tags', { retries: 0, schema: schemas.tagsSchema });
+      return res.tags;
+    } catch (error) {
+      if (!isNotFoundError(error)) throw error;
+      tagsUnsupported.add(base);
+      return null;
+    }
+  },
+
+  // Adds and removes tags on each asset; answers with the resulting tags
+  updateTags: (ids: number[], changes: AssetTagChanges) =>
+    request<{ assets: Array<{ id: number; tags: string[] }> }>(
+      '/assets/tags',
+      { method: 'PUT', body: JSON.stringify({ asset_ids: ids, ...changes }), queueAs: 'Update tags', requires: 'edit', schema: schemas.assetTagsSchema }
+    ),
+
+  // An empty caption removes it
+  saveCaption: (id: number, caption: string) =>
+    request<{ id: number; caption: string | null }>(
+      `/asset/${id}/caption`,
+      { method: 'PUT', body: JSON.stringify({ caption }), queueAs: 'Save caption', requires: 'edit', schema: schemas.assetCaptionSchema }
+    ),
+
   // Albums
-  listAlbums: () => request<Array<{
-    id: number;
-    name: string;
-    description?: string;
-    asset_ids: number[];
-    created_at: number;
-    updated_at: number;
-  }>>('/albums'),
-
-  getAlbum: (id: number) => request<{
-    id: number;
-    name: string;
-    description?: string;
-    asset_ids: number[];
-    created_at: number;
-    updated_at: number;
-  }>(`/albums/${id}`),
+  listAlbums: () => request<BackendAlbum[]>('/albums', { schema: schemas.albumsSchema }),
+
+  getAlbum: (id: number) => request<BackendAlbum>(`/albums/${id}`, { schema: schemas.albumSchema }),
 
   createAlbum: (name: string, description?: string) =>
-    request<{
-      id: number;
-      name: string;
-      description?: string;
-      asset_ids: number[];
-      created_at: number;
-      updated_at: number;
-    }>('/albums', {
-      method: 'POST',
-      body: JSON.stringify({ name, description }),
-    }),
+    request<BackendAlbum>(
+      '/albums',
+      { method: 'POST', body: JSON.stringify({ name, description }), queueAs: `Create album "${name}"`, requires: 'edit', schema: schemas.albumSchema }
+    ),
 
   updateAlbum: (id: number, name?: string, description?: string) =>
-    request<{
-      id: number;
-      name: string;
-      description?: string;
-      asset_ids: number[];
-      created_at: number;
-      updated_at: number;
-    }>(`/albums/${id}`, {
-      method: 'PUT',
-      body: JSON.stringify({ name, description }),
-    }),
+    request<BackendAlbum>(
+      `/albums/${id}`,
+      { method: 'PUT', body: JSON.stringify({ name, description }), queueAs: 'Update album', requires: 'edit', schema: schemas.albumSchema }
+    ),
 
   deleteAlbum: (id: number) =>
-    request<{ success: boolean }>(`/albums/${id}`, {
-      method: 'DELETE',
-    }),
+    request<{ success: boolean }>(`/albums/${id}`, { method: 'DELETE', queueAs: 'Delete album', requires: 'edit', schema: schemas.successSchema }),
 
   addAssetsToAlbum: (id: number, assetIds: number[]) =>
-    request<{
-      id: number;
-      name: string;
-      description?: string;
-      asset_ids: number[];
-      created_at: number;
-      updated_at: number;
-    }>(`/albums/${id}/assets`, {
-      method: 'POST',
-      body: JSON.stringify({ asset_ids: assetIds }),
-    }),
+    request<BackendAlbum>(
+      `/albums/${id}/assets`,
+      { method: 'POST', body: JSON.stringify({ asset_ids: assetIds }), queueAs: 'Add to album', requires: 'edit', schema: schemas.albumSchema }
+    ),
 
   removeAssetsFromAlbum: (id: number, assetIds: number[]) =>
-    request<{
-      id: number;
-      name: string;
-      description?: string;
-      asset_ids: number[];
-      created_at: number;
-      updated_at: number;
-    }>(`/albums/${id}/assets`, {
-      method: 'DELETE',
-      body: JSON.stringify({ asset_ids: assetIds }),
-    }),
+    request<BackendAlbum>(
+      `/albums/${id}/assets`,
+      { method: 'DELETE', body: JSON.stringify({ asset_ids: assetIds }), queueAs: 'Remove from album', requires: 'edit', schema: schemas.albumSchema }
+    ),
 
   getAlbumsForAsset: (assetId: number) =>
-    request<number[]>(`/albums/for-asset/${assetId}`),
+    request<number[]>(`/albums/for-asset/${assetId}`, { schema: schemas.albumIdsSchema }),
+
+  moveAlbum: (id: number, folderId: number | null) =>
+    request<BackendAlbum>(
+      `/albums/${id}`,
+      { method: 'PUT', body: JSON.stringify({ folder_id: folderId }), queueAs: 'Move album', requires: 'edit', schema: schemas.albumSchema }
+    ),
+
+  updateAlbumDisplay: (id: number, changes: { cover_asset_id?: number | null; sort?: AlbumSort }) =>
+    request<BackendAlbum>(
+      `/albums/${id}`,
+      { method: 'PUT', body: JSON.stringify(changes), queueAs: 'Update album', requires: 'edit', schema: schemas.albumSchema }
+    ),
+
+  // `assetIds` must hold exactly the album's assets, in their new order
+  reorderAlbumAssets: (id: number, assetIds: number[]) =>
+    request<BackendAlbum>(
+      `/albums/${id}/assets`,
+      { method: 'PUT', body: JSON.stringify({ asset_ids: assetIds }), queueAs: 'Reorder album', requires: 'edit', schema: schemas.albumSchema }
+    ),
+
+  // Album folders
+  // Null when the backend has no album folders
+  listAlbumFolders: async (): Promise<BackendAlbumFolder[] | null> => {
+    const base = getApiBaseUrl();
+    if (albumFoldersUnsupported.has(base)) return null;
+    try {
+      return await request<BackendAlbumFolder[]>('/album-folders', { retries: 0, schema: schemas.albumFoldersSchema });
+    } catch (error) {
+      if (!isNotFoundError(error)) throw error;
+      albumFoldersUnsupported.add(base);
+      return null;
+    }
+  },
+
+  createAlbumFolder: (name: string, parentId: number | null) =>
+    request<BackendAlbumFolder>(
+      '/album-folders',
+      { method: 'POST', body: JSON.stringify({ name, parent_id: parentId }), requires: 'edit', schema: schemas.albumFolderSchema }
+    ),
+
+  updateAlbumFolder: (id: number, changes: { name?: string; parent_id?: number | null }) =>
+    request<BackendAlbumFolder>(
+      `/album-folders/${id}`,
+      { method: 'PUT', body: JSON.stringify(changes), queueAs: 'Update album folder', requires: 'edit', schema: schemas.albumFolderSchema }
+    ),
+
+  // Albums and sub-folders move up to the deleted folder's parent
+  deleteAlbumFolder: (id: number) =>
+    request<{ success: boolean }>(`/album-folders/${id}`, { method: 'DELETE', requires: 'edit', schema: schemas.successSchema }),
 };
@@ -0,0 +1,54 @@
+import { create } from 'zustand';
+import { profileKey, useServerProfileStore } from './serverProfiles';
+
+// Archived assets stay in the index, albums and search results but are hidden
+// from the Gallery. The backend has no archive flag, so the list lives in this
+// browser only, per server profile, and the UI calls it hiding on this device.
+
+const ARCHIVE_KEY = 'nazr.archivedAssets';
+
+function loadArchived(): Set<number> {
+  try {
+    const raw = localStorage.getItem(profileKey(ARCHIVE_KEY));
+    const list: unknown = raw ? JSON.parse(raw) : [];
+    return new Set(Array.isArray(list) ? list.filter((id): id is number => typeof id === 'number') : []);
+  } catch {
+    return new Set();
+  }
+}
+
+function persist(archived: Set<number>) {
+  try {
+    localStorage.setItem(profileKey(ARCHIVE_KEY), JSON.stringify([...archived]));
+  } catch {
+    // ignore storage failures (private mode, quota, etc.); the change lasts until reload
+  }
+}
+
+interface ArchiveState {
+  archived: Set<number>;
+  archive: (ids: number[]) => void;
+  unarchive: (ids: number[]) => void;
+}
+
+export const useArchiveStore = create<ArchiveState>((set, get) => {
+  const update = (archived: Set<number>) => {
+    persist(archived);
+    set({ archived });
+  };
+
+  return {
+    archived: loadArchived(),
+    archive: (ids) => update(new Set([...get().archived, ...ids])),
+    unarchive: (ids) => {
+      const next = new Set(get().archived);
+      ids.forEach((id) => next.delete(id));
+      update(next);
+    },
+  };
+});
+
+useServerProfileStore.subscribe((state, prev) => {
+  if (state.activeId === prev.activeId) return;
+  useArchiveStore.setState({ archived: loadArchived() });
+});
@@ -0,0 +1,30 @@
+import type { AssetFlagChanges } from '../types';
+
+// Favorites and star ratings are stored in `Asset.flags`: bit 0 marks a
+// favorite and bits 1-3 hold the rating (0 for unrated, up to 5). Other bits
+// belong to the backend and are left untouched.
+
+export const FAVORITE_FLAG = 0b0001;
+const RATING_MASK = 0b1110;
+const RATING_SHIFT = 1;
+export const MAX_RATING = 5;
+
+export function isFavorite(flags: number): boolean {
+  return (flags & FAVORITE_FLAG) !== 0;
+}
+
+export function ratingOf(flags: number): number {
+  return Math.min(MAX_RATING, (flags & RATING_MASK) >> RATING_SHIFT);
+}
+
+export function applyFlagChanges(flags: number, changes: AssetFlagChanges): number {
+  let next = flags;
+  if (changes.favorite !== undefined) {
+    next = changes.favorite ? next | FAVORITE_FLAG : next & ~FAVORITE_FLAG;
+  }
+  if (changes.rating !== undefined) {
+    const rating = Math.max(0, Math.min(MAX_RATING, Math.round(changes.rating)));
+    next = (next & ~RATING_MASK) | (rating << RATING_SHIFT);
+  }
+  return next;
+}
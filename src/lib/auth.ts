@@ -0,0 +1,92 @@
+import { create } from 'zustand';
+import type { Role } from '../types';
+import { profileKey, useServerProfileStore } from './serverProfiles';
+
+// Session for the active server profile. The token is sent as a bearer header
+// by `send()` and as `access_token` on media URLs, which <img>/<video> cannot
+// attach headers to. Backends without auth never return 401, so `required`
+// stays false and the app works without signing in.
+
+export interface Session {
+  token: string;
+  username: string;
+  expiresAt: number | null; // epoch ms
+  role?: Role;
+}
+
+const SESSION_KEY = 'nazr.session';
+
+function loadSession(): Session | null {
+  try {
+    const raw = localStorage.getItem(profileKey(SESSION_KEY));
+    const session = raw ? (JSON.parse(raw) as Session) : null;
+    if (!session?.token) return null;
+    return session.expiresAt !== null && session.expiresAt <= Date.now() ? null : session;
+  } catch {
+    return null;
+  }
+}
+
+interface AuthState {
+  session: Session | null;
+  // Set when the backend rejected a request with 401; the app redirects to /login
+  required: boolean;
+  setSession: (session: Session) => void;
+  clearSession: (required: boolean) => void;
+}
+
+let expiryTimer: ReturnType<typeof setTimeout> | null = null;
+
+// Expire the session on the client at its deadline instead of waiting for a 401
+function scheduleExpiry(session: Session | null) {
+  if (expiryTimer) clearTimeout(expiryTimer);
+  expiryTimer = null;
+  if (!session?.expiresAt) return;
+  const remaining = session.expiresAt - Date.now();
+  // setTimeout overflows past ~24.8 days; such sessions are checked on use instead
+  if (remaining < 2 ** 31 - 1) {
+    expiryTimer = setTimeout(() => useAuthStore.getState().clearSession(true), Math.max(0, remaining));
+  }
+}
+
+export const useAuthStore = create<AuthState>((set) => ({
+  session: loadSession(),
+  required: false,
+  setSession: (session) => {
+    localStorage.setItem(profileKey(SESSION_KEY), JSON.stringify(session));
+    scheduleExpiry(session);
+    set({ session, required: false });
+  },
+  clearSession: (required) => {
+    localStorage.removeItem(profileKey(SESSION_KEY));
+    scheduleExpiry(null);
+    set({ session: null, required });
+  },
+}));
+
+scheduleExpiry(useAuthStore.getState().session);
+
+// Each server has its own session
+useServerProfileStore.subscribe((state, prev) => {
+  if (state.activeId === prev.activeId) return;
+  const session = loadSession();
+  scheduleExpiry(session);
+  useAuthStore.setState({ session, required: false });
+});
+
+export function getAuthToken(): string | null {
+  const { session, clearSession } = useAuthStore.getState();
+  if (!session) return null;
+  if (session.expiresAt !== null && session.expiresAt <= Date.now()) {
+    clearSession(true);
+    return null;
+  }
+  return session.token;
+}
+
+// Append the session token to a URL loaded directly by the browser
+export function withAuthToken(url: string): string {
+  const token = getAuthToken();
+  if (!token) return url;
+  return `${url}${url.includes('?') ? '&' : '?'}access_token=${encodeURIComponent(token)}`;
+}
@@ -0,0 +1,32 @@
+import { isImage } from './utils';
+import type { Asset } from '../types';
+
+// Burst stacks for the gallery: neighbouring photos taken within a few
+// seconds by the same camera at the same dimensions. Only consecutive assets
+// of the current order are stacked, so collapsing never reorders the grid.
+
+// Largest gap between two shots of one burst
+export const BURST_GAP_SECONDS = 3;
+
+function isSameBurst(a: Asset, b: Asset): boolean {
+  if (!isImage(a.mime) || !isImage(b.mime)) return false;
+  // The schema lets taken_at be null as well as missing
+  if (a.taken_at == null || b.taken_at == null) return false;
+  if (!a.camera_model || a.camera_model !== b.camera_model) return false;
+  if (!a.width || a.width !== b.width || a.height !== b.height) return false;
+  return Math.abs(a.taken_at - b.taken_at) <= BURST_GAP_SECONDS;
+}
+
+// Runs of burst shots in list order; assets outside a burst form a stack of one
+export function groupBursts(assets: Asset[]): Asset[][] {
+  const stacks: Asset[][] = [];
+  for (const asset of assets) {
+    const current = stacks[stacks.length - 1];
+    if (current && isSameBurst(current[current.length - 1], asset)) {
+      current.push(asset);
+    } else {
+      stacks.push([asset]);
+    }
+  }
+  return stacks;
+}
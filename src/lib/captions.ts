@@ -0,0 +1,49 @@
+import { create } from 'zustand';
+import { assetApi } from './api';
+import { MutationQueuedError } from './errors';
+import { useServerProfileStore } from './serverProfiles';
+import type { Asset } from '../types';
+
+export const MAX_CAPTION_LENGTH = 2000;
+
+// Edited captions, shown right away on top of the asset lists already cached.
+// An empty string stands for a removed caption.
+
+interface AssetCaptionsState {
+  captions: Map<number, string>;
+  set: (entries: Array<[number, string]>) => void;
+}
+
+export const useAssetCaptionsStore = create<AssetCaptionsState>((set, get) => ({
+  captions: new Map(),
+  set: (entries) => set({ captions: new Map([...get().captions, ...entries]) }),
+}));
+
+export function captionOf(asset: Asset, overrides: Map<number, string>): string {
+  return overrides.get(asset.id) ?? asset.caption ?? '';
+}
+
+export function useAssetCaption(asset: Asset): string {
+  return useAssetCaptionsStore((s) => s.captions.get(asset.id)) ?? asset.caption ?? '';
+}
+
+export async function updateAssetCaption(asset: Asset, caption: string): Promise<void> {
+  const { captions, set } = useAssetCaptionsStore.getState();
+  const previous = captionOf(asset, captions);
+  const next = caption.trim().slice(0, MAX_CAPTION_LENGTH);
+  if (next === previous) return;
+  set([[asset.id, next]]);
+  try {
+    const result = await assetApi.saveCaption(asset.id, next);
+    set([[asset.id, result.caption ?? '']]);
+  } catch (error) {
+    // Queued changes are replayed later, so the optimistic value stays
+    if (!(error instanceof MutationQueuedError)) set([[asset.id, previous]]);
+    throw error;
+  }
+}
+
+useServerProfileStore.subscribe((state, prev) => {
+  if (state.activeId === prev.activeId) return;
+  useAssetCaptionsStore.setState({ captions: new Map() });
+});
@@ -2,7 +2,27 @@ export const API_BASE_URL: string =
   (import.meta.env?.VITE_API_BASE_URL as string | undefined)?.replace(/\/$/, '') ||
   'http://localhost:9161';
 
+const MOCK_BACKEND_KEY = 'nazr.mockBackend';
+
+// The bundled mock backend is enabled with VITE_MOCK_BACKEND=true at build time,
+// or at runtime by opening the app with ?mock=1 (persisted until ?mock=0).
+function resolveMockBackend(): boolean {
+  if (typeof window !== 'undefined') {
+    const flag = new URLSearchParams(window.location.search).get('mock');
+    if (flag === '1' || flag === 'true') window.localStorage?.setItem(MOCK_BACKEND_KEY, 'true');
+    if (flag === '0' || flag === 'false') window.localStorage?.removeItem(MOCK_BACKEND_KEY);
+    if (window.localStorage?.getItem(MOCK_BACKEND_KEY) === 'true') return true;
+  }
+  return import.meta.env?.VITE_MOCK_BACKEND === 'true';
+}
+
+export const MOCK_BACKEND: boolean = resolveMockBackend();
+export const MOCK_LIBRARY_SIZE: number = Number(import.meta.env?.VITE_MOCK_LIBRARY_SIZE) || 600;
+export const MOCK_SEED: number = Number(import.meta.env?.VITE_MOCK_SEED) || 1;
+
 export const APP_NAME = 'Nazr';
+// Oldest backend release whose API matches the response schemas in lib/schemas.ts
+export const MIN_BACKEND_VERSION = '0.9.0';
 export const DEFAULT_PAGE_SIZE = 200;
 export const STATS_POLL_MS = 2000;
 
@@ -0,0 +1,83 @@
+import { api } from './api';
+import type { Asset, DuplicateGroup } from '../types';
+
+// Exact duplicates: assets with the same sha256, or the same xxh64 and size
+// when the sha256 has not been computed yet. Grouping happens on the backend
+// through `/assets/duplicates`; older backends are scanned page by page.
+
+// Page size when listing groups or scanning the library
+const PAGE_SIZE = 500;
+
+// Folder names that usually hold copies rather than the canonical file
+const COPY_FOLDER = /(^|\/)(backups?|copy|copies|duplicates?|old|tmp|temp|downloads|whatsapp[^/]*)(\/|$)/i;
+// A year (1900-2099) as its own path segment or at the start of one, e.g. `2019` or `2019-07 Rome`
+const DATED_FOLDER = /(^|\/)(19|20)\d{2}([-_ ./]|$)/;
+
+export interface KeepSuggestion {
+  keepId: number;
+  reason: string;
+}
+
+function duplicateKey(asset: Asset): string | null {
+  if (asset.sha256) return `sha256:${asset.sha256}`;
+  // Without any hash the asset cannot be matched; equal sizes alone prove nothing
+  if (asset.xxh64 != null) return `xxh64:${asset.xxh64}:${asset.size_bytes}`;
+  return null;
+}
+
+export function groupDuplicates(assets: Asset[]): DuplicateGroup[] {
+  const groups = new Map<string, Asset[]>();
+  for (const asset of assets) {
+    const key = duplicateKey(asset);
+    if (key) groups.set(key, [...(groups.get(key) ?? []), asset]);
+  }
+  return [...groups.values()]
+    .filter((copies) => copies.length > 1)
+    .map((copies) => ({ sha256: copies[0].sha256 ?? '', size_bytes: copies[0].size_bytes, assets: copies }))
+    .sort((a, b) => wastedBytes(b) - wastedBytes(a));
+}
+
+// Space freed by keeping one copy
+export function wastedBytes(group: DuplicateGroup): number {
+  return group.size_bytes * (group.assets.length - 1);
+}
+
+export async function loadDuplicateGroups(): Promise<DuplicateGroup[]> {
+  const groups: DuplicateGroup[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const page = await api.duplicates(offset, PAGE_SIZE);
+    if (!page) break;
+    groups.push(...page.items);
+    if (page.items.length < PAGE_SIZE || groups.length >= page.total) return groups;
+  }
+
+  const assets: Asset[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const page = await api.assets({ offset, limit: PAGE_SIZE });
+    assets.push(...page.items);
+    if (page.items.length < PAGE_SIZE || assets.length >= page.total) break;
+  }
+  return groupDuplicates(assets);
+}
+
+// Which copy to keep: one in a dated folder, then one outside backup/download
+// style folders, then the oldest file, then the shortest path
+export function suggestKeep(group: DuplicateGroup): KeepSuggestion {
+  const ranked = [...group.assets].sort(
+    (a, b) =>
+      Number(DATED_FOLDER.test(b.dirname)) - Number(DATED_FOLDER.test(a.dirname)) ||
+      Number(COPY_FOLDER.test(a.dirname)) - Number(COPY_FOLDER.test(b.dirname)) ||
+      a.mtime_ns - b.mtime_ns ||
+      a.path.length - b.path.length
+  );
+  const [best, runnerUp] = ranked;
+  let reason = 'shortest path';
+  if (DATED_FOLDER.test(best.dirname) && !DATED_FOLDER.test(runnerUp.dirname)) {
+    reason = 'inside a dated folder';
+  } else if (!COPY_FOLDER.test(best.dirname) && COPY_FOLDER.test(runnerUp.dirname)) {
+    reason = 'not in a backup or download folder';
+  } else if (best.mtime_ns < runnerUp.mtime_ns) {
+    reason = 'oldest copy';
+  }
+  return { keepId: best.id, reason };
+}
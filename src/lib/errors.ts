@@ -0,0 +1,282 @@
+import type { SchemaIssue } from './validation';
+
+// Structured errors thrown by the API layer. Callers should branch on the
+// class (or `kind`) instead of inspecting error messages.
+
+export type ApiErrorKind =
+  | 'not-found'
+  | 'conflict'
+  | 'read-only'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'timeout'
+  | 'network'
+  | 'server'
+  | 'queued'
+  | 'invalid-response'
+  | 'http';
+
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly status: number | null;
+  readonly body: unknown;
+  readonly url: string;
+
+  constructor(
+    kind: ApiErrorKind,
+    message: string,
+    details: { status?: number | null; body?: unknown; url: string }
+  ) {
+    super(message);
+    this.name = 'ApiError';
+    this.kind = kind;
+    this.status = details.status ?? null;
+    this.body = details.body ?? null;
+    this.url = details.url;
+  }
+}
+
+export class NotFoundError extends ApiError {
+  constructor(message: string, details: { status?: number; body?: unknown; url: string }) {
+    super('not-found', message, details);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class ConflictError extends ApiError {
+  constructor(message: string, details: { status?: number; body?: unknown; url: string }) {
+    super('conflict', message, details);
+    this.name = 'ConflictError';
+  }
+}
+
+export class ReadOnlyError extends ApiError {
+  constructor(message: string, details: { status?: number; body?: unknown; url: string }) {
+    super('read-only', message, details);
+    this.name = 'ReadOnlyError';
+  }
+}
+
+// 401: the session is missing, expired or was revoked.
+export class UnauthorizedError extends ApiError {
+  constructor(message: string, details: { status?: number; body?: unknown; url: string }) {
+    super('unauthorized', message, details);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+// 403, or a call the signed-in role is not allowed to make (refused client-side).
+export class ForbiddenError extends ApiError {
+  constructor(message: string, details: { status?: number; body?: unknown; url: string }) {
+    super('forbidden', message, details);
+    this.name = 'ForbiddenError';
+  }
+}
+
+export class TimeoutError extends ApiError {
+  readonly timeoutMs: number;
+
+  constructor(url: string, timeoutMs: number) {
+    super('timeout', `Request to ${url} timed out after ${Math.round(timeoutMs / 1000)} seconds`, { url });
+    this.name = 'TimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+export class NetworkError extends ApiError {
+  constructor(url: string) {
+    super(
+      'network',
+      `Cannot connect to API at ${url}. ` +
+        `Please ensure the backend is running and accessible. ` +
+        `If using Docker, check that the container is running with: docker ps`,
+      { url }
+    );
+    this.name = 'NetworkError';
+  }
+}
+
+export class ServerError extends ApiError {
+  constructor(message: string, details: { status?: number; body?: unknown; url: string }) {
+    super('server', message, details);
+    this.name = 'ServerError';
+  }
+}
+
+// Thrown when a mutation could not reach the backend and was queued for replay.
+export class MutationQueuedError extends ApiError {
+  readonly label: string;
+
+  constructor(url: string, label: string) {
+    super(
+      'queued',
+      `Backend unreachable. "${label}" was saved and will be applied when the connection returns.`,
+      { url }
+    );
+    this.name = 'MutationQueuedError';
+    this.label = label;
+  }
+}
+
+// Thrown when a 2xx response does not match the schema for its endpoint.
+export class InvalidResponseError extends ApiError {
+  readonly endpoint: string;
+  readonly issues: SchemaIssue[];
+
+  constructor(url: string, endpoint: string, issues: SchemaIssue[]) {
+    const first = issues[0];
+    super(
+      'invalid-response',
+      `Unexpected response from ${endpoint}` +
+        (first ? `: ${first.path} should be ${first.expected} but was ${first.received}` : ''),
+      { url, body: issues }
+    );
+    this.name = 'InvalidResponseError';
+    this.endpoint = endpoint;
+    this.issues = issues;
+  }
+}
+
+// Backend error payloads are usually `{ error, details }`, sometimes plain text.
+export function errorMessageFromBody(body: unknown): string | null {
+  if (typeof body === 'string') return body.trim() || null;
+  if (body && typeof body === 'object') {
+    const record = body as Record<string, unknown>;
+    if (typeof record.error === 'string' && record.error) return record.error;
+    if (typeof record.message === 'string' && record.message) return record.message;
+    if (typeof record.details === 'string' && record.details) return record.details;
+  }
+  return null;
+}
+
+function isReadOnlyBody(body: unknown): boolean {
+  if (body && typeof body === 'object' && (body as Record<string, unknown>).read_only === true) {
+    return true;
+  }
+  const message = errorMessageFromBody(body);
+  return !!message && /read[- ]only/i.test(message);
+}
+
+// Parse a response body as JSON when possible, falling back to the raw text.
+export function parseErrorBody(text: string): unknown {
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+// Build the matching ApiError subclass for a non-2xx response.
+export function apiErrorFromResponse(
+  response: Pick<Response, 'status' | 'statusText'>,
+  url: string,
+  body: unknown,
+  fallbackMessage?: string
+): ApiError {
+  const { status, statusText } = response;
+  const message =
+    errorMessageFromBody(body) || fallbackMessage || `HTTP ${status}${statusText ? `: ${statusText}` : ''}`;
+  const details = { status, body, url };
+  if (isReadOnlyBody(body)) return new ReadOnlyError(message, details);
+  if (status === 401) return new UnauthorizedError(message, details);
+  if (status === 403) return new ForbiddenError(message, details);
+  if (status === 404) return new NotFoundError(message, details);
+  if (status === 409) return new ConflictError(message, details);
+  if (status >= 500) return new ServerError(message, details);
+  return new ApiError('http', message, details);
+}
+
+export function isApiError(error: unknown): error is ApiError {
+  return error instanceof ApiError;
+}
+
+export function isNotFoundError(error: unknown): error is NotFoundError {
+  return error instanceof NotFoundError;
+}
+
+// True for client errors (4xx) that will not succeed on retry.
+export function isClientError(error: unknown): boolean {
+  return error instanceof ApiError && error.status !== null && error.status >= 400 && error.status < 500;
+}
+
+export interface ErrorGuidance {
+  title: string;
+  message: string;
+  hint?: string;
+}
+
+// User-facing copy for an error, used by ErrorView and ErrorBoundary.
+export function describeError(error: unknown): ErrorGuidance {
+  const message = error instanceof Error ? error.message : String(error);
+  if (!(error instanceof ApiError)) {
+    return { title: 'Something went wrong', message };
+  }
+  switch (error.kind) {
+    case 'network':
+      return {
+        title: 'Cannot reach the Nazr backend',
+        message: `No response from ${error.url}.`,
+        hint: 'Check that the backend is running and reachable. If using Docker, confirm the container is up with: docker ps',
+      };
+    case 'timeout':
+      return {
+        title: 'The backend took too long to respond',
+        message,
+        hint: 'The server may be busy scanning or processing. Wait a moment and try again.',
+      };
+    case 'not-found':
+      return {
+        title: 'Not found',
+        message,
+        hint: 'The item may have been deleted or removed from the index. Refresh to see the latest data.',
+      };
+    case 'conflict':
+      return {
+        title: 'Conflicting change',
+        message,
+        hint: 'Another change got there first. Refresh and try again.',
+      };
+    case 'read-only':
+      return {
+        title: 'Read-only storage',
+        message,
+        hint: 'The file lives on a read-only mount. Remount the volume read-write to modify or delete originals.',
+      };
+    case 'unauthorized':
+      return {
+        title: 'Sign in required',
+        message,
+        hint: 'Your session has expired or you are not signed in. Sign in again to continue.',
+      };
+    case 'forbidden':
+      return {
+        title: 'Not allowed',
+        message,
+        hint: 'Your account does not have permission for this action. Ask an administrator to change your role.',
+      };
+    case 'queued':
+      return {
+        title: 'Change saved offline',
+        message,
+        hint: 'Pending changes are shown next to the settings button and replay automatically.',
+      };
+    case 'invalid-response':
+      return {
+        title: 'Unexpected response from the backend',
+        message,
+        hint: 'The backend and frontend versions probably do not match. Update the backend (or this app) so both run the same release.',
+      };
+    case 'server':
+      return {
+        title: `Server error${error.status ? ` (${error.status})` : ''}`,
+        message,
+        hint: 'The backend hit an internal error. Check the backend logs for details.',
+      };
+    default:
+      return {
+        title: `Request failed${error.status ? ` (${error.status})` : ''}`,
+        message,
+      };
+  }
+}
@@ -0,0 +1,220 @@
+import JSZip from 'jszip';
+import { assetApi, media } from './api';
+import { sortAlbumAssets, type Album } from './albums';
+import { captionOf, useAssetCaptionsStore } from './captions';
+import { captionSidecar, sidecarName } from './sidecar';
+import { isVideo } from './utils';
+import type { Asset } from '../types';
+
+// Packages an album as a static web gallery: `index.html` with the viewer and
+// the album data inlined (so it also opens from `file://`), previews under
+// `images/` and, optionally, the original files under `originals/`. Captioned
+// assets get an XMP sidecar next to their original, or their preview.
+
+export interface GalleryExportOptions {
+  includeOriginals: boolean;
+  onProgress?: (done: number, total: number) => void;
+}
+
+export interface GalleryExportResult {
+  blob: Blob;
+  filename: string;
+  // Assets that could not be fetched and were left out
+  skipped: number;
+}
+
+interface GalleryItem {
+  image: string;
+  original?: string;
+  caption: string;
+  description?: string; // the asset's own caption
+  video: boolean;
+}
+
+// Requests kept in flight while collecting files
+const EXPORT_CONCURRENCY = 4;
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/avif': 'avif',
+  'image/gif': 'gif',
+  'image/svg+xml': 'svg',
+};
+
+function safeName(name: string): string {
+  return name.replace(/[\\/:*?"<>|]+/g, '_').trim() || 'untitled';
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+function caption(asset: Asset): string {
+  const parts = [asset.filename];
+  if (asset.taken_at) parts.push(new Date(asset.taken_at * 1000).toLocaleDateString());
+  const camera = [asset.camera_make, asset.camera_model].filter(Boolean).join(' ');
+  if (camera) parts.push(camera);
+  return parts.join(' · ');
+}
+
+async function fetchBlob(url: string): Promise<Blob> {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+  return response.blob();
+}
+
+const VIEWER_CSS = `
+*{box-sizing:border-box}
+body{margin:0;font-family:system-ui,-apple-system,sans-serif;background:#18181b;color:#f4f4f5}
+header{padding:2rem 1.5rem 1rem;max-width:80rem;margin:0 auto}
+h1{margin:0 0 .5rem;font-size:1.75rem}
+header p{margin:0;color:#a1a1aa}
+main{display:grid;grid-template-columns:repeat(auto-fill,minmax(200px,1fr));gap:.5rem;padding:1rem 1.5rem 3rem;max-width:80rem;margin:0 auto}
+main button{position:relative;padding:0;border:0;background:#27272a;aspect-ratio:4/3;cursor:pointer;overflow:hidden;border-radius:.375rem}
+main img{width:100%;height:100%;object-fit:cover;display:block}
+main span{position:absolute;right:.375rem;bottom:.375rem;padding:0 .375rem;border-radius:.25rem;background:rgba(0,0,0,.6);color:#fff;font-size:.75rem}
+#viewer{position:fixed;inset:0;display:none;flex-direction:column;align-items:center;justify-content:center;background:rgba(0,0,0,.95)}
+#viewer.open{display:flex}
+#viewer img{max-width:100vw;max-height:calc(100vh - 5rem);object-fit:contain}
+#viewer p{margin:.75rem 1rem 0;text-align:center;color:#d4d4d8;font-size:.875rem}
+#viewer #description{max-width:48rem;color:#f4f4f5;font-size:1rem;white-space:pre-wrap}
+#viewer a{color:#93c5fd}
+#viewer button{position:absolute;border:0;background:none;color:#fff;font-size:2.5rem;cursor:pointer;padding:1rem}
+#prev{left:0;top:50%;transform:translateY(-50%)}
+#next{right:0;top:50%;transform:translateY(-50%)}
+#close{right:0;top:0}
+`;
+
+const VIEWER_JS = `
+(function () {
+  var items = GALLERY.items, current = -1;
+  var viewer = document.getElementById('viewer');
+  var image = document.getElementById('image');
+  var text = document.getElementById('caption');
+  var description = document.getElementById('description');
+  function show(i) {
+    current = (i + items.length) % items.length;
+    var item = items[current];
+    image.src = item.image;
+    image.alt = item.caption;
+    description.textContent = item.description || '';
+    description.hidden = !item.description;
+    text.textContent = item.caption + ' (' + (current + 1) + '/' + items.length + ') ';
+    if (item.original) {
+      var link = document.createElement('a');
+      link.href = item.original;
+      link.textContent = item.video ? 'Play video' : 'Original';
+      link.setAttribute('download', '');
+      text.appendChild(link);
+    }
+    viewer.classList.add('open');
+  }
+  function close() { viewer.classList.remove('open'); current = -1; }
+  document.querySelectorAll('main button').forEach(function (button, i) {
+    button.addEventListener('click', function () { show(i); });
+  });
+  document.getElementById('prev').addEventListener('click', function () { show(current - 1); });
+  document.getElementById('next').addEventListener('click', function () { show(current + 1); });
+  document.getElementById('close').addEventListener('click', close);
+  document.addEventListener('keydown', function (e) {
+    if (current < 0) return;
+    if (e.key === 'Escape') close();
+    if (e.key === 'ArrowLeft') show(current - 1);
+    if (e.key === 'ArrowRight') show(current + 1);
+  });
+})();
+`;
+
+function renderGallery(album: Album, items: GalleryItem[]): string {
+  const tiles = items
+    .map(
+      (item) =>
+        `<button type="button"><img src="${escapeHtml(item.image)}" alt="${escapeHtml(item.caption)}" loading="lazy">${
+          item.video ? '<span>Video</span>' : ''
+        }</button>`
+    )
+    .join('\n');
+  // Escaping `<` keeps captions from closing the script tag
+  const data = JSON.stringify({ items }).replace(/</g, '\\u003c');
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(album.name)}</title>
+<style>${VIEWER_CSS}</style>
+</head>
+<body>
+<header>
+<h1>${escapeHtml(album.name)}</h1>
+${album.description ? `<p>${escapeHtml(album.description)}</p>` : ''}
+<p>${items.length} ${items.length === 1 ? 'item' : 'items'}</p>
+</header>
+<main>
+${tiles}
+</main>
+<div id="viewer" role="dialog" aria-modal="true">
+<img id="image" alt="">
+<p id="description" hidden></p>
+<p id="caption"></p>
+<button id="prev" aria-label="Previous">&#8249;</button>
+<button id="next" aria-label="Next">&#8250;</button>
+<button id="close" aria-label="Close">&#215;</button>
+</div>
+<script>var GALLERY = ${data};</script>
+<script>${VIEWER_JS}</script>
+</body>
+</html>
+`;
+}
+
+export async function exportAlbumGallery(album: Album, options: GalleryExportOptions): Promise<GalleryExportResult> {
+  const zip = new JSZip();
+  const total = album.assetIds.length;
+  const fetched: Asset[] = [];
+  let done = 0;
+  let skipped = 0;
+  options.onProgress?.(0, total);
+
+  const files = new Map<number, { image: string; original?: string; description?: string }>();
+  const captions = useAssetCaptionsStore.getState().captions;
+  const collect = async (id: number) => {
+    try {
+      const asset = await assetApi.get(id);
+      const description = captionOf(asset, captions) || undefined;
+      const number = String(album.assetIds.indexOf(id) + 1).padStart(4, '0');
+      const preview = await fetchBlob(media.previewUrl(asset.id, asset.sha256));
+      const image = `images/${number}.${EXTENSIONS[preview.type] ?? 'jpg'}`;
+      zip.file(image, preview);
+      let original: string | undefined;
+      if (options.includeOriginals) {
+        original = `originals/${number}-${safeName(asset.filename)}`;
+        zip.file(original, await (await assetApi.fetchOriginal(asset.id)).blob());
+      }
+      if (description) zip.file(sidecarName(original ?? image), captionSidecar(description));
+      files.set(asset.id, { image, original, description });
+      fetched.push(asset);
+    } catch (error) {
+      console.error(`Failed to export asset ${id}:`, error);
+      skipped++;
+    } finally {
+      options.onProgress?.(++done, total);
+    }
+  };
+
+  for (let i = 0; i < total; i += EXPORT_CONCURRENCY) {
+    await Promise.all(album.assetIds.slice(i, i + EXPORT_CONCURRENCY).map(collect));
+  }
+
+  // Same order the album shows in the app
+  const items = sortAlbumAssets(album, fetched).flatMap((asset) => {
+    const file = files.get(asset.id);
+    return file ? [{ ...file, caption: caption(asset), video: isVideo(asset.mime) }] : [];
+  });
+  zip.file('index.html', renderGallery(album, items));
+
+  const blob = await zip.generateAsync({ type: 'blob' });
+  return { blob, filename: `${safeName(album.name)}-gallery.zip`, skipped };
+}
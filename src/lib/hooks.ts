@@ -6,25 +6,29 @@ import {
 } from '@tanstack/react-query';
 import { useEffect, useState } from 'react';
 import { api } from './api';
+import { InvalidResponseError, NetworkError, isClientError } from './errors';
 import { DEFAULT_PAGE_SIZE, STATS_POLL_MS } from './config';
-import type { Asset, Paginated, Stats, SearchResult } from '../types';
+import { useServerProfileStore } from './serverProfiles';
+import { hasSearchFilters } from './searchFilters';
+import { useLiveUpdatesStore } from './liveUpdates';
+import type { Asset, Paginated, PersonSummary, Stats, SearchResult, SearchFilters } from '../types';
 
 // Configure QueryClient with retry logic and better error handling
-export const queryClient = new QueryClient({
+const createQueryClient = () => new QueryClient({
   defaultOptions: {
     queries: {
       // Retry on network errors with exponential backoff
-      retry: (failureCount, error: any) => {
-        // Don't retry on connection refused (backend not running)
-        if (error instanceof Error && (
-          error.message.includes('ERR_CONNECTION_REFUSED') ||
-          error.message.includes('Failed to fetch') ||
-          error.message.includes('Cannot connect')
-        )) {
+      retry: (failureCount, error) => {
+        // Don't retry when the backend is unreachable (not running)
+        if (error instanceof NetworkError) {
           return false;
         }
         // Don't retry on 4xx errors (client errors)
-        if (error instanceof Error && error.message.includes('HTTP 4')) {
+        if (isClientError(error)) {
+          return false;
+        }
+        // A malformed payload will be just as malformed on the next attempt
+        if (error instanceof InvalidResponseError) {
           return false;
         }
         // Only retry once for network errors to reduce noise
@@ -42,6 +46,19 @@ export const queryClient = new QueryClient({
     },
   },
 });
+
+// One cache per server profile so data from one backend never shows up under another
+const queryClients = new Map<string, QueryClient>();
+
+export function getQueryClient(profileId: string = useServerProfileStore.getState().activeId): QueryClient {
+  let client = queryClients.get(profileId);
+  if (!client) {
+    client = createQueryClient();
+    queryClients.set(profileId, client);
+  }
+  return client;
+}
+
 export const QueryProvider = QueryClientProvider;
 
 export function usePageVisibility() {
@@ -62,18 +79,34 @@ export function usePageVisibility() {
 
 export function useStats() {
   const isVisible = usePageVisibility();
+  const liveMode = useLiveUpdatesStore((s) => s.mode);
   return useQuery<Stats>({
     queryKey: ['stats'],
     queryFn: api.stats,
     enabled: isVisible,
     refetchInterval: (query) => {
-      if (!isVisible || query.state.error) return false;
+      // The live stream pushes stats while it is connected
+      if (!isVisible || query.state.error || liveMode === 'stream') return false;
       return STATS_POLL_MS;
     },
     retry: 1, // Reduce retries
   });
 }
 
+// Module-level so React Query can memoize the selected Map between renders
+const summariesById = (summaries: PersonSummary[]) => new Map(summaries.map((s) => [s.person_id, s]));
+
+// Asset counts, cover faces and date ranges for every person, in one request
+export function usePersonSummaries(enabled: boolean = true) {
+  return useQuery({
+    queryKey: ['personSummaries'],
+    queryFn: () => api.getPersonSummaries(),
+    enabled,
+    staleTime: 30000,
+    select: summariesById,
+  });
+}
+
 export function useAssetsInfinite(params: {
   sort?: 'mtime' | 'taken_at' | 'filename' | 'size_bytes' | 'none';
   order?: 'asc' | 'desc';
@@ -137,13 +170,8 @@ export function useAssetsInfinite(params: {
   });
 }
 
-export function useSearchInfinite(params: {
+export function useSearchInfinite(params: SearchFilters & {
   q: string;
-  from?: string;
-  to?: string;
-  camera_make?: string;
-  camera_model?: string;
-  platformType?: string;
   pageSize?: number;
   enabled?: boolean;
 }) {
@@ -157,7 +185,8 @@ export function useSearchInfinite(params: {
     // their logical parameters match.
     queryKey: ['search', queryParams],
     initialPageParam: 0,
-    enabled: enabled && !!queryParams.q,
+    // Filter-only queries such as `camera:canon` have no free text
+    enabled: enabled && (!!queryParams.q || hasSearchFilters(queryParams)),
     staleTime: 5_000,
     gcTime: 30_000,
     refetchOnWindowFocus: false,
@@ -170,3 +199,16 @@ export function useSearchInfinite(params: {
   });
 }
 
+
+// Facet counts over every match of a search; null when the backend has no facets
+export function useSearchResultFacets(params: SearchFilters & { q: string; enabled?: boolean }) {
+  const isVisible = usePageVisibility();
+  const { enabled: enabledInput, ...queryParams } = params;
+  return useQuery({
+    queryKey: ['searchResultFacets', queryParams],
+    queryFn: () => api.searchResultFacets(queryParams),
+    enabled: (enabledInput ?? true) && isVisible && (!!queryParams.q || hasSearchFilters(queryParams)),
+    staleTime: 30_000,
+    refetchOnWindowFocus: false,
+  });
+}
@@ -0,0 +1,134 @@
+import { useEffect } from 'react';
+import { useQueryClient, type QueryClient, type QueryKey } from '@tanstack/react-query';
+import { create } from 'zustand';
+import { MOCK_BACKEND } from './config';
+import { getApiBaseUrl } from './serverProfiles';
+import { useAuthStore, withAuthToken } from './auth';
+import * as schemas from './schemas';
+import { objectOf, str, useSchemaViolationStore, validate, type Schema } from './validation';
+
+// Push channel for scan, processing, queue and face-detection progress. The
+// backend streams Server-Sent Events from `/events`; each event is written
+// straight into the React Query cache under the key its polling query uses.
+// While the stream is down, those queries fall back to their own intervals.
+
+export type LiveMode = 'connecting' | 'stream' | 'polling';
+
+interface LiveUpdatesState {
+  mode: LiveMode;
+  setMode: (mode: LiveMode) => void;
+}
+
+export const useLiveUpdatesStore = create<LiveUpdatesState>((set) => ({
+  mode: 'connecting',
+  setMode: (mode) => set({ mode }),
+}));
+
+// How long to stay on polling before trying the stream again
+const STREAM_RETRY_MS = 60000;
+
+interface LiveEvent {
+  schema: Schema;
+  key: (data: Record<string, unknown>) => QueryKey;
+  value?: (data: Record<string, unknown>) => unknown;
+}
+
+const pathStatusEventSchema: Schema = (value, path) => [
+  ...objectOf({ path: str })(value, path),
+  ...schemas.pathStatusSchema(value, path),
+];
+
+const EVENTS: Record<string, LiveEvent> = {
+  stats: { schema: schemas.statsSchema, key: () => ['stats'] },
+  performance: { schema: schemas.performanceSchema, key: () => ['performance'] },
+  path_status: {
+    schema: pathStatusEventSchema,
+    key: (data) => ['pathStatus', data.path],
+    value: ({ scanning, watcher_paused, watching }) => ({ scanning, watcher_paused, watching }),
+  },
+  face_status: { schema: schemas.faceStatusSchema, key: () => ['faceDetectionStatus'] },
+  face_progress: { schema: schemas.faceProgressSchema, key: () => ['faceProgress'] },
+};
+
+function applyEvent(queryClient: QueryClient, type: string, raw: string) {
+  const event = EVENTS[type];
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return;
+  }
+  const issues = validate(event.schema, data);
+  if (issues.length > 0) {
+    useSchemaViolationStore.getState().report(`SSE ${type}`, issues);
+    return;
+  }
+  const record = data as Record<string, unknown>;
+  queryClient.setQueryData(event.key(record), event.value ? event.value(record) : record);
+}
+
+// Open the stream for the active server. Mounted once inside the per-server
+// query scope, so switching servers reconnects to the new backend; signing
+// in or out reconnects with the new token.
+export function useLiveUpdates(enabled: boolean = true) {
+  const queryClient = useQueryClient();
+  const setMode = useLiveUpdatesStore((s) => s.setMode);
+  const token = useAuthStore((s) => s.session?.token);
+
+  useEffect(() => {
+    // The in-browser mock cannot serve EventSource connections
+    if (!enabled || MOCK_BACKEND || typeof EventSource === 'undefined') {
+      setMode('polling');
+      return;
+    }
+
+    let source: EventSource | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const disconnect = () => {
+      source?.close();
+      source = null;
+      if (retryTimer) clearTimeout(retryTimer);
+      retryTimer = null;
+    };
+
+    const connect = () => {
+      disconnect();
+      setMode('connecting');
+      // EventSource cannot send headers, so the token goes in the URL like media URLs
+      const es = new EventSource(withAuthToken(`${getApiBaseUrl()}/events`));
+      source = es;
+      es.onopen = () => setMode('stream');
+      es.onerror = () => {
+        // EventSource retries dropped connections by itself; poll meanwhile.
+        // A CLOSED source means the backend has no stream endpoint.
+        setMode('polling');
+        if (es.readyState === EventSource.CLOSED) {
+          source = null;
+          retryTimer = setTimeout(connect, STREAM_RETRY_MS);
+        }
+      };
+      for (const type of Object.keys(EVENTS)) {
+        es.addEventListener(type, (e) => applyEvent(queryClient, type, (e as MessageEvent<string>).data));
+      }
+    };
+
+    // Hidden tabs drop the connection, like the polling queries they replace
+    const handleVisibility = () => {
+      if (document.hidden) {
+        disconnect();
+      } else if (!source) {
+        connect();
+      }
+    };
+
+    if (!document.hidden) connect();
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibility);
+      disconnect();
+      setMode('connecting');
+    };
+  }, [queryClient, setMode, enabled, token]);
+}
+
@@ -0,0 +1,768 @@
+import type { Asset, FileTypesResponse, Stats } from '../types';
+import { MOCK_LIBRARY_SIZE, MOCK_SEED } from './config';
+import { createMockLibrary, type MockLibrary } from './mockLibrary';
+import { mockAssetSvg } from './mockImages';
+import { applyFlagChanges, isFavorite, ratingOf } from './assetFlags';
+import { applyTagChanges, normalizeTag } from './tagNames';
+import { getApiBaseUrl } from './serverProfiles';
+
+// In-browser stand-in for the nazr backend. `send()` in api.ts routes every
+// request here when MOCK_BACKEND is enabled. State lives in memory and is
+// regenerated from the seed on reload.
+
+const LATENCY_MS = 80;
+const startedAt = Date.now();
+
+let library: MockLibrary | null = null;
+let faceSettings: Record<string, unknown> = {
+  confidence_threshold: 0.6,
+  nms_iou_threshold: 0.4,
+  cluster_epsilon: 0.5,
+  min_cluster_size: 3,
+  min_samples: 2,
+  excluded_extensions: [],
+};
+
+function db(): MockLibrary {
+  if (!library) library = createMockLibrary(MOCK_LIBRARY_SIZE, MOCK_SEED);
+  return library;
+}
+
+const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+function json(data: unknown, status: number = 200): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { 'content-type': 'application/json' },
+  });
+}
+
+function notFound(what: string): Response {
+  return json({ error: `${what} not found` }, 404);
+}
+
+function findAsset(id: number): Asset | undefined {
+  return db().assets.find((a) => a.id === id);
+}
+
+function paginate<T>(items: T[], params: URLSearchParams) {
+  const offset = Number(params.get('offset') ?? 0);
+  const limit = Number(params.get('limit') ?? 200);
+  return { total: items.length, items: items.slice(offset, offset + limit) };
+}
+
+function sortAssets(assets: Asset[], sort: string | null, order: string | null): Asset[] {
+  const dir = order === 'asc' ? 1 : -1;
+  const key = (a: Asset): number | string => {
+    switch (sort) {
+      case 'mtime':
+        return a.mtime_ns;
+      case 'taken_at':
+        return a.taken_at ?? a.mtime_ns / 1_000_000_000;
+      case 'filename':
+        return a.filename.toLowerCase();
+      case 'size_bytes':
+        return a.size_bytes;
+      default:
+        return a.id;
+    }
+  };
+  return [...assets].sort((a, b) => {
+    const ka = key(a);
+    const kb = key(b);
+    return ka < kb ? -dir : ka > kb ? dir : 0;
+  });
+}
+
+function globToRegExp(glob: string): RegExp {
+  const escaped = glob.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+  return new RegExp(`^${escaped}$`, 'i');
+}
+
+function detectPlatform(asset: Asset): string | null {
+  if (/-WA\d+\./i.test(asset.filename)) return 'whatsapp';
+  if (/^PXL_/i.test(asset.filename)) return 'pxl';
+  return null;
+}
+
+const SEARCH_FILTER_PARAMS = [
+  'from',
+  'to',
+  'camera_make',
+  'camera_model',
+  'platform_type',
+  'min_size',
+  'max_size',
+  'file_types',
+  'lens',
+  'ext',
+  'person',
+  'album',
+  'folder',
+  'min_duration',
+  'max_duration',
+  'favorite',
+  'min_rating',
+  'tag',
+];
+
+// Asset ids for a person or album given by name, matched case-insensitively
+function assetIdsNamed(kind: 'person' | 'album', name: string | null): Set<number> | null {
+  if (!name) return null;
+  const lib = db();
+  const wanted = name.toLowerCase();
+  if (kind === 'album') {
+    return new Set(lib.albums.filter((a) => a.name.toLowerCase() === wanted).flatMap((a) => a.asset_ids));
+  }
+  const personIds = new Set(lib.persons.filter((p) => p.name?.toLowerCase() === wanted).map((p) => p.id));
+  return new Set(lib.faces.filter((f) => f.person_id !== null && personIds.has(f.person_id)).map((f) => f.asset_id));
+}
+
+type SearchBuckets = Record<'filename' | 'dirname' | 'path' | 'caption', Asset[]>;
+
+// Every asset matching a search, grouped by where the text matched
+function searchBuckets(params: URLSearchParams): SearchBuckets {
+  const q = (params.get('q') ?? '').trim().toLowerCase();
+  const tokens = q.split(/\s+/).filter(Boolean);
+  const globs = tokens.filter((t) => t.includes('*') || t.includes('?')).map(globToRegExp);
+  const text = tokens.filter((t) => !t.includes('*') && !t.includes('?')).join(' ');
+  const from = params.get('from') ? Date.parse(params.get('from')!) / 1000 : null;
+  const to = params.get('to') ? Date.parse(params.get('to')!) / 1000 + 86400 : null;
+  const make = params.get('camera_make')?.toLowerCase();
+  const model = params.get('camera_model')?.toLowerCase();
+  const platform = params.get('platform_type');
+  const minSize = params.get('min_size') ? Number(params.get('min_size')) : null;
+  const maxSize = params.get('max_size') ? Number(params.get('max_size')) : null;
+  const fileTypes = params.get('file_types')?.split(',').filter(Boolean) ?? [];
+  const lens = params.get('lens')?.toLowerCase();
+  const exts = params.get('ext')?.split(',').filter(Boolean) ?? [];
+  const minDuration = params.get('min_duration') ? Number(params.get('min_duration')) : null;
+  const maxDuration = params.get('max_duration') ? Number(params.get('max_duration')) : null;
+  const personAssets = assetIdsNamed('person', params.get('person'));
+  const albumAssets = assetIdsNamed('album', params.get('album'));
+  const folder = params.get('folder');
+  const favorite = params.get('favorite') === '1';
+  const minRating = params.get('min_rating') ? Number(params.get('min_rating')) : null;
+  const tag = params.get('tag') ? normalizeTag(params.get('tag')!) : null;
+
+  const buckets: SearchBuckets = { filename: [], dirname: [], path: [], caption: [] };
+  for (const asset of db().assets) {
+    if (globs.length && !globs.every((re) => re.test(asset.filename))) continue;
+    const ts = asset.taken_at ?? asset.mtime_ns / 1_000_000_000;
+    if (from !== null && ts < from) continue;
+    if (to !== null && ts >= to) continue;
+    if (make && asset.camera_make?.toLowerCase() !== make) continue;
+    if (model && asset.camera_model?.toLowerCase() !== model) continue;
+    if (platform && detectPlatform(asset) !== platform) continue;
+    if (minSize !== null && asset.size_bytes < minSize) continue;
+    if (maxSize !== null && asset.size_bytes > maxSize) continue;
+    if (fileTypes.length && !fileTypes.some((t) => (t.includes('/') ? asset.mime.startsWith(t) : asset.mime.includes(t)))) {
+      continue;
+    }
+    if (lens && !asset.lens_model?.toLowerCase().includes(lens)) continue;
+    if (exts.length && !exts.includes(asset.ext.replace(/^\./, '').toLowerCase())) continue;
+    const seconds = (asset.duration_ms ?? 0) / 1000;
+    if (minDuration !== null && seconds < minDuration) continue;
+    if (maxDuration !== null && seconds > maxDuration) continue;
+    if (personAssets && !personAssets.has(asset.id)) continue;
+    if (albumAssets && !albumAssets.has(asset.id)) continue;
+    if (folder && !asset.dirname.startsWith(folder)) continue;
+    if (favorite && !isFavorite(asset.flags)) continue;
+    if (minRating !== null && ratingOf(asset.flags) < minRating) continue;
+    if (tag && !asset.tags?.includes(tag)) continue;
+    if (!text) {
+      buckets.filename.push(asset);
+    } else if (asset.filename.toLowerCase().includes(text)) {
+      buckets.filename.push(asset);
+    } else if (asset.dirname.toLowerCase().includes(text)) {
+      buckets.dirname.push(asset);
+    } else if (asset.path.toLowerCase().includes(text)) {
+      buckets.path.push(asset);
+    } else if (asset.caption?.toLowerCase().includes(text)) {
+      buckets.caption.push(asset);
+    }
+  }
+  return buckets;
+}
+
+function search(params: URLSearchParams) {
+  const buckets = searchBuckets(params);
+  const ordered = [...buckets.filename, ...buckets.dirname, ...buckets.path, ...buckets.caption];
+  return {
+    ...paginate(ordered, params),
+    match_counts: {
+      filename: buckets.filename.length,
+      dirname: buckets.dirname.length,
+      path: buckets.path.length,
+      caption: buckets.caption.length,
+    },
+    applied_filters: SEARCH_FILTER_PARAMS.filter((key) => params.has(key)),
+  };
+}
+
+// Most common values first
+function countValues(values: Array<string | null | undefined>, limit: number = Infinity) {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    if (value) counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+  return [...counts]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, limit)
+    .map(([value, count]) => ({ value, count }));
+}
+
+function searchResultFacets(params: URLSearchParams) {
+  const { filename, dirname, path, caption } = searchBuckets(params);
+  const assets = [...filename, ...dirname, ...path, ...caption];
+  const lib = db();
+  const names = new Map(lib.persons.map((p) => [p.id, p.name]));
+  const assetIds = new Set(assets.map((a) => a.id));
+  // One entry per asset and person, however many faces of them it has
+  const assetPersons = new Set(
+    lib.faces
+      .filter((f) => f.person_id !== null && assetIds.has(f.asset_id))
+      .map((f) => `${f.asset_id}:${f.person_id}`)
+  );
+  return {
+    camera_makes: countValues(assets.map((a) => a.camera_make)),
+    camera_models: countValues(assets.map((a) => a.camera_model)),
+    lenses: countValues(assets.map((a) => a.lens_model)),
+    years: countValues(
+      assets.map((a) => String(new Date((a.taken_at ?? a.mtime_ns / 1_000_000_000) * 1000).getUTCFullYear()))
+    ),
+    file_types: countValues(assets.map((a) => a.mime)),
+    platform_types: countValues(assets.map(detectPlatform)),
+    persons: countValues([...assetPersons].map((key) => names.get(Number(key.split(':')[1])))),
+  };
+}
+
+function facets(params: URLSearchParams) {
+  const q = (params.get('q') ?? '').toLowerCase();
+  const limit = Number(params.get('limit') ?? 20);
+  const count = (values: Array<string | undefined>) =>
+    countValues(values.filter((value) => value?.toLowerCase().includes(q)), limit);
+  const { assets } = db();
+  return {
+    camera_makes: count(assets.map((a) => a.camera_make)),
+    camera_models: count(assets.map((a) => a.camera_model)),
+    lenses: count(assets.map((a) => a.lens_model)),
+    dirnames: count(assets.map((a) => a.dirname)),
+  };
+}
+
+function duplicates(params: URLSearchParams) {
+  const groups = new Map<string, Asset[]>();
+  for (const asset of db().assets) {
+    if (!asset.sha256) continue;
+    groups.set(asset.sha256, [...(groups.get(asset.sha256) ?? []), asset]);
+  }
+  const list = [...groups.entries()]
+    .filter(([, assets]) => assets.length > 1)
+    .map(([sha256, assets]) => ({ sha256, size_bytes: assets[0].size_bytes, assets }))
+    .sort((a, b) => b.size_bytes * (b.assets.length - 1) - a.size_bytes * (a.assets.length - 1));
+  const { total, items } = paginate(list, params);
+  return { total, groups: items };
+}
+
+function stats(): Stats {
+  const { assets } = db();
+  const bytes = assets.reduce((sum, a) => sum + a.size_bytes, 0);
+  return {
+    uptime_seconds: Math.floor((Date.now() - startedAt) / 1000),
+    queues: { discover: 0, hash: 0, metadata: 0, db_write: 0, thumb: 0 },
+    processed: { files_total: assets.length, files_per_sec: 0, bytes_total: bytes, mb_per_sec: 0 },
+    scan_running: false,
+    processing_active: false,
+    discovery: { files_discovered: assets.length, rate_files_per_sec: 0 },
+    processing: { files_committed: assets.length, bytes_total: bytes, rate_files_per_sec: 0 },
+    current_scan: null,
+    completion: { percentage: 100 },
+    db: { assets: assets.length },
+  };
+}
+
+function fileTypes(): FileTypesResponse {
+  const counts: Record<string, number> = {};
+  for (const asset of db().assets) counts[asset.mime] = (counts[asset.mime] ?? 0) + 1;
+  return counts;
+}
+
+function faceProgress() {
+  const { faces, persons } = db();
+  return {
+    enabled: true,
+    queue_depth: 0,
+    models_loaded: { scrfd: true, arcface: true },
+    counts: {
+      faces_total: faces.length,
+      persons_total: persons.length,
+      assets_with_faces: new Set(faces.map((f) => f.asset_id)).size,
+    },
+    thresholds: { cluster_batch_size: 100, remaining_to_next_cluster: 0 },
+    status: 'idle',
+  };
+}
+
+function personAssetIds(personId: number): number[] {
+  return Array.from(new Set(db().faces.filter((f) => f.person_id === personId).map((f) => f.asset_id)));
+}
+
+function personSummary(personId: number) {
+  const faces = db().faces.filter((f) => f.person_id === personId);
+  const takenAt = personAssetIds(personId)
+    .map((id) => findAsset(id)?.taken_at)
+    .filter((t): t is number => typeof t === 'number');
+  return {
+    person_id: personId,
+    asset_count: new Set(faces.map((f) => f.asset_id)).size,
+    face_count: faces.length,
+    cover_face_id: faces[0]?.id ?? null,
+    first_seen: takenAt.length > 0 ? Math.min(...takenAt) : null,
+    last_seen: takenAt.length > 0 ? Math.max(...takenAt) : null,
+  };
+}
+
+function removeAssets(ids: number[]) {
+  const lib = db();
+  const set = new Set(ids);
+  lib.assets = lib.assets.filter((a) => !set.has(a.id));
+  lib.faces = lib.faces.filter((f) => !set.has(f.asset_id));
+  for (const album of lib.albums) {
+    album.asset_ids = album.asset_ids.filter((id) => !set.has(id));
+    if (album.cover_asset_id != null && set.has(album.cover_asset_id)) album.cover_asset_id = null;
+  }
+}
+
+function browse(path: string | null) {
+  const dirs = new Set<string>();
+  for (const asset of db().assets) {
+    const parts = asset.dirname.split('/').filter(Boolean);
+    for (let i = 1; i <= parts.length; i++) dirs.add(`/${parts.slice(0, i).join('/')}`);
+  }
+  const base = path && path !== '/' ? path.replace(/\/$/, '') : '';
+  const entries = Array.from(dirs)
+    .filter((d) => d.startsWith(`${base}/`) && !d.slice(base.length + 1).includes('/'))
+    .sort()
+    .map((d) => ({ name: d.slice(base.length + 1), path: d, is_dir: true }));
+  return { path: base || '/', entries };
+}
+
+type Body = Record<string, unknown> | null;
+type Handler = (match: RegExpMatchArray, params: URLSearchParams, body: Body) => Response;
+
+const routes: Array<[string, RegExp, Handler]> = [
+  // Any non-empty username signs in; the mock never requires auth
+  ['POST', /^\/auth\/login$/, (_m, _p, body) => {
+    const username = String(body?.username ?? '').trim();
+    if (!username) return json({ error: 'Username is required' }, 401);
+    // Sign in as "viewer" or "editor" to try the restricted roles
+    const role = username === 'viewer' || username === 'editor' ? username : 'admin';
+    return json({ token: `mock-${username}`, username, expires_at: nowSeconds() + 12 * 3600, role });
+  }],
+  ['POST', /^\/auth\/logout$/, () => json({ success: true })],
+  ['GET', /^\/health$/, () =>
+    json({ status: 'ok', version: '0.9.0-mock', database: 'memory', backend_libraries: ['nazr mock backend (in-browser)'] })],
+  ['GET', /^\/stats$/, () => json(stats())],
+  ['POST', /^\/stats\/reset$/, () => json({ success: true, message: 'Stats reset' })],
+  ['GET', /^\/file-types$/, () => json(fileTypes())],
+  ['GET', /^\/performance$/, () =>
+    json({
+      nazr: { files_per_sec: 0, current_rate: 0, mb_per_sec: 0, status: 'idle', is_active: false },
+      system_info: { cpu_cores: navigator.hardwareConcurrency || 4, cpu_brand: 'Mock CPU', accel: 'none', note: 'Mock backend' },
+      gpu_usage: { enabled: false, accel: 'none', jobs_gpu: 0, jobs_cpu: 0, consecutive_failures: 0, auto_disabled: false },
+      typical_ranges: {},
+      notes: ['Serving a synthetic library from the in-browser mock backend.'],
+    })],
+
+  // Assets
+  ['GET', /^\/assets$/, (_m, p) => {
+    let items = db().assets;
+    const personId = p.get('person_id');
+    if (personId) {
+      const ids = new Set(personAssetIds(Number(personId)));
+      items = items.filter((a) => ids.has(a.id));
+    }
+    return json(paginate(sortAssets(items, p.get('sort'), p.get('order')), p));
+  }],
+  ['GET', /^\/assets\/search$/, (_m, p) => json(search(p))],
+  ['GET', /^\/assets\/facets$/, (_m, p) => json(facets(p))],
+  ['GET', /^\/assets\/search\/facets$/, (_m, p) => json(searchResultFacets(p))],
+  ['GET', /^\/assets\/duplicates$/, (_m, p) => json(duplicates(p))],
+  ['POST', /^\/assets\/resolve$/, (_m, _p, body) => {
+    const items = (body?.items as Array<{ path?: string; sha256?: string }> | undefined) ?? [];
+    const assets = db().assets;
+    const byHash = new Map(assets.flatMap((a) => (a.sha256 ? [[a.sha256, a.id] as const] : [])));
+    const byPath = new Map(assets.map((a) => [a.path, a.id]));
+    return json({
+      ids: items.map((item) => (item.sha256 && byHash.get(item.sha256)) ?? (item.path && byPath.get(item.path)) ?? null),
+    });
+  }],
+  ['POST', /^\/assets\/permanent$/, (_m, _p, body) => {
+    const ids = (body?.ids as number[] | undefined) ?? [];
+    removeAssets(ids);
+    return json({
+      success: true,
+      results: ids.map((id) => ({ id, deleted: true, read_only: false })),
+      read_only_failures: [],
+    });
+  }],
+  ['GET', /^\/assets\/(\d+)\/faces$/, (m) =>
+    json(
+      db().faces
+        .filter((f) => f.asset_id === Number(m[1]))
+        .map((f) => ({ id: f.id, person_id: f.person_id, bbox_json: JSON.stringify(f.bbox), confidence: f.confidence }))
+    )],
+  ['GET', /^\/asset\/(\d+)$/, (m) => {
+    const asset = findAsset(Number(m[1]));
+    return asset ? json(asset) : notFound('Asset');
+  }],
+  ['DELETE', /^\/asset\/(\d+)$/, (m) => {
+    if (!findAsset(Number(m[1]))) return notFound('Asset');
+    removeAssets([Number(m[1])]);
+    return json({ success: true });
+  }],
+  ['DELETE', /^\/asset\/(\d+)\/permanent$/, (m) => {
+    const asset = findAsset(Number(m[1]));
+    if (!asset) return notFound('Asset');
+    removeAssets([asset.id]);
+    return json({ success: true, deleted_from_disk: true, read_only: false, path: asset.path });
+  }],
+  ['GET', /^\/asset\/(\d+)\/download$/, (m) => {
+    const asset = findAsset(Number(m[1]));
+    if (!asset) return notFound('Asset');
+    const name = asset.filename.replace(/\.[^.]+$/, '.svg');
+    return new Response(mockAssetSvg(asset.id, 2048), {
+      headers: { 'content-type': 'image/svg+xml', 'Content-Disposition': `attachment; filename="${name}"` },
+    });
+  }],
+  ['GET', /^\/asset\/(\d+)\/audio\.mp3$/, () =>
+    json({ error: 'Audio extraction is not available in the mock backend' }, 501)],
+  ['PUT', /^\/assets\/flags$/, (_m, _p, body) => {
+    const ids: unknown = body?.asset_ids;
+    if (!Array.isArray(ids)) return json({ error: 'asset_ids is required' }, 400);
+    const changes = {
+      favorite: typeof body?.favorite === 'boolean' ? body.favorite : undefined,
+      rating: typeof body?.rating === 'number' ? body.rating : undefined,
+    };
+    const assets = ids.flatMap((id) => {
+      const asset = findAsset(Number(id));
+      if (!asset) return [];
+      asset.flags = applyFlagChanges(asset.flags, changes);
+      return [{ id: asset.id, flags: asset.flags }];
+    });
+    return json({ assets });
+  }],
+  ['PUT', /^\/assets\/tags$/, (_m, _p, body) => {
+    const ids: unknown = body?.asset_ids;
+    if (!Array.isArray(ids)) return json({ error: 'asset_ids is required' }, 400);
+    const list = (value: unknown) => (Array.isArray(value) ? value.filter((t): t is string => typeof t === 'string') : []);
+    const changes = { add: list(body?.add), remove: list(body?.remove) };
+    const assets = ids.flatMap((id) => {
+      const asset = findAsset(Number(id));
+      if (!asset) return [];
+      asset.tags = applyTagChanges(asset.tags ?? [], changes);
+      return [{ id: asset.id, tags: asset.tags }];
+    });
+    return json({ assets });
+  }],
+  ['GET', /^\/tags$/, () => {
+    const counts = countValues(db().assets.flatMap((a) => a.tags ?? []));
+    return json({ tags: counts.map(({ value, count }) => ({ name: value, count })) });
+  }],
+  ['PUT', /^\/asset\/(\d+)\/caption$/, (m, _p, body) => {
+    const asset = findAsset(Number(m[1]));
+    if (!asset) return notFound('Asset');
+    asset.caption = String(body?.caption ?? '').trim() || null;
+    return json({ id: asset.id, caption: asset.caption });
+  }],
+  ['POST', /^\/asset\/(\d+)\/orientation$/, (m) =>
+    findAsset(Number(m[1])) ? json({ success: true }) : notFound('Asset')],
+
+  // Scan paths
+  ['GET', /^\/paths$/, () =>
+    json(db().paths.map((p) => ({ path: p.path, is_default: p.is_default, host_path: p.host_path })))],
+  ['POST', /^\/paths$/, (_m, _p, body) => {
+    const path = String(body?.path ?? '');
+    if (!path) return json({ error: 'path is required' }, 400);
+    if (db().paths.some((p) => p.path === path)) return json({ error: 'Path already added' }, 409);
+    db().paths.push({ path, is_default: false, host_path: null, paused: false });
+    return json({ success: true, message: `Added ${path}` });
+  }],
+  ['DELETE', /^\/paths$/, (_m, p) => {
+    const path = p.get('path') ?? '';
+    const lib = db();
+    const removed = lib.assets.filter((a) => a.path.startsWith(`${path}/`)).map((a) => a.id);
+    const facesBefore = lib.faces.length;
+    removeAssets(removed);
+    lib.paths = lib.paths.filter((entry) => entry.path !== path);
+    return json({
+      success: true,
+      path_removed: true,
+      assets_deleted: removed.length,
+      faces_deleted: facesBefore - lib.faces.length,
+      message: `Removed ${path}`,
+    });
+  }],
+  ['POST', /^\/paths\/scan$/, () => json({ success: true, message: 'Scan complete (mock library is static)' })],
+  ['POST', /^\/paths\/(pause|resume)$/, (m, _p, body) => {
+    const entry = db().paths.find((p) => p.path === body?.path);
+    if (!entry) return notFound('Path');
+    entry.paused = m[1] === 'pause';
+    return json({ success: true, message: `Watcher ${entry.paused ? 'paused' : 'resumed'}` });
+  }],
+  ['GET', /^\/paths\/status$/, (_m, p) => {
+    const entry = db().paths.find((e) => e.path === p.get('path'));
+    return json({ scanning: false, watcher_paused: entry?.paused ?? false, watching: !!entry });
+  }],
+  ['GET', /^\/browse$/, (_m, p) => json(browse(p.get('path')))],
+  ['DELETE', /^\/clear$/, () => {
+    const lib = db();
+    const counts = { assets: lib.assets.length, faces: lib.faces.length, persons: lib.persons.length };
+    lib.assets = [];
+    lib.faces = [];
+    lib.persons = [];
+    lib.albums = [];
+    lib.albumFolders = [];
+    return json({
+      success: true,
+      assets_deleted: counts.assets,
+      faces_deleted: counts.faces,
+      persons_deleted: counts.persons,
+      message: 'All data cleared',
+    });
+  }],
+
+  // Faces
+  ['GET', /^\/faces\/unassigned$/, (_m, p) => {
+    const offset = Number(p.get('offset') ?? 0);
+    const limit = Number(p.get('limit') ?? 60);
+    const faces = db().faces.filter((f) => f.person_id === null).slice(offset, offset + limit);
+    return json({ faces: faces.map(({ id, asset_id, bbox, confidence }) => ({ id, asset_id, bbox, confidence })) });
+  }],
+  ['POST', /^\/faces\/(\d+)\/assign$/, (m, _p, body) => {
+    const face = db().faces.find((f) => f.id === Number(m[1]));
+    if (!face) return notFound('Face');
+    face.person_id = (body?.person_id as number | null | undefined) ?? null;
+    return json({ success: true });
+  }],
+  ['POST', /^\/faces\/detect$/, () => json({ status: 'ok', message: 'Face detection complete' })],
+  ['POST', /^\/faces\/stop$/, () => json({ status: 'ok', message: 'Face detection stopped' })],
+  ['GET', /^\/faces\/status$/, () => json({ enabled: true, queue_depth: 0 })],
+  ['GET', /^\/faces\/progress$/, () => json(faceProgress())],
+  ['DELETE', /^\/faces\/clear$/, () => {
+    const lib = db();
+    const counts = { faces: lib.faces.length, persons: lib.persons.length };
+    lib.faces = [];
+    lib.persons = [];
+    return json({ success: true, faces_deleted: counts.faces, persons_deleted: counts.persons, message: 'Facial data cleared' });
+  }],
+  ['GET', /^\/faces\/settings$/, () => json(faceSettings)],
+  ['POST', /^\/faces\/settings$/, (_m, _p, body) => {
+    faceSettings = { ...faceSettings, ...body };
+    return json({ status: 'ok' });
+  }],
+  ['POST', /^\/faces\/smart-merge$/, () =>
+    json({ success: true, persons_merged: 0, faces_merged: 0, remaining_persons: db().persons.length })],
+  ['POST', /^\/faces\/recluster\/person\/(\d+)$/, (m) => {
+    const personId = Number(m[1]);
+    const faceCount = db().faces.filter((f) => f.person_id === personId).length;
+    return json({ success: true, profile: { person_id: personId, face_count: faceCount, centroid_dim: 512 } });
+  }],
+
+  // Persons
+  ['GET', /^\/persons$/, () => json(db().persons)],
+  ['GET', /^\/persons\/summary$/, (_m, p) => {
+    const ids = p.get('ids')?.split(',').map(Number);
+    const persons = ids ? db().persons.filter((person) => ids.includes(person.id)) : db().persons;
+    return json(persons.map((person) => personSummary(person.id)));
+  }],
+  ['POST', /^\/persons\/merge$/, (_m, _p, body) => {
+    const lib = db();
+    const source = Number(body?.source_person_id);
+    const target = Number(body?.target_person_id);
+    const moved = lib.faces.filter((f) => f.person_id === source);
+    moved.forEach((f) => {
+      f.person_id = target;
+    });
+    lib.persons = lib.persons.filter((p) => p.id !== source);
+    return json({
+      success: true,
+      faces_merged: moved.length,
+      moved_face_ids: moved.map((f) => f.id),
+      profile_refreshed: null,
+    });
+  }],
+  ['GET', /^\/persons\/(\d+)$/, (m) => {
+    const person = db().persons.find((p) => p.id === Number(m[1]));
+    return person ? json(person) : notFound('Person');
+  }],
+  ['POST', /^\/persons\/(\d+)$/, (m, _p, body) => {
+    const person = db().persons.find((p) => p.id === Number(m[1]));
+    if (!person) return notFound('Person');
+    person.name = (body?.name as string | null | undefined) ?? null;
+    return json({ success: true });
+  }],
+  ['DELETE', /^\/persons\/(\d+)$/, (m) => {
+    const lib = db();
+    const id = Number(m[1]);
+    lib.persons = lib.persons.filter((p) => p.id !== id);
+    lib.faces.forEach((f) => {
+      if (f.person_id === id) f.person_id = null;
+    });
+    return json({ success: true });
+  }],
+  ['GET', /^\/persons\/(\d+)\/assets$/, (m) => json({ asset_ids: personAssetIds(Number(m[1])) })],
+  ['GET', /^\/persons\/(\d+)\/face$/, (m) => {
+    const face = db().faces.find((f) => f.person_id === Number(m[1]));
+    return face ? json({ face_id: face.id }) : notFound('Face');
+  }],
+
+  // Albums
+  ['GET', /^\/albums$/, () => json(db().albums)],
+  ['POST', /^\/albums$/, (_m, _p, body) => {
+    const lib = db();
+    const album = {
+      id: lib.nextIds.album++,
+      name: String(body?.name ?? 'Untitled'),
+      description: body?.description as string | undefined,
+      asset_ids: [] as number[],
+      created_at: nowSeconds(),
+      updated_at: nowSeconds(),
+      folder_id: typeof body?.folder_id === 'number' ? body.folder_id : null,
+    };
+    lib.albums.push(album);
+    return json(album);
+  }],
+  ['GET', /^\/albums\/for-asset\/(\d+)$/, (m) =>
+    json(db().albums.filter((a) => a.asset_ids.includes(Number(m[1]))).map((a) => a.id))],
+  ['GET', /^\/albums\/(\d+)$/, (m) => {
+    const album = db().albums.find((a) => a.id === Number(m[1]));
+    return album ? json(album) : notFound('Album');
+  }],
+  ['PUT', /^\/albums\/(\d+)$/, (m, _p, body) => {
+    const album = db().albums.find((a) => a.id === Number(m[1]));
+    if (!album) return notFound('Album');
+    if (typeof body?.name === 'string') album.name = body.name;
+    if (typeof body?.description === 'string') album.description = body.description;
+    if (body && 'folder_id' in body) {
+      const folderId = body.folder_id as number | null;
+      if (folderId !== null && !db().albumFolders.some((f) => f.id === folderId)) return notFound('Album folder');
+      album.folder_id = folderId;
+    }
+    if (body && 'cover_asset_id' in body) {
+      const coverId = body.cover_asset_id as number | null;
+      if (coverId !== null && !album.asset_ids.includes(coverId)) {
+        return json({ error: 'Cover must be an asset of the album' }, 400);
+      }
+      album.cover_asset_id = coverId;
+    }
+    if (body?.sort === 'manual' || body?.sort === 'taken' || body?.sort === 'filename') album.sort = body.sort;
+    album.updated_at = nowSeconds();
+    return json(album);
+  }],
+  ['DELETE', /^\/albums\/(\d+)$/, (m) => {
+    const lib = db();
+    const before = lib.albums.length;
+    lib.albums = lib.albums.filter((a) => a.id !== Number(m[1]));
+    return lib.albums.length < before ? json({ success: true }) : notFound('Album');
+  }],
+  ['POST', /^\/albums\/(\d+)\/assets$/, (m, _p, body) => {
+    const album = db().albums.find((a) => a.id === Number(m[1]));
+    if (!album) return notFound('Album');
+    const ids = (body?.asset_ids as number[] | undefined) ?? [];
+    album.asset_ids = [...album.asset_ids, ...ids.filter((id) => !album.asset_ids.includes(id))];
+    album.updated_at = nowSeconds();
+    return json(album);
+  }],
+  ['DELETE', /^\/albums\/(\d+)\/assets$/, (m, _p, body) => {
+    const album = db().albums.find((a) => a.id === Number(m[1]));
+    if (!album) return notFound('Album');
+    const ids = new Set((body?.asset_ids as number[] | undefined) ?? []);
+    album.asset_ids = album.asset_ids.filter((id) => !ids.has(id));
+    if (album.cover_asset_id != null && ids.has(album.cover_asset_id)) album.cover_asset_id = null;
+    album.updated_at = nowSeconds();
+    return json(album);
+  }],
+  ['PUT', /^\/albums\/(\d+)\/assets$/, (m, _p, body) => {
+    const album = db().albums.find((a) => a.id === Number(m[1]));
+    if (!album) return notFound('Album');
+    const ids = (body?.asset_ids as number[] | undefined) ?? [];
+    const current = new Set(album.asset_ids);
+    if (ids.length !== current.size || new Set(ids).size !== ids.length || !ids.every((id) => current.has(id))) {
+      return json({ error: 'asset_ids must list the album\'s assets exactly once' }, 400);
+    }
+    album.asset_ids = ids;
+    album.updated_at = nowSeconds();
+    return json(album);
+  }],
+
+  // Album folders
+  ['GET', /^\/album-folders$/, () => json(db().albumFolders)],
+  ['POST', /^\/album-folders$/, (_m, _p, body) => {
+    const lib = db();
+    const parentId = typeof body?.parent_id === 'number' ? body.parent_id : null;
+    if (parentId !== null && !lib.albumFolders.some((f) => f.id === parentId)) return notFound('Album folder');
+    const folder = {
+      id: lib.nextIds.albumFolder++,
+      name: String(body?.name ?? 'Untitled'),
+      parent_id: parentId,
+      created_at: nowSeconds(),
+      updated_at: nowSeconds(),
+    };
+    lib.albumFolders.push(folder);
+    return json(folder);
+  }],
+  ['PUT', /^\/album-folders\/(\d+)$/, (m, _p, body) => {
+    const lib = db();
+    const folder = lib.albumFolders.find((f) => f.id === Number(m[1]));
+    if (!folder) return notFound('Album folder');
+    if (typeof body?.name === 'string') folder.name = body.name;
+    if (body && 'parent_id' in body) {
+      const parentId = body.parent_id as number | null;
+      // Walk up from the new parent; reaching the folder itself would make a cycle
+      for (let id = parentId; id !== null; id = lib.albumFolders.find((f) => f.id === id)?.parent_id ?? null) {
+        if (id === folder.id) return json({ error: 'Cannot move a folder into itself' }, 400);
+      }
+      folder.parent_id = parentId;
+    }
+    folder.updated_at = nowSeconds();
+    return json(folder);
+  }],
+  ['DELETE', /^\/album-folders\/(\d+)$/, (m) => {
+    const lib = db();
+    const folder = lib.albumFolders.find((f) => f.id === Number(m[1]));
+    if (!folder) return notFound('Album folder');
+    for (const child of lib.albumFolders) if (child.parent_id === folder.id) child.parent_id = folder.parent_id;
+    for (const album of lib.albums) if (album.folder_id === folder.id) album.folder_id = folder.parent_id;
+    lib.albumFolders = lib.albumFolders.filter((f) => f !== folder);
+    return json({ success: true });
+  }],
+];
+
+function routePath(url: URL): string {
+  const basePath = new URL(getApiBaseUrl(), window.location.origin).pathname.replace(/\/$/, '');
+  return basePath && url.pathname.startsWith(basePath) ? url.pathname.slice(basePath.length) || '/' : url.pathname;
+}
+
+export async function handleMockRequest(input: string, init?: RequestInit): Promise<Response> {
+  await new Promise((resolve) => setTimeout(resolve, LATENCY_MS));
+  if (init?.signal?.aborted) throw new DOMException('The operation was aborted.', 'AbortError');
+  const url = new URL(input, window.location.origin);
+  const path = routePath(url);
+  const method = (init?.method ?? 'GET').toUpperCase();
+  let body: Body = null;
+  if (typeof init?.body === 'string' && init.body) {
+    try {
+      body = JSON.parse(init.body);
+    } catch {
+      return json({ error: 'Invalid JSON body' }, 400);
+    }
+  }
+  for (const [routeMethod, pattern, handler] of routes) {
+    if (routeMethod !== method) continue;
+    const match = path.match(pattern);
+    if (match) return handler(match, url.searchParams, body);
+  }
+  return json({ error: `No mock route for ${method} ${path}` }, 404);
+}
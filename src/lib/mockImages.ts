@@ -0,0 +1,73 @@
+import { MOCK_SEED } from './config';
+
+// Generated placeholder imagery for the mock backend. Images are SVG data URLs
+// so <img> tags work without a server; colours and dimensions are derived from
+// the asset id so every view of an asset looks the same.
+
+function hash(n: number): number {
+  let x = (n ^ (MOCK_SEED * 0x9e3779b1)) >>> 0;
+  x = Math.imul(x ^ (x >>> 16), 0x45d9f3b) >>> 0;
+  x = Math.imul(x ^ (x >>> 16), 0x45d9f3b) >>> 0;
+  return (x ^ (x >>> 16)) >>> 0;
+}
+
+const ASPECTS: Array<[number, number]> = [
+  [4032, 3024],
+  [3024, 4032],
+  [4000, 2250],
+  [1920, 1080],
+  [3000, 3000],
+];
+
+export function mockAssetDimensions(id: number): { width: number; height: number } {
+  const [width, height] = ASPECTS[hash(id) % ASPECTS.length];
+  return { width, height };
+}
+
+function svgDataUrl(svg: string): string {
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+}
+
+export function mockAssetSvg(id: number, maxEdge: number = 480): string {
+  const { width, height } = mockAssetDimensions(id);
+  const scale = maxEdge / Math.max(width, height);
+  const w = Math.round(width * scale);
+  const h = Math.round(height * scale);
+  const h1 = hash(id) % 360;
+  const h2 = (h1 + 40 + (hash(id + 7) % 80)) % 360;
+  const sunX = Math.round(w * (0.2 + (hash(id + 3) % 60) / 100));
+  const sunR = Math.round(Math.min(w, h) * 0.12);
+  const horizon = Math.round(h * (0.55 + (hash(id + 5) % 20) / 100));
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${w}" height="${h}" viewBox="0 0 ${w} ${h}">` +
+    `<defs><linearGradient id="g" x1="0" y1="0" x2="0" y2="1">` +
+    `<stop offset="0" stop-color="hsl(${h1},65%,62%)"/><stop offset="1" stop-color="hsl(${h2},55%,38%)"/>` +
+    `</linearGradient></defs>` +
+    `<rect width="${w}" height="${h}" fill="url(#g)"/>` +
+    `<circle cx="${sunX}" cy="${Math.round(horizon * 0.45)}" r="${sunR}" fill="hsla(${(h1 + 180) % 360},80%,85%,0.85)"/>` +
+    `<path d="M0 ${horizon} L${Math.round(w * 0.3)} ${horizon - sunR} L${Math.round(w * 0.55)} ${horizon} ` +
+    `L${Math.round(w * 0.8)} ${horizon - Math.round(sunR * 1.6)} L${w} ${horizon} L${w} ${h} L0 ${h} Z" ` +
+    `fill="hsla(${h2},40%,20%,0.7)"/>` +
+    `<text x="${w - 8}" y="${h - 8}" text-anchor="end" font-family="sans-serif" font-size="${Math.max(10, Math.round(h / 16))}" ` +
+    `fill="rgba(255,255,255,0.8)">#${id}</text>` +
+    `</svg>`
+  );
+}
+
+export function mockAssetImageUrl(id: number, maxEdge: number = 480): string {
+  return svgDataUrl(mockAssetSvg(id, maxEdge));
+}
+
+export function mockFaceImageUrl(faceId: number, size: number = 160): string {
+  const hue = hash(faceId * 31) % 360;
+  const skin = 20 + (hash(faceId) % 20);
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 100 100">` +
+    `<rect width="100" height="100" fill="hsl(${hue},35%,75%)"/>` +
+    `<circle cx="50" cy="42" r="24" fill="hsl(${skin},45%,${55 + (hash(faceId + 1) % 25)}%)"/>` +
+    `<path d="M14 100 Q50 56 86 100 Z" fill="hsl(${(hue + 150) % 360},40%,40%)"/>` +
+    `<circle cx="41" cy="40" r="3" fill="#333"/><circle cx="59" cy="40" r="3" fill="#333"/>` +
+    `<path d="M40 52 Q50 60 60 52" stroke="#333" stroke-width="2.5" fill="none"/>` +
+    `</svg>`;
+  return svgDataUrl(svg);
+}
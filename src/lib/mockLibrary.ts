@@ -0,0 +1,318 @@
+import type { Asset } from '../types';
+import { mockAssetDimensions } from './mockImages';
+
+// Deterministic synthetic library used by the mock backend. The same seed and
+// size always produce the same assets, persons, faces and albums.
+
+export interface MockPerson {
+  id: number;
+  name: string | null;
+  created_at: number;
+}
+
+export interface MockFace {
+  id: number;
+  asset_id: number;
+  person_id: number | null;
+  bbox: { x: number; y: number; w: number; h: number };
+  confidence: number;
+}
+
+export interface MockAlbum {
+  id: number;
+  name: string;
+  description?: string;
+  asset_ids: number[];
+  created_at: number;
+  updated_at: number;
+  folder_id?: number | null;
+  cover_asset_id?: number | null;
+  sort?: 'manual' | 'taken' | 'filename';
+}
+
+export interface MockAlbumFolder {
+  id: number;
+  name: string;
+  parent_id: number | null;
+  created_at: number;
+  updated_at: number;
+}
+
+export interface MockScanPath {
+  path: string;
+  is_default: boolean;
+  host_path?: string | null;
+  paused: boolean;
+}
+
+export interface MockLibrary {
+  assets: Asset[];
+  persons: MockPerson[];
+  faces: MockFace[];
+  albums: MockAlbum[];
+  albumFolders: MockAlbumFolder[];
+  paths: MockScanPath[];
+  nextIds: { person: number; album: number; face: number; albumFolder: number };
+}
+
+// mulberry32
+function createRandom(seed: number) {
+  let a = seed >>> 0;
+  const next = () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return {
+    next,
+    int: (min: number, max: number) => min + Math.floor(next() * (max - min + 1)),
+    pick: <T>(items: readonly T[]): T => items[Math.floor(next() * items.length)],
+    chance: (p: number) => next() < p,
+    hex: (len: number) => Array.from({ length: len }, () => Math.floor(next() * 16).toString(16)).join(''),
+  };
+}
+
+type Random = ReturnType<typeof createRandom>;
+
+const CAMERAS = [
+  { make: 'Apple', model: 'iPhone 13 Pro', lens: 'iPhone 13 Pro back triple camera 5.7mm f/1.5', style: 'iphone' },
+  { make: 'Apple', model: 'iPhone 11', lens: 'iPhone 11 back dual wide camera 4.25mm f/1.8', style: 'iphone' },
+  { make: 'Google', model: 'Pixel 7', lens: 'Pixel 7 back camera 6.81mm f/1.85', style: 'pixel' },
+  { make: 'Canon', model: 'Canon EOS R6', lens: 'RF24-105mm F4 L IS USM', style: 'canon' },
+  { make: 'SONY', model: 'ILCE-7M3', lens: 'FE 50mm F1.8', style: 'sony' },
+  { make: 'FUJIFILM', model: 'X-T4', lens: 'XF35mmF1.4 R', style: 'sony' },
+] as const;
+
+const TRIPS = ['Lisbon', 'Kyoto', 'Yosemite', 'Iceland', 'Cape Town', 'Lake Como', 'Banff'];
+const PERSON_NAMES = ['Alice', 'Bob', 'Carmen', 'Dev', 'Emma', 'Farid', 'Grace'];
+const ROOTS = ['/photos', '/media/family'];
+const KEYWORDS = ['travel', 'family', 'sunset', 'food', 'nature', 'city', 'portrait', 'snow', 'beach'];
+
+const MIME_BY_EXT: Record<string, string> = {
+  jpg: 'image/jpeg',
+  heic: 'image/heic',
+  png: 'image/png',
+  cr3: 'image/x-raw',
+  arw: 'image/x-raw',
+  mp4: 'video/mp4',
+  mov: 'video/quicktime',
+};
+
+const pad = (n: number, len: number = 2) => String(n).padStart(len, '0');
+
+function buildFilename(rng: Random, style: string, date: Date, seq: number, isVideo: boolean, isRaw: boolean) {
+  const ymd = `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}`;
+  const hms = `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}`;
+  switch (style) {
+    case 'whatsapp':
+      return isVideo ? `VID-${ymd}-WA${pad(seq % 10000, 4)}.mp4` : `IMG-${ymd}-WA${pad(seq % 10000, 4)}.jpg`;
+    case 'pixel':
+      return `PXL_${ymd}_${hms}${pad(rng.int(0, 999), 3)}.${isVideo ? 'mp4' : 'jpg'}`;
+    case 'iphone':
+      return `IMG_${pad(seq % 10000, 4)}.${isVideo ? 'mov' : rng.chance(0.5) ? 'heic' : 'jpg'}`;
+    case 'canon':
+      return `_MG_${pad(seq % 10000, 4)}.${isRaw ? 'cr3' : 'jpg'}`;
+    case 'screenshot':
+      return `Screenshot_${ymd}-${hms}.png`;
+    default:
+      return `DSC${pad(seq % 100000, 5)}.${isVideo ? 'mp4' : isRaw ? 'arw' : 'jpg'}`;
+  }
+}
+
+function generateAssets(rng: Random, size: number): Asset[] {
+  const assets: Asset[] = [];
+  const start = Date.UTC(2016, 0, 1) / 1000;
+  const end = Date.UTC(2025, 10, 1) / 1000;
+  let t = start;
+  const step = (end - start) / Math.max(size, 1);
+  let tripIndex = -1;
+  let tripRemaining = 0;
+
+  for (let id = 1; id <= size; id++) {
+    // Assets arrive in bursts so the gallery has dense days and bursts of similar shots
+    t += rng.chance(0.6) ? rng.int(1, 8) : step * rng.next() * 5;
+    const takenAt = Math.floor(Math.min(t, end));
+    const date = new Date(takenAt * 1000);
+    const root = id % 5 === 0 ? ROOTS[1] : ROOTS[0];
+
+    if (tripRemaining <= 0 && rng.chance(0.015)) {
+      tripIndex = rng.int(0, TRIPS.length - 1);
+      tripRemaining = rng.int(8, 30);
+    }
+    const onTrip = tripRemaining > 0;
+    if (onTrip) tripRemaining -= 1;
+
+    const source = rng.next();
+    const isWhatsApp = !onTrip && source < 0.08;
+    const isScreenshot = !onTrip && !isWhatsApp && source < 0.12;
+    const camera = rng.pick(CAMERAS);
+    const style = isWhatsApp ? 'whatsapp' : isScreenshot ? 'screenshot' : camera.style;
+    const isVideo = !isScreenshot && rng.chance(0.08);
+    const isRaw = !isVideo && (camera.style === 'canon' || camera.style === 'sony') && rng.chance(0.3);
+
+    const dirname = isWhatsApp
+      ? `${root}/WhatsApp/Media/WhatsApp ${isVideo ? 'Video' : 'Images'}`
+      : isScreenshot
+        ? `${root}/Screenshots`
+        : onTrip
+          ? `${root}/Trips/${TRIPS[tripIndex]} ${date.getUTCFullYear()}`
+          : `${root}/${date.getUTCFullYear()}/${pad(date.getUTCMonth() + 1)}`;
+    const filename = buildFilename(rng, style, date, 1000 + id, isVideo, isRaw);
+    const ext = filename.split('.').pop()!.toLowerCase();
+    const { width, height } = mockAssetDimensions(id);
+    const hasExif = !isWhatsApp && !isScreenshot;
+    const mtimeNs = (takenAt + rng.int(0, 86400 * 30)) * 1_000_000_000;
+
+    assets.push({
+      id,
+      path: `${dirname}/${filename}`,
+      dirname,
+      filename,
+      ext,
+      size_bytes: isVideo
+        ? rng.int(8, 400) * 1024 * 1024
+        : isRaw
+          ? rng.int(20, 60) * 1024 * 1024
+          : rng.int(300, 9000) * 1024,
+      mtime_ns: mtimeNs,
+      ctime_ns: mtimeNs,
+      sha256: rng.hex(64),
+      xxh64: rng.int(1, Number.MAX_SAFE_INTEGER),
+      taken_at: hasExif ? takenAt : undefined,
+      width: isScreenshot ? 1080 : width,
+      height: isScreenshot ? 2400 : height,
+      duration_ms: isVideo ? rng.int(3, 300) * 1000 : undefined,
+      camera_make: hasExif ? camera.make : undefined,
+      camera_model: hasExif ? camera.model : undefined,
+      lens_model: hasExif ? camera.lens : undefined,
+      iso: hasExif && !isVideo ? rng.pick([50, 100, 200, 400, 800, 1600, 3200]) : undefined,
+      fnumber: hasExif && !isVideo ? rng.pick([1.5, 1.8, 2.8, 4, 5.6, 8]) : undefined,
+      exposure: hasExif && !isVideo ? rng.pick([1 / 1000, 1 / 250, 1 / 60, 1 / 15]) : undefined,
+      video_codec: isVideo ? rng.pick(['h264', 'hevc']) : undefined,
+      mime: MIME_BY_EXT[ext] ?? 'application/octet-stream',
+      flags: 0,
+    });
+  }
+
+  // A few exact copies in other folders, so duplicate handling has something to find
+  const copies = Math.floor(size * 0.03);
+  for (let i = 0; i < copies; i++) {
+    const original = assets[rng.int(0, assets.length - 1)];
+    const id = assets.length + 1;
+    const relative = ROOTS.reduce((dir, root) => (dir.startsWith(`${root}/`) ? dir.slice(root.length + 1) : dir), original.dirname);
+    const dirname = `${ROOTS[1]}/Backup/${relative}`;
+    assets.push({ ...original, id, dirname, path: `${dirname}/${original.filename}` });
+  }
+
+  // Burst shots a second apart after some photos, so gallery stacks have something to group
+  const bursts = Math.floor(size * 0.01);
+  for (let i = 0; i < bursts; i++) {
+    const original = assets[rng.int(0, size - 1)];
+    if (original.taken_at === undefined || !original.mime.startsWith('image/')) continue;
+    const shots = rng.int(2, 8);
+    for (let n = 1; n <= shots; n++) {
+      const id = assets.length + 1;
+      const filename = original.filename.replace(/(\.\w+)$/, `_BURST${pad(n)}$1`);
+      assets.push({
+        ...original,
+        id,
+        filename,
+        path: `${original.dirname}/${filename}`,
+        size_bytes: rng.int(300, 9000) * 1024,
+        sha256: rng.hex(64),
+        xxh64: rng.int(1, Number.MAX_SAFE_INTEGER),
+        taken_at: original.taken_at + n,
+      });
+    }
+  }
+  return assets;
+}
+
+export function createMockLibrary(size: number, seed: number): MockLibrary {
+  const rng = createRandom(seed);
+  const assets = generateAssets(rng, size);
+  const now = Math.floor(Date.now() / 1000);
+
+  const personCount = Math.max(3, Math.min(12, Math.round(size / 50)));
+  const persons: MockPerson[] = Array.from({ length: personCount }, (_, i) => ({
+    id: i + 1,
+    name: i < PERSON_NAMES.length && rng.chance(0.8) ? PERSON_NAMES[i] : null,
+    created_at: now - rng.int(1, 365) * 86400,
+  }));
+
+  const faces: MockFace[] = [];
+  for (const asset of assets) {
+    if (!asset.mime.startsWith('image/') || !rng.chance(0.35)) continue;
+    const count = rng.int(1, 3);
+    for (let i = 0; i < count; i++) {
+      // Earlier persons appear more often, like family members in a real library
+      const personId = rng.chance(0.15) ? null : 1 + Math.floor(rng.next() ** 2 * personCount);
+      faces.push({
+        id: faces.length + 1,
+        asset_id: asset.id,
+        person_id: personId,
+        bbox: { x: rng.int(5, 60) / 100, y: rng.int(5, 50) / 100, w: 0.18, h: 0.24 },
+        confidence: rng.int(62, 99) / 100,
+      });
+    }
+  }
+
+  const tripNames = Array.from(
+    new Set(assets.filter((a) => a.dirname.includes('/Trips/')).map((a) => a.dirname.split('/').pop()!))
+  );
+  const albums: MockAlbum[] = tripNames.slice(0, 4).map((name, i) => ({
+    id: i + 1,
+    name,
+    description: i === 0 ? 'Favourite shots from the trip' : undefined,
+    asset_ids: assets.filter((a) => a.dirname.endsWith(`/Trips/${name}`) && rng.chance(0.7)).map((a) => a.id),
+    created_at: now - (30 - i) * 86400,
+    updated_at: now - (10 - i) * 86400,
+    folder_id: 1,
+  }));
+  const albumFolders: MockAlbumFolder[] = [
+    { id: 1, name: 'Trips', parent_id: null, created_at: now - 30 * 86400, updated_at: now - 30 * 86400 },
+  ];
+  albums.push({
+    id: albums.length + 1,
+    name: 'Best of',
+    asset_ids: assets.filter(() => rng.chance(0.02)).map((a) => a.id),
+    created_at: now - 5 * 86400,
+    updated_at: now - 86400,
+  });
+
+  // Keywords: trip photos carry their destination, others an occasional theme
+  for (const asset of assets) {
+    const trip = TRIPS.find((name) => asset.dirname.includes(`/Trips/${name} `));
+    const tags = trip ? ['travel', trip.toLowerCase()] : [];
+    if (asset.mime.startsWith('image/') && rng.chance(0.06)) tags.push(rng.pick(KEYWORDS));
+    asset.tags = [...new Set(tags)];
+  }
+
+  // A few trip photos come with a caption
+  for (const asset of assets) {
+    const trip = TRIPS.find((name) => asset.dirname.includes(`/Trips/${name} `));
+    if (trip && asset.mime.startsWith('image/') && rng.chance(0.1)) {
+      asset.caption = rng.pick([`View from the hotel in ${trip}`, `Last evening in ${trip}`, `Getting lost in ${trip}`]);
+    }
+  }
+
+  return {
+    assets,
+    persons,
+    faces,
+    albums,
+    albumFolders,
+    paths: [
+      { path: ROOTS[0], is_default: true, host_path: '/volume1/photos', paused: false },
+      { path: ROOTS[1], is_default: false, host_path: '/volume1/family', paused: false },
+    ],
+    nextIds: {
+      person: persons.length + 1,
+      album: albums.length + 1,
+      face: faces.length + 1,
+      albumFolder: albumFolders.length + 1,
+    },
+  };
+}
@@ -0,0 +1,177 @@
+import { create } from 'zustand';
+import { DEFAULT_PROFILE_ID, useServerProfileStore } from './serverProfiles';
+
+// Mutations made while the backend is unreachable are persisted here and
+// replayed in order once `/health` responds again. Entries belong to the
+// server profile that queued them and only replay against that backend.
+
+export interface QueuedMutation {
+  id?: number;
+  url: string;
+  method: string;
+  body?: string;
+  label: string;
+  queuedAt: number;
+  profileId?: string; // missing on entries queued before server profiles existed
+}
+
+interface OfflineQueueState {
+  pending: number;
+  isReplaying: boolean;
+  lastError: string | null;
+  setPending: (count: number) => void;
+  setReplaying: (value: boolean) => void;
+  setLastError: (message: string | null) => void;
+}
+
+export const useOfflineQueueStore = create<OfflineQueueState>((set) => ({
+  pending: 0,
+  isReplaying: false,
+  lastError: null,
+  setPending: (count) => set({ pending: count }),
+  setReplaying: (value) => set({ isReplaying: value }),
+  setLastError: (message) => set({ lastError: message }),
+}));
+
+const DB_NAME = 'nazr-offline';
+const STORE_NAME = 'mutations';
+const HEALTH_POLL_MS = 5000;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, 1);
+      req.onupgradeneeded = () => {
+        req.result.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        dbPromise = null;
+        reject(req.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function tx<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  return openDb().then(
+    (db) =>
+      new Promise<T>((resolve, reject) => {
+        const req = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+      })
+  );
+}
+
+const activeProfileId = () => useServerProfileStore.getState().activeId;
+
+async function refreshPending() {
+  const entries = await listQueuedMutations();
+  useOfflineQueueStore.getState().setPending(entries.length);
+}
+
+export async function enqueueMutation(mutation: Omit<QueuedMutation, 'id' | 'queuedAt' | 'profileId'>): Promise<void> {
+  await tx('readwrite', (store) => store.add({ ...mutation, queuedAt: Date.now(), profileId: activeProfileId() }));
+  await refreshPending();
+  scheduleHealthCheck();
+}
+
+// Entries for the active server profile. Auto-increment keys keep them in insertion order.
+export async function listQueuedMutations(): Promise<QueuedMutation[]> {
+  const all = await tx('readonly', (store) => store.getAll() as IDBRequest<QueuedMutation[]>);
+  const profileId = activeProfileId();
+  return all.filter((m) => (m.profileId ?? DEFAULT_PROFILE_ID) === profileId);
+}
+
+export async function clearQueuedMutations(): Promise<void> {
+  const entries = await listQueuedMutations();
+  for (const entry of entries) await tx('readwrite', (store) => store.delete(entry.id!));
+  await refreshPending();
+}
+
+// Resolves 'offline' when the backend is still unreachable or unavailable; throws when it
+// rejects the change with a client error.
+type ReplayFn = (mutation: QueuedMutation) => Promise<'done' | 'offline'>;
+
+let replayFn: ReplayFn | null = null;
+let healthCheckFn: (() => Promise<boolean>) | null = null;
+let onReplayedFn: (() => void) | null = null;
+let healthTimer: ReturnType<typeof setTimeout> | null = null;
+let replaying = false;
+
+// Replay queued mutations in order. Stops at the first entry that still
+// cannot reach the backend so ordering is preserved for the next attempt.
+export async function replayQueuedMutations(): Promise<void> {
+  if (replaying || !replayFn) return;
+  replaying = true;
+  const store = useOfflineQueueStore.getState();
+  store.setReplaying(true);
+  let replayed = 0;
+  try {
+    const entries = await listQueuedMutations();
+    for (const entry of entries) {
+      let outcome: 'done' | 'offline' = 'done';
+      try {
+        outcome = await replayFn(entry);
+      } catch (error) {
+        // The backend rejected this change with a 4xx (e.g. the album was deleted meanwhile); drop it
+        store.setLastError(`${entry.label}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      if (outcome === 'offline') break;
+      await tx('readwrite', (s) => s.delete(entry.id!));
+      replayed += 1;
+    }
+  } catch (error) {
+    store.setLastError(error instanceof Error ? error.message : String(error));
+  } finally {
+    replaying = false;
+    store.setReplaying(false);
+    await refreshPending().catch(() => {});
+  }
+  if (replayed > 0) onReplayedFn?.();
+  if (useOfflineQueueStore.getState().pending > 0) scheduleHealthCheck();
+}
+
+function scheduleHealthCheck() {
+  if (healthTimer || !healthCheckFn) return;
+  healthTimer = setTimeout(async () => {
+    healthTimer = null;
+    const healthy = await healthCheckFn!().catch(() => false);
+    if (healthy) {
+      await replayQueuedMutations();
+    } else if (useOfflineQueueStore.getState().pending > 0) {
+      scheduleHealthCheck();
+    }
+  }, HEALTH_POLL_MS);
+}
+
+// Wire the queue to the API client. Called once at startup.
+export function startOfflineQueue(options: {
+  replay: ReplayFn;
+  healthCheck: () => Promise<boolean>;
+  onReplayed?: () => void;
+}) {
+  replayFn = options.replay;
+  healthCheckFn = options.healthCheck;
+  onReplayedFn = options.onReplayed ?? null;
+  if (typeof indexedDB === 'undefined') return;
+  window.addEventListener('online', () => scheduleHealthCheck());
+  useServerProfileStore.subscribe((state, prev) => {
+    if (state.activeId === prev.activeId) return;
+    useOfflineQueueStore.getState().setLastError(null);
+    refreshPending()
+      .then(() => {
+        if (useOfflineQueueStore.getState().pending > 0) scheduleHealthCheck();
+      })
+      .catch(() => {});
+  });
+  refreshPending()
+    .then(() => {
+      if (useOfflineQueueStore.getState().pending > 0) scheduleHealthCheck();
+    })
+    .catch((error) => console.warn('Offline queue unavailable:', error));
+}
@@ -0,0 +1,47 @@
+import { useAuthStore, type Session } from './auth';
+import { ForbiddenError } from './errors';
+import type { Role } from '../types';
+
+// Role-based gating of destructive and administrative actions. The backend
+// enforces the same rules; the client hides the controls and refuses the
+// calls up front so restricted users never see a half-working button.
+
+export type Permission = 'edit' | 'manage' | 'deleteOriginals';
+
+const ROLE_RANK: Record<Role, number> = { viewer: 0, editor: 1, admin: 2 };
+
+const REQUIRED_ROLE: Record<Permission, Role> = {
+  // Albums, people and face assignment, rotation, removing assets from the index
+  edit: 'editor',
+  // Scan paths, face detection and its settings, smart merge, stats and clearing data
+  manage: 'admin',
+  // Deleting original files from disk
+  deleteOriginals: 'admin',
+};
+
+const DESCRIPTIONS: Record<Permission, string> = {
+  edit: 'edit the library',
+  manage: 'manage the server',
+  deleteOriginals: 'delete original files',
+};
+
+// Backends without auth, or without roles, give every user full access
+export function roleOf(session: Session | null): Role {
+  return session?.role ?? 'admin';
+}
+
+export function hasPermission(permission: Permission, role: Role = roleOf(useAuthStore.getState().session)): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[REQUIRED_ROLE[permission]];
+}
+
+export function usePermission(permission: Permission): boolean {
+  const role = useAuthStore((s) => roleOf(s.session));
+  return hasPermission(permission, role);
+}
+
+export function assertPermission(permission: Permission, url: string): void {
+  const role = roleOf(useAuthStore.getState().session);
+  if (!hasPermission(permission, role)) {
+    throw new ForbiddenError(`Signed in as ${role}, which cannot ${DESCRIPTIONS[permission]}.`, { url });
+  }
+}
@@ -0,0 +1,51 @@
+import { create } from 'zustand';
+import { assetApi } from './api';
+import { applyFlagChanges } from './assetFlags';
+import { MutationQueuedError } from './errors';
+import { useServerProfileStore } from './serverProfiles';
+import type { Asset, AssetFlagChanges } from '../types';
+
+// Favorite and rating changes are shown right away on top of the flags that
+// came with cached asset lists, so cards, the Lightbox and filters agree
+// without refetching every page after a click.
+
+interface AssetFlagsState {
+  flags: Map<number, number>;
+  set: (entries: Array<[number, number]>) => void;
+}
+
+export const useAssetFlagsStore = create<AssetFlagsState>((set, get) => ({
+  flags: new Map(),
+  set: (entries) => set({ flags: new Map([...get().flags, ...entries]) }),
+}));
+
+export function flagsOf(asset: Asset, overrides: Map<number, number>): number {
+  return overrides.get(asset.id) ?? asset.flags;
+}
+
+export function useAssetFlags(asset: Asset): number {
+  return useAssetFlagsStore((s) => s.flags.get(asset.id)) ?? asset.flags;
+}
+
+export async function updateAssetFlags(assets: Asset[], changes: AssetFlagChanges): Promise<void> {
+  if (assets.length === 0) return;
+  const { flags, set } = useAssetFlagsStore.getState();
+  const previous = assets.map((asset): [number, number] => [asset.id, flagsOf(asset, flags)]);
+  set(previous.map(([id, value]) => [id, applyFlagChanges(value, changes)]));
+  try {
+    const result = await assetApi.updateFlags(
+      assets.map((a) => a.id),
+      changes
+    );
+    set(result.assets.map((a) => [a.id, a.flags]));
+  } catch (error) {
+    // Queued changes are replayed later, so the optimistic value stays
+    if (!(error instanceof MutationQueuedError)) set(previous);
+    throw error;
+  }
+}
+
+useServerProfileStore.subscribe((state, prev) => {
+  if (state.activeId === prev.activeId) return;
+  useAssetFlagsStore.setState({ flags: new Map() });
+});
@@ -0,0 +1,131 @@
+import { create } from 'zustand';
+import { useQuery } from '@tanstack/react-query';
+import { api } from './api';
+import { profileKey, useServerProfileStore } from './serverProfiles';
+import { clientSideFilters, hasSearchFilters, parseSearchFilters, writeSearchFilters } from './searchFilters';
+import type { SearchFilters } from '../types';
+
+// Named searches (query plus advanced filters), stored per server profile.
+// Each remembers the result total when it was last opened; the difference to
+// the current total is shown as "new since last viewed".
+
+export interface SavedSearch {
+  id: string;
+  name: string;
+  q: string;
+  filters: SearchFilters;
+  pinned: boolean;
+  createdAt: number; // epoch ms
+  lastViewedAt: number | null;
+  lastViewedTotal: number | null;
+}
+
+const SAVED_SEARCHES_KEY = 'nazr.savedSearches';
+const TOTAL_POLL_MS = 5 * 60 * 1000;
+
+function loadSavedSearches(): SavedSearch[] {
+  try {
+    const raw = localStorage.getItem(profileKey(SAVED_SEARCHES_KEY));
+    const list: unknown = raw ? JSON.parse(raw) : [];
+    return Array.isArray(list) ? (list as SavedSearch[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function persist(searches: SavedSearch[]) {
+  localStorage.setItem(profileKey(SAVED_SEARCHES_KEY), JSON.stringify(searches));
+}
+
+// Canonical URL params for a search, also used to recognise a saved search
+// when the same query is typed again
+export function searchParamsFor(q: string, filters: SearchFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  if (q.trim()) params.set('q', q.trim());
+  writeSearchFilters(params, filters);
+  return params;
+}
+
+export function savedSearchUrl(search: SavedSearch): string {
+  return `/search?${searchParamsFor(search.q, search.filters).toString()}`;
+}
+
+export function findSavedSearch(searches: SavedSearch[], params: URLSearchParams): SavedSearch | undefined {
+  const key = searchParamsFor(params.get('q') || '', parseSearchFilters(params)).toString();
+  return searches.find((s) => searchParamsFor(s.q, s.filters).toString() === key);
+}
+
+interface SavedSearchesState {
+  searches: SavedSearch[];
+  save: (name: string, q: string, filters: SearchFilters, total: number | null) => SavedSearch;
+  remove: (id: string) => void;
+  togglePinned: (id: string) => void;
+  markViewed: (id: string, total: number) => void;
+}
+
+export const useSavedSearchesStore = create<SavedSearchesState>((set, get) => {
+  const update = (searches: SavedSearch[]) => {
+    persist(searches);
+    set({ searches });
+  };
+  const patch = (id: string, changes: Partial<SavedSearch>) =>
+    update(get().searches.map((s) => (s.id === id ? { ...s, ...changes } : s)));
+
+  return {
+    searches: loadSavedSearches(),
+    save: (name, q, filters, total) => {
+      const search: SavedSearch = {
+        id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+        name: name.trim(),
+        q: q.trim(),
+        // Drop unset keys so the stored object stays small
+        filters: parseSearchFilters(searchParamsFor('', filters)),
+        pinned: false,
+        createdAt: Date.now(),
+        lastViewedAt: total !== null ? Date.now() : null,
+        lastViewedTotal: total,
+      };
+      update([...get().searches, search]);
+      return search;
+    },
+    remove: (id) => update(get().searches.filter((s) => s.id !== id)),
+    togglePinned: (id) => {
+      const search = get().searches.find((s) => s.id === id);
+      if (search) patch(id, { pinned: !search.pinned });
+    },
+    markViewed: (id, total) => {
+      const search = get().searches.find((s) => s.id === id);
+      if (search && search.lastViewedTotal !== total) patch(id, { lastViewedAt: Date.now(), lastViewedTotal: total });
+    },
+  };
+});
+
+// Each server has its own saved searches
+useServerProfileStore.subscribe((state, prev) => {
+  if (state.activeId === prev.activeId) return;
+  useSavedSearchesStore.setState({ searches: loadSavedSearches() });
+});
+
+export function isSavableSearch(q: string, filters: SearchFilters): boolean {
+  return !!q.trim() || hasSearchFilters(filters);
+}
+
+// Current result total of a saved search, refreshed every few minutes; null when
+// the backend ignored some of its filters and the total would overcount
+export function useSavedSearchTotal(search: SavedSearch) {
+  return useQuery({
+    queryKey: ['savedSearchTotal', search.q, search.filters],
+    queryFn: async (): Promise<number | null> => {
+      const res = await api.search({ ...search.filters, q: search.q, limit: 1 });
+      return hasSearchFilters(clientSideFilters(search.filters, res)) ? null : res.total;
+    },
+    staleTime: 60000,
+    refetchInterval: TOTAL_POLL_MS,
+  });
+}
+
+// Results added since the search was last opened
+export function newSinceLastViewed(search: SavedSearch, total: number | null | undefined): number {
+  if (total == null || search.lastViewedTotal === null) return 0;
+  return Math.max(0, total - search.lastViewedTotal);
+}
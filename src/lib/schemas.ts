@@ -0,0 +1,252 @@
+import {
+  arrayOf,
+  bool,
+  enumOf,
+  maybe,
+  nullable,
+  num,
+  objectOf,
+  oneOf,
+  optional,
+  recordOf,
+  str,
+  unknownValue,
+  type Schema,
+} from './validation';
+
+// Response schemas mirroring src/types.ts and the inline shapes in api.ts.
+// Keep these in sync when the types change.
+
+export const assetSchema = objectOf({
+  id: num,
+  path: str,
+  dirname: str,
+  filename: str,
+  ext: str,
+  size_bytes: num,
+  mtime_ns: num,
+  ctime_ns: num,
+  sha256: maybe(str),
+  xxh64: maybe(num),
+  taken_at: maybe(num),
+  width: maybe(num),
+  height: maybe(num),
+  duration_ms: maybe(num),
+  camera_make: maybe(str),
+  camera_model: maybe(str),
+  lens_model: maybe(str),
+  iso: maybe(num),
+  fnumber: maybe(num),
+  exposure: maybe(num),
+  video_codec: maybe(str),
+  mime: str,
+  flags: num,
+  tags: optional(arrayOf(str)),
+  caption: maybe(str),
+});
+
+export function paginatedSchema(item: Schema): Schema {
+  return objectOf({ total: num, items: arrayOf(item) });
+}
+
+export const searchResultSchema: Schema = (value, path) => [
+  ...paginatedSchema(assetSchema)(value, path),
+  ...objectOf({
+    match_counts: maybe(objectOf({ filename: num, dirname: num, path: num, caption: optional(num) })),
+    applied_filters: maybe(arrayOf(str)),
+  })(value, path),
+];
+
+const facetCountsSchema = arrayOf(objectOf({ value: str, count: num }));
+export const searchFacetsSchema = objectOf({
+  camera_makes: facetCountsSchema,
+  camera_models: facetCountsSchema,
+  lenses: facetCountsSchema,
+  dirnames: facetCountsSchema,
+});
+export const searchResultFacetsSchema = objectOf({
+  camera_makes: facetCountsSchema,
+  camera_models: facetCountsSchema,
+  lenses: facetCountsSchema,
+  years: facetCountsSchema,
+  file_types: facetCountsSchema,
+  platform_types: facetCountsSchema,
+  persons: facetCountsSchema,
+});
+
+export const statsSchema = objectOf({
+  uptime_seconds: num,
+  queues: objectOf({ discover: num, hash: num, metadata: num, db_write: num, thumb: num }),
+  processed: objectOf({
+    files_total: num,
+    files_per_sec: num,
+    bytes_total: maybe(num),
+    bytes_per_sec: maybe(num),
+    mb_per_sec: maybe(num),
+  }),
+  scan_running: maybe(bool),
+  processing_active: maybe(bool),
+  discovery: maybe(objectOf({ files_discovered: maybe(num), rate_files_per_sec: maybe(num) })),
+  processing: maybe(objectOf({ files_committed: maybe(num), bytes_total: maybe(num) })),
+  current_scan: maybe(objectOf({ files_processed: maybe(num), elapsed_seconds: maybe(num), status: maybe(str) })),
+  completion: maybe(objectOf({ percentage: num })),
+  db: objectOf({ assets: num }),
+});
+
+export const fileTypesSchema = recordOf(oneOf(num, arrayOf(str), recordOf(num)));
+
+export const healthSchema = objectOf({
+  status: str,
+  version: str,
+  database: str,
+  backend_libraries: arrayOf(str),
+});
+
+export const performanceSchema = objectOf({
+  nazr: objectOf({
+    files_per_sec: num,
+    current_rate: num,
+    mb_per_sec: num,
+    status: str,
+    is_active: bool,
+  }),
+  system_info: objectOf({ cpu_cores: num, cpu_brand: str, accel: str, note: str }),
+  gpu_usage: objectOf({
+    enabled: bool,
+    accel: str,
+    jobs_gpu: num,
+    jobs_cpu: num,
+    consecutive_failures: num,
+    auto_disabled: bool,
+  }),
+  typical_ranges: recordOf(objectOf({ files_per_sec: str, note: str })),
+  current_scan: maybe(
+    objectOf({ files_processed: maybe(num), files_per_sec: maybe(num), elapsed_seconds: maybe(num), status: maybe(str) })
+  ),
+  notes: arrayOf(str),
+});
+
+export const loginSchema = objectOf({
+  token: str,
+  username: str,
+  expires_at: nullable(num),
+  role: optional(enumOf('viewer', 'editor', 'admin')),
+});
+
+export const successSchema = objectOf({ success: bool });
+export const successMessageSchema = objectOf({ success: bool, message: str });
+export const statusMessageSchema = objectOf({ status: str, message: str });
+
+export const scanPathsSchema = arrayOf(objectOf({ path: str, is_default: bool, host_path: maybe(str) }));
+export const removeScanPathSchema = objectOf({
+  success: bool,
+  path_removed: bool,
+  assets_deleted: num,
+  faces_deleted: num,
+  message: str,
+});
+export const pathStatusSchema = objectOf({ scanning: bool, watcher_paused: bool, watching: bool });
+export const browseSchema = objectOf({
+  path: str,
+  entries: arrayOf(objectOf({ name: str, path: str, is_dir: bool })),
+});
+export const clearAllDataSchema = objectOf({
+  success: bool,
+  assets_deleted: num,
+  faces_deleted: num,
+  persons_deleted: num,
+  message: str,
+});
+
+export const unassignedFacesSchema = objectOf({
+  faces: arrayOf(objectOf({ id: num, asset_id: num, bbox: unknownValue, confidence: num })),
+});
+export const faceStatusSchema = objectOf({ enabled: bool, queue_depth: num });
+export const faceProgressSchema = objectOf({
+  enabled: bool,
+  queue_depth: num,
+  models_loaded: objectOf({ scrfd: bool, arcface: bool }),
+  counts: objectOf({ faces_total: num, persons_total: num, assets_with_faces: num }),
+  thresholds: objectOf({ cluster_batch_size: num, remaining_to_next_cluster: num }),
+  status: str,
+});
+export const clearFacialDataSchema = objectOf({
+  success: bool,
+  faces_deleted: num,
+  persons_deleted: num,
+  message: str,
+});
+export const assetFacesSchema = arrayOf(
+  objectOf({ id: num, person_id: nullable(num), bbox_json: str, confidence: num })
+);
+export const faceSettingsSchema = objectOf({
+  confidence_threshold: maybe(num),
+  nms_iou_threshold: maybe(num),
+  cluster_epsilon: maybe(num),
+  min_cluster_size: maybe(num),
+  min_samples: maybe(num),
+  excluded_extensions: maybe(arrayOf(str)),
+});
+export const smartMergeSchema = objectOf({
+  success: bool,
+  persons_merged: num,
+  faces_merged: num,
+  remaining_persons: num,
+});
+
+const personProfileSchema = objectOf({ person_id: num, face_count: num, centroid_dim: num });
+
+export const personSchema = objectOf({ id: num, name: nullable(str), created_at: num });
+export const personsSchema = arrayOf(personSchema);
+export const personSummariesSchema = arrayOf(
+  objectOf({
+    person_id: num,
+    asset_count: num,
+    face_count: nullable(num),
+    cover_face_id: nullable(num),
+    first_seen: nullable(num),
+    last_seen: nullable(num),
+  })
+);
+export const personAssetsSchema = objectOf({ asset_ids: arrayOf(num) });
+export const personFaceSchema = objectOf({ face_id: num });
+export const mergePersonsSchema = objectOf({
+  success: bool,
+  faces_merged: num,
+  moved_face_ids: arrayOf(num),
+  profile_refreshed: maybe(personProfileSchema),
+});
+export const refreshPersonProfileSchema = objectOf({ success: bool, profile: nullable(personProfileSchema) });
+
+export const albumSchema = objectOf({
+  id: num,
+  name: str,
+  description: maybe(str),
+  asset_ids: arrayOf(num),
+  created_at: num,
+  updated_at: num,
+  folder_id: maybe(num),
+  cover_asset_id: maybe(num),
+  sort: maybe(enumOf('manual', 'taken', 'filename')),
+});
+export const albumsSchema = arrayOf(albumSchema);
+export const albumFolderSchema = objectOf({
+  id: num,
+  name: str,
+  parent_id: nullable(num),
+  created_at: num,
+  updated_at: num,
+});
+export const albumFoldersSchema = arrayOf(albumFolderSchema);
+export const albumIdsSchema = arrayOf(num);
+export const duplicateGroupsSchema = objectOf({
+  total: num,
+  groups: arrayOf(objectOf({ sha256: str, size_bytes: num, assets: arrayOf(assetSchema) })),
+});
+export const resolveAssetsSchema = objectOf({ ids: arrayOf(nullable(num)) });
+export const assetFlagsSchema = objectOf({ assets: arrayOf(objectOf({ id: num, flags: num })) });
+export const tagsSchema = objectOf({ tags: arrayOf(objectOf({ name: str, count: num })) });
+export const assetTagsSchema = objectOf({ assets: arrayOf(objectOf({ id: num, tags: arrayOf(str) })) });
+export const assetCaptionSchema = objectOf({ id: num, caption: nullable(str) });
+
+export const statusSchema = objectOf({ status: str });
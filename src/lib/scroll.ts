@@ -1,4 +1,5 @@
 import { useEffect, useLayoutEffect, useRef } from 'react';
+import { profileKey } from './serverProfiles';
 
 const SCROLL_POS_KEY = 'galleryScrollPosition';
 const SCROLL_TO_ID_KEY = 'galleryScrollToId';
@@ -16,9 +17,9 @@ export function setManualScrollRestoration() {
 export function saveGalleryScroll(targetAssetId?: number) {
   const y = window.scrollY || window.pageYOffset || document.documentElement.scrollTop || 0;
   try {
-    sessionStorage.setItem(SCROLL_POS_KEY, String(y));
+    sessionStorage.setItem(profileKey(SCROLL_POS_KEY), String(y));
     if (typeof targetAssetId === 'number') {
-      sessionStorage.setItem(SCROLL_TO_ID_KEY, String(targetAssetId));
+      sessionStorage.setItem(profileKey(SCROLL_TO_ID_KEY), String(targetAssetId));
     }
   } catch {
     // ignore storage failures (private mode, quota, etc.)
@@ -49,7 +50,7 @@ export function useGalleryScrollRestoration(opts: {
   // First, attempt an immediate lock to prevent jump to top on mount
   useLayoutEffect(() => {
     if (restoredForKeyRef.current === locationKey) return;
-    const raw = sessionStorage.getItem(SCROLL_POS_KEY);
+    const raw = sessionStorage.getItem(profileKey(SCROLL_POS_KEY));
     if (raw != null) {
       setManualScrollRestoration();
       const y = parseInt(raw, 10);
@@ -62,12 +63,12 @@ export function useGalleryScrollRestoration(opts: {
   useEffect(() => {
     if (restoredForKeyRef.current === locationKey) return;
 
-    const posRaw = sessionStorage.getItem(SCROLL_POS_KEY);
+    const posRaw = sessionStorage.getItem(profileKey(SCROLL_POS_KEY));
     if (posRaw == null) return; // nothing to restore
 
     setManualScrollRestoration();
     const y = parseInt(posRaw, 10);
-    const idRaw = sessionStorage.getItem(SCROLL_TO_ID_KEY);
+    const idRaw = sessionStorage.getItem(profileKey(SCROLL_TO_ID_KEY));
     const targetId = idRaw ? parseInt(idRaw, 10) : null;
 
     const tryRestore = () => {
@@ -90,8 +91,8 @@ export function useGalleryScrollRestoration(opts: {
     const finalize = () => {
       restoredForKeyRef.current = locationKey;
       try {
-        sessionStorage.removeItem(SCROLL_POS_KEY);
-        sessionStorage.removeItem(SCROLL_TO_ID_KEY);
+        sessionStorage.removeItem(profileKey(SCROLL_POS_KEY));
+        sessionStorage.removeItem(profileKey(SCROLL_TO_ID_KEY));
       } catch {
         // ignore
       }
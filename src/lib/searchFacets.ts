@@ -0,0 +1,72 @@
+import type { Asset, FacetCount, SearchFilters, SearchResultFacets } from '../types';
+
+// Facet groups of the Search page. Each maps a facet value onto the filter
+// that drills down to it, so a click narrows the current search.
+
+export interface FacetGroup {
+  key: keyof SearchResultFacets;
+  label: string;
+  isActive: (filters: SearchFilters, value: string) => boolean;
+  // Filters with the value applied, or removed when it is already active
+  toggle: (filters: SearchFilters, value: string) => SearchFilters;
+  format?: (value: string) => string;
+}
+
+const field = (name: 'camera_make' | 'camera_model' | 'lens' | 'platformType' | 'person') => ({
+  isActive: (filters: SearchFilters, value: string) => filters[name] === value,
+  toggle: (filters: SearchFilters, value: string) => ({ ...filters, [name]: filters[name] === value ? undefined : value }),
+});
+
+const PLATFORM_LABELS: Record<string, string> = { whatsapp: 'WhatsApp', pxl: 'Google Pixel' };
+
+export const FACET_GROUPS: FacetGroup[] = [
+  { key: 'years', label: 'Year', ...yearFacet() },
+  { key: 'camera_makes', label: 'Camera', ...field('camera_make') },
+  { key: 'camera_models', label: 'Model', ...field('camera_model') },
+  { key: 'lenses', label: 'Lens', ...field('lens') },
+  {
+    key: 'file_types',
+    label: 'File type',
+    isActive: (filters, value) => !!filters.fileTypes?.includes(value),
+    toggle: (filters, value) => ({
+      ...filters,
+      fileTypes: filters.fileTypes?.includes(value) ? filters.fileTypes.filter((t) => t !== value) : [value],
+    }),
+  },
+  { key: 'platform_types', label: 'Platform', ...field('platformType'), format: (value) => PLATFORM_LABELS[value] ?? value },
+  { key: 'persons', label: 'People', ...field('person') },
+];
+
+// A year facet sets the date range to that calendar year
+function yearFacet() {
+  const range = (year: string) => ({ from: `${year}-01-01`, to: `${year}-12-31` });
+  return {
+    isActive: (filters: SearchFilters, value: string) => filters.from === range(value).from && filters.to === range(value).to,
+    toggle: (filters: SearchFilters, value: string) =>
+      filters.from === range(value).from && filters.to === range(value).to
+        ? { ...filters, from: undefined, to: undefined }
+        : { ...filters, ...range(value) },
+  };
+}
+
+function count(values: Array<string | undefined>): FacetCount[] {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    if (value) counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+  return [...counts].map(([value, n]) => ({ value, count: n })).sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+}
+
+// Facets of the loaded pages, for backends without `/assets/search/facets`.
+// Platform and people need the backend and stay empty.
+export function facetsFromAssets(assets: Asset[]): SearchResultFacets {
+  return {
+    camera_makes: count(assets.map((a) => a.camera_make)),
+    camera_models: count(assets.map((a) => a.camera_model)),
+    lenses: count(assets.map((a) => a.lens_model)),
+    years: count(assets.map((a) => String(new Date((a.taken_at ?? a.mtime_ns / 1_000_000_000) * 1000).getUTCFullYear()))),
+    file_types: count(assets.map((a) => a.mime)),
+    platform_types: [],
+    persons: [],
+  };
+}
@@ -0,0 +1,90 @@
+import { isFavorite, ratingOf } from './assetFlags';
+import type { Asset, SearchFilters, SearchResult } from '../types';
+
+// Advanced search filters live in the Search page URL (`minSize`, `fileTypes`,
+// ...) and are sent to `/assets/search` as snake_case query parameters.
+
+const LIST_KEYS = ['fileTypes', 'ext'] as const;
+const NUMBER_KEYS = ['minSize', 'maxSize', 'minDuration', 'maxDuration', 'minRating'] as const;
+const BOOLEAN_KEYS = ['favorite'] as const;
+const STRING_KEYS = ['from', 'to', 'camera_make', 'camera_model', 'platformType', 'lens', 'person', 'album', 'folder', 'tag'] as const;
+
+export function parseSearchFilters(params: URLSearchParams): SearchFilters {
+  const filters: SearchFilters = {};
+  for (const key of STRING_KEYS) filters[key] = params.get(key) || undefined;
+  for (const key of NUMBER_KEYS) filters[key] = params.get(key) ? Number(params.get(key)) : undefined;
+  for (const key of BOOLEAN_KEYS) filters[key] = params.get(key) === '1' || undefined;
+  for (const key of LIST_KEYS) {
+    const list = params.get(key)?.split(',').map((t) => t.trim()).filter(Boolean);
+    filters[key] = list?.length ? list : undefined;
+  }
+  return filters;
+}
+
+export function writeSearchFilters(params: URLSearchParams, filters: SearchFilters) {
+  for (const key of STRING_KEYS) if (filters[key]) params.set(key, filters[key]);
+  for (const key of NUMBER_KEYS) if (filters[key]) params.set(key, String(filters[key]));
+  for (const key of BOOLEAN_KEYS) if (filters[key]) params.set(key, '1');
+  for (const key of LIST_KEYS) if (filters[key]?.length) params.set(key, filters[key].join(','));
+}
+
+export function hasSearchFilters(filters: SearchFilters): boolean {
+  return (
+    STRING_KEYS.some((key) => !!filters[key]) ||
+    NUMBER_KEYS.some((key) => !!filters[key]) ||
+    BOOLEAN_KEYS.some((key) => !!filters[key]) ||
+    LIST_KEYS.some((key) => !!filters[key]?.length)
+  );
+}
+
+function matchesFileType(asset: Asset, type: string): boolean {
+  return type.includes('/') ? asset.mime.startsWith(type) : asset.mime.includes(type);
+}
+
+// Backends that predate a filter ignore its parameter and leave it out of
+// `applied_filters`. Apply whatever they skipped to the loaded pages; totals
+// and match counts are then for the unfiltered query.
+export function clientSideFilters(filters: SearchFilters, result: SearchResult | undefined): SearchFilters {
+  const applied = new Set(result?.applied_filters ?? []);
+  return {
+    minSize: applied.has('min_size') ? undefined : filters.minSize,
+    maxSize: applied.has('max_size') ? undefined : filters.maxSize,
+    fileTypes: applied.has('file_types') ? undefined : filters.fileTypes,
+    ext: applied.has('ext') ? undefined : filters.ext,
+    lens: applied.has('lens') ? undefined : filters.lens,
+    folder: applied.has('folder') ? undefined : filters.folder,
+    minDuration: applied.has('min_duration') ? undefined : filters.minDuration,
+    maxDuration: applied.has('max_duration') ? undefined : filters.maxDuration,
+    favorite: applied.has('favorite') ? undefined : filters.favorite,
+    minRating: applied.has('min_rating') ? undefined : filters.minRating,
+    tag: applied.has('tag') ? undefined : filters.tag,
+  };
+}
+
+// Filters that need the backend and were not applied by it
+export function ignoredSearchFilters(filters: SearchFilters, result: SearchResult | undefined): string[] {
+  if (!result) return [];
+  const applied = new Set(result.applied_filters ?? []);
+  return (['person', 'album'] as const).filter((key) => filters[key] && !applied.has(key));
+}
+
+export function applyClientSideFilters(assets: Asset[], filters: SearchFilters): Asset[] {
+  if (!hasSearchFilters(filters)) return assets;
+  const lens = filters.lens?.toLowerCase();
+  const tag = filters.tag?.toLowerCase();
+  return assets.filter((asset) => {
+    if (filters.minSize && asset.size_bytes < filters.minSize) return false;
+    if (filters.maxSize && asset.size_bytes > filters.maxSize) return false;
+    if (filters.fileTypes?.length && !filters.fileTypes.some((type) => matchesFileType(asset, type))) return false;
+    if (filters.ext?.length && !filters.ext.includes(asset.ext.replace(/^\./, '').toLowerCase())) return false;
+    if (lens && !asset.lens_model?.toLowerCase().includes(lens)) return false;
+    if (filters.folder && !asset.dirname.startsWith(filters.folder)) return false;
+    const seconds = (asset.duration_ms ?? 0) / 1000;
+    if (filters.minDuration && seconds < filters.minDuration) return false;
+    if (filters.maxDuration && seconds > filters.maxDuration) return false;
+    if (filters.favorite && !isFavorite(asset.flags)) return false;
+    if (filters.minRating && ratingOf(asset.flags) < filters.minRating) return false;
+    if (tag && !asset.tags?.some((t) => t.toLowerCase() === tag)) return false;
+    return true;
+  });
+}
@@ -0,0 +1,250 @@
+import type { SearchFilters } from '../types';
+
+// Query language for the search box. Free text is sent as `q`; `key:value`
+// tokens map onto the search filters, e.g.
+//
+//   beach camera:canon lens:"50mm" ext:heic after:2018 before:2020-01
+//   person:"Alice" album:Trips size:>10mb is:video duration:>60s
+//   is:favorite rating:>=4 tag:sunset
+//
+// Values containing spaces are quoted. As with `rating:`, `>` and `<` are
+// strict and `>=` and `<=` include the bound, so `size:>10mb` leaves out a
+// file of exactly 10 MB; `before:` excludes the given period and `after:`
+// includes it.
+
+export interface QueryToken {
+  start: number;
+  end: number;
+  // Lower-cased filter key, or null for free text
+  key: string | null;
+  value: string;
+  error?: string;
+}
+
+export interface ParsedSearchQuery {
+  text: string;
+  filters: SearchFilters;
+  tokens: QueryToken[];
+  errors: QueryToken[];
+}
+
+const SIZE_UNITS: Record<string, number> = { b: 1, k: 1024, kb: 1024, m: 1024 ** 2, mb: 1024 ** 2, g: 1024 ** 3, gb: 1024 ** 3 };
+const DURATION_UNITS: Record<string, number> = { s: 1, sec: 1, m: 60, min: 60, h: 3600 };
+
+// Parse `>10mb`, `<=2m`, `1mb..5mb` into inclusive bounds in base units;
+// amounts are whole bytes or seconds, so `>n` becomes a minimum of n + 1
+function parseRange(value: string, units: Record<string, number>, defaultUnit: string): { min?: number; max?: number } | string {
+  const amount = (raw: string): number | null => {
+    const match = /^(\d+(?:\.\d+)?)([a-z]*)$/i.exec(raw.trim());
+    if (!match) return null;
+    const unit = match[2].toLowerCase() || defaultUnit;
+    return unit in units ? Math.round(Number(match[1]) * units[unit]) : null;
+  };
+  const example = `use >, < or a range, e.g. >10${defaultUnit === 'b' ? 'mb' : defaultUnit} or 1..5`;
+  const range = /^(.+)\.\.(.+)$/.exec(value);
+  if (range) {
+    const min = amount(range[1]);
+    const max = amount(range[2]);
+    if (min === null || max === null) return `invalid range, ${example}`;
+    return min <= max ? { min, max } : 'range start is after its end';
+  }
+  const bound = /^(>=?|<=?)(.+)$/.exec(value);
+  if (!bound) return example;
+  const n = amount(bound[2]);
+  if (n === null) return `invalid amount "${bound[2]}", units: ${Object.keys(units).join(', ')}`;
+  const strict = bound[1].length === 1;
+  return bound[1].startsWith('>') ? { min: strict ? n + 1 : n } : { max: strict ? n - 1 : n };
+}
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0');
+}
+
+function isoDay(date: Date): string {
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+}
+
+// `2018`, `2018-06` or `2018-06-15` as the first day of that period
+function parsePeriodStart(value: string): Date | null {
+  const match = /^(\d{4})(?:-(\d{1,2}))?(?:-(\d{1,2}))?$/.exec(value);
+  if (!match || (match[3] && !match[2])) return null;
+  const [year, month, day] = [Number(match[1]), Number(match[2] ?? 1), Number(match[3] ?? 1)];
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? date : null;
+}
+
+type FilterParser = (value: string, filters: SearchFilters) => string | void;
+
+const text = (field: 'camera_make' | 'camera_model' | 'lens' | 'person' | 'album' | 'folder' | 'tag'): FilterParser =>
+  (value, filters) => {
+    filters[field] = value;
+  };
+
+const FILTERS: Record<string, FilterParser> = {
+  camera: text('camera_make'),
+  model: text('camera_model'),
+  lens: text('lens'),
+  person: text('person'),
+  album: text('album'),
+  folder: text('folder'),
+  tag: text('tag'),
+  ext: (value, filters) => {
+    const exts = value.split(',').map((e) => e.trim().replace(/^\./, '').toLowerCase()).filter(Boolean);
+    if (exts.some((e) => !/^[a-z0-9]+$/.test(e))) return 'expected extensions like heic or jpg,png';
+    filters.ext = [...(filters.ext ?? []), ...exts];
+  },
+  type: (value, filters) => {
+    if (!/^[a-z]+\/[a-z0-9.+-]*$/i.test(value)) return 'expected a MIME type like image/jpeg';
+    filters.fileTypes = [...(filters.fileTypes ?? []), value.toLowerCase()];
+  },
+  is: (value, filters) => {
+    const kind = value.toLowerCase();
+    if (kind === 'favorite' || kind === 'fav') {
+      filters.favorite = true;
+      return;
+    }
+    const mime = kind === 'video' ? 'video/' : kind === 'photo' || kind === 'image' ? 'image/' : null;
+    if (!mime) return 'expected is:photo, is:video or is:favorite';
+    filters.fileTypes = [...(filters.fileTypes ?? []), mime];
+  },
+  platform: (value, filters) => {
+    const platform = value.toLowerCase();
+    if (platform !== 'whatsapp' && platform !== 'pxl') return 'expected platform:whatsapp or platform:pxl';
+    filters.platformType = platform;
+  },
+  rating: (value, filters) => {
+    // At least the given number of stars; `>3` means 4 or more
+    const match = /^(>=?)?([0-5])$/.exec(value);
+    if (!match) return 'expected a star rating like 4 or >=3';
+    const min = Number(match[2]) + (match[1] === '>' ? 1 : 0);
+    if (min < 1 || min > 5) return 'rating must be between 1 and 5';
+    filters.minRating = min;
+  },
+  after: (value, filters) => {
+    const start = parsePeriodStart(value);
+    if (!start) return 'expected a date like 2018, 2018-06 or 2018-06-15';
+    filters.from = isoDay(start);
+  },
+  before: (value, filters) => {
+    const start = parsePeriodStart(value);
+    if (!start) return 'expected a date like 2020, 2020-01 or 2020-01-31';
+    filters.to = isoDay(new Date(start.getTime() - 86400000));
+  },
+  size: (value, filters) => {
+    const range = parseRange(value, SIZE_UNITS, 'b');
+    if (typeof range === 'string') return range;
+    filters.minSize = range.min;
+    filters.maxSize = range.max;
+  },
+  duration: (value, filters) => {
+    const range = parseRange(value, DURATION_UNITS, 's');
+    if (typeof range === 'string') return range;
+    filters.minDuration = range.min;
+    filters.maxDuration = range.max;
+  },
+};
+
+export const SEARCH_QUERY_KEYS = Object.keys(FILTERS);
+
+function tokenize(input: string): QueryToken[] {
+  const tokens: QueryToken[] = [];
+  let i = 0;
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++;
+      continue;
+    }
+    const start = i;
+    const keyMatch = /^([a-z]+):/i.exec(input.slice(i));
+    const key = keyMatch ? keyMatch[1].toLowerCase() : null;
+    if (keyMatch) i += keyMatch[0].length;
+    let value: string;
+    let error: string | undefined;
+    if (input[i] === '"') {
+      const close = input.indexOf('"', i + 1);
+      value = input.slice(i + 1, close === -1 ? input.length : close);
+      i = close === -1 ? input.length : close + 1;
+      if (close === -1) error = 'missing closing quote';
+    } else {
+      value = /^\S*/.exec(input.slice(i))![0];
+      i += value.length;
+    }
+    tokens.push({ start, end: i, key, value, error });
+  }
+  return tokens;
+}
+
+export function parseSearchQuery(input: string): ParsedSearchQuery {
+  const filters: SearchFilters = {};
+  const words: string[] = [];
+  const tokens = tokenize(input);
+  for (const token of tokens) {
+    if (token.error) continue;
+    if (token.key === null) {
+      words.push(input.slice(token.start, token.end));
+      continue;
+    }
+    const parse = FILTERS[token.key];
+    if (!parse) {
+      token.error = `unknown filter, try ${SEARCH_QUERY_KEYS.join(', ')}`;
+    } else if (!token.value) {
+      token.error = 'missing value';
+    } else {
+      token.error = parse(token.value, filters) || undefined;
+    }
+  }
+  return { text: words.join(' '), filters, tokens, errors: tokens.filter((t) => t.error) };
+}
+
+function quote(value: string): string {
+  const clean = value.replace(/"/g, '');
+  return /\s/.test(clean) || clean === '' ? `"${clean}"` : clean;
+}
+
+function formatAmount(amount: number, units: Record<string, number>, names: string[]): string {
+  for (const name of names) {
+    if (amount >= units[name] && amount % units[name] === 0) return `${amount / units[name]}${name}`;
+  }
+  return String(amount);
+}
+
+function formatRange(min: number | undefined, max: number | undefined, format: (n: number) => string): string | null {
+  if (min !== undefined && max !== undefined) return `${format(min)}..${format(max)}`;
+  if (min !== undefined) return `>=${format(min)}`;
+  if (max !== undefined) return `<=${format(max)}`;
+  return null;
+}
+
+// Inverse of parseSearchQuery, used to show the URL's filters in the search box
+export function formatSearchQuery(text: string, filters: SearchFilters): string {
+  const parts: string[] = text.trim() ? [text.trim()] : [];
+  const add = (key: string, value: string | undefined) => {
+    if (value) parts.push(`${key}:${quote(value)}`);
+  };
+  add('camera', filters.camera_make);
+  add('model', filters.camera_model);
+  add('lens', filters.lens);
+  add('person', filters.person);
+  add('album', filters.album);
+  add('folder', filters.folder);
+  add('tag', filters.tag);
+  if (filters.ext?.length) add('ext', filters.ext.join(','));
+  for (const type of filters.fileTypes ?? []) {
+    if (type === 'video/') add('is', 'video');
+    else if (type === 'image/') add('is', 'photo');
+    else add('type', type);
+  }
+  if (filters.favorite) add('is', 'favorite');
+  if (filters.minRating) add('rating', `>=${filters.minRating}`);
+  add('platform', filters.platformType);
+  add('after', filters.from);
+  if (filters.to) {
+    const end = parsePeriodStart(filters.to);
+    if (end) add('before', isoDay(new Date(end.getTime() + 86400000)));
+  }
+  const bytes = (n: number) => formatAmount(n, SIZE_UNITS, ['gb', 'mb', 'kb']);
+  const seconds = (n: number) => formatAmount(n, DURATION_UNITS, ['h', 'm', 's']);
+  add('size', formatRange(filters.minSize, filters.maxSize, bytes) ?? undefined);
+  add('duration', formatRange(filters.minDuration, filters.maxDuration, seconds) ?? undefined);
+  return parts.join(' ');
+}
@@ -0,0 +1,204 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { api } from './api';
+import { getAlbums } from './albums';
+import { useTagList } from './tags';
+import { profileKey } from './serverProfiles';
+import { SEARCH_QUERY_KEYS, parseSearchQuery, type QueryToken } from './searchQuery';
+import type { FacetCount, FileTypesResponse, SearchFacets, TagCount } from '../types';
+
+// Autocomplete for the header search box. Values come from the facet
+// endpoint (cameras, lenses, folders), persons, albums, tags and `/file-types`;
+// recent queries are kept per server in localStorage.
+
+export type SuggestionKind = 'recent' | 'filter' | 'camera' | 'model' | 'lens' | 'folder' | 'person' | 'album' | 'tag' | 'type';
+
+export interface SearchSuggestion {
+  kind: SuggestionKind;
+  label: string;
+  // Replaces the token being typed; recent searches replace the whole query
+  text: string;
+  count?: number;
+}
+
+const RECENT_KEY = 'nazr.recentSearches';
+const MAX_RECENT = 8;
+const MAX_SUGGESTIONS = 10;
+const FACET_DEBOUNCE_MS = 150;
+
+export function getRecentSearches(): string[] {
+  try {
+    const raw = localStorage.getItem(profileKey(RECENT_KEY));
+    const list: unknown = raw ? JSON.parse(raw) : [];
+    return Array.isArray(list) ? list.filter((q): q is string => typeof q === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+export function addRecentSearch(query: string) {
+  const q = query.trim();
+  if (!q) return;
+  const list = [q, ...getRecentSearches().filter((r) => r !== q)].slice(0, MAX_RECENT);
+  localStorage.setItem(profileKey(RECENT_KEY), JSON.stringify(list));
+}
+
+// The token the caret is in, when typing at the end of the query
+export function currentToken(input: string): QueryToken | null {
+  const last = parseSearchQuery(input).tokens.at(-1);
+  return last && last.end === input.length ? last : null;
+}
+
+// Replace the token being typed with a suggestion
+export function applySuggestion(input: string, suggestion: SearchSuggestion): string {
+  if (suggestion.kind === 'recent') return suggestion.text;
+  const token = currentToken(input);
+  const head = token ? input.slice(0, token.start) : input;
+  // Keys stay open for their value; completed values start the next token
+  return `${head}${suggestion.text}${suggestion.kind === 'filter' ? '' : ' '}`;
+}
+
+function quote(value: string): string {
+  return /\s/.test(value) ? `"${value.replace(/"/g, '')}"` : value;
+}
+
+interface SuggestionSources {
+  facets?: SearchFacets;
+  persons: string[];
+  albums: string[];
+  tags: TagCount[];
+  mimeTypes: string[];
+  recent: string[];
+}
+
+const matches = (value: string, needle: string) => value.toLowerCase().includes(needle);
+
+function valueSuggestions(key: string, needle: string, sources: SuggestionSources): SearchSuggestion[] {
+  const fromFacets = (kind: SuggestionKind, facets: FacetCount[] | undefined) =>
+    (facets ?? [])
+      .filter((f) => matches(f.value, needle))
+      .map((f) => ({ kind, label: f.value, text: `${key}:${quote(f.value)}`, count: f.count }));
+  const fromNames = (kind: SuggestionKind, names: string[]) =>
+    names.filter((name) => matches(name, needle)).map((name) => ({ kind, label: name, text: `${key}:${quote(name)}` }));
+
+  switch (key) {
+    case 'camera':
+      return fromFacets('camera', sources.facets?.camera_makes);
+    case 'model':
+      return fromFacets('model', sources.facets?.camera_models);
+    case 'lens':
+      return fromFacets('lens', sources.facets?.lenses);
+    case 'folder':
+      return fromFacets('folder', sources.facets?.dirnames);
+    case 'person':
+      return fromNames('person', sources.persons);
+    case 'album':
+      return fromNames('album', sources.albums);
+    case 'tag':
+      return fromFacets('tag', sources.tags.map((t) => ({ value: t.name, count: t.count })));
+    case 'type':
+      return fromNames('type', sources.mimeTypes);
+    case 'is':
+      return fromNames('filter', ['photo', 'video', 'favorite']);
+    case 'platform':
+      return fromNames('filter', ['whatsapp', 'pxl']);
+    default:
+      return [];
+  }
+}
+
+export function buildSuggestions(input: string, sources: SuggestionSources): SearchSuggestion[] {
+  if (!input.trim()) {
+    return sources.recent.map((q) => ({ kind: 'recent', label: q, text: q }));
+  }
+  const token = currentToken(input);
+  if (!token) return [];
+  const needle = token.value.toLowerCase();
+  if (token.key !== null) {
+    return valueSuggestions(token.key, needle, sources).slice(0, MAX_SUGGESTIONS);
+  }
+
+  const suggestions: SearchSuggestion[] = [
+    ...SEARCH_QUERY_KEYS.filter((key) => key.startsWith(needle)).map((key) => ({
+      kind: 'filter' as const,
+      label: `${key}:`,
+      text: `${key}:`,
+    })),
+    ...sources.recent.filter((q) => q !== input && matches(q, input.trim().toLowerCase())).map((q) => ({
+      kind: 'recent' as const,
+      label: q,
+      text: q,
+    })),
+  ];
+  if (needle.length >= 2) {
+    suggestions.push(
+      ...valueSuggestions('camera', needle, sources),
+      ...valueSuggestions('model', needle, sources),
+      ...valueSuggestions('lens', needle, sources),
+      ...valueSuggestions('person', needle, sources),
+      ...valueSuggestions('album', needle, sources),
+      ...valueSuggestions('tag', needle, sources),
+      // Free text already matches folder names
+      ...(sources.facets?.dirnames ?? [])
+        .filter((f) => matches(f.value, needle))
+        .map((f) => ({ kind: 'folder' as const, label: f.value, text: f.value, count: f.count }))
+    );
+  }
+  return suggestions.slice(0, MAX_SUGGESTIONS);
+}
+
+// MIME types listed by `/file-types`, skipping its extension breakdowns
+function mimeTypesOf(fileTypes: FileTypesResponse | undefined): string[] {
+  return Object.entries(fileTypes ?? {})
+    .filter(([key, value]) => key.includes('/') && typeof value === 'number')
+    .map(([key]) => key)
+    .sort();
+}
+
+export function useSearchSuggestions(input: string, enabled: boolean): SearchSuggestion[] {
+  const token = enabled ? currentToken(input) : null;
+  const prefix = token?.value ?? '';
+  const [facetPrefix, setFacetPrefix] = useState(prefix);
+  useEffect(() => {
+    const timeoutId = setTimeout(() => setFacetPrefix(prefix), FACET_DEBOUNCE_MS);
+    return () => clearTimeout(timeoutId);
+  }, [prefix]);
+
+  const { data: facets } = useQuery({
+    queryKey: ['searchFacets', facetPrefix],
+    queryFn: () => api.searchFacets(facetPrefix),
+    enabled: enabled && facetPrefix.length > 0,
+    staleTime: 60000,
+  });
+  const { data: persons } = useQuery({
+    queryKey: ['persons'],
+    queryFn: () => api.listPersons(),
+    enabled,
+    staleTime: 60000,
+  });
+  const { data: albums } = useQuery({
+    queryKey: ['albums'],
+    queryFn: () => getAlbums(),
+    enabled,
+    staleTime: 60000,
+  });
+  const { data: tags } = useTagList(enabled);
+  const { data: fileTypes } = useQuery<FileTypesResponse>({
+    queryKey: ['fileTypes'],
+    queryFn: () => api.fileTypes(),
+    enabled,
+    staleTime: 60000,
+  });
+
+  return useMemo(() => {
+    if (!enabled) return [];
+    return buildSuggestions(input, {
+      facets,
+      persons: (persons ?? []).flatMap((p) => (p.name ? [p.name] : [])),
+      albums: (albums ?? []).map((a) => a.name),
+      tags: tags ?? [],
+      mimeTypes: mimeTypesOf(fileTypes),
+      recent: getRecentSearches(),
+    });
+  }, [enabled, input, facets, persons, albums, tags, fileTypes]);
+}
@@ -0,0 +1,103 @@
+import { create } from 'zustand';
+import { API_BASE_URL } from './config';
+
+// Named nazr backends the UI can switch between at runtime. The build-time
+// VITE_API_BASE_URL becomes the built-in "Default" profile.
+
+export interface ServerProfile {
+  id: string;
+  name: string;
+  baseUrl: string;
+}
+
+export const DEFAULT_PROFILE_ID = 'default';
+
+const PROFILES_KEY = 'nazr.serverProfiles';
+const ACTIVE_PROFILE_KEY = 'nazr.activeServerProfile';
+
+export function normalizeBaseUrl(url: string): string {
+  return url.trim().replace(/\/+$/, '');
+}
+
+function loadProfiles(): ServerProfile[] {
+  const fallback: ServerProfile[] = [{ id: DEFAULT_PROFILE_ID, name: 'Default', baseUrl: API_BASE_URL }];
+  try {
+    const raw = localStorage.getItem(PROFILES_KEY);
+    const parsed = raw ? (JSON.parse(raw) as ServerProfile[]) : [];
+    const valid = Array.isArray(parsed) ? parsed.filter((p) => p && p.id && p.baseUrl) : [];
+    return valid.some((p) => p.id === DEFAULT_PROFILE_ID) ? valid : [...fallback, ...valid];
+  } catch {
+    return fallback;
+  }
+}
+
+function saveProfiles(profiles: ServerProfile[]) {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+}
+
+interface ServerProfileState {
+  profiles: ServerProfile[];
+  activeId: string;
+  addProfile: (name: string, baseUrl: string) => ServerProfile;
+  updateProfile: (id: string, changes: Partial<Omit<ServerProfile, 'id'>>) => void;
+  removeProfile: (id: string) => void;
+  setActiveProfile: (id: string) => void;
+}
+
+export const useServerProfileStore = create<ServerProfileState>((set, get) => {
+  const profiles = loadProfiles();
+  const storedActive = localStorage.getItem(ACTIVE_PROFILE_KEY);
+
+  return {
+    profiles,
+    activeId: profiles.some((p) => p.id === storedActive) ? storedActive! : DEFAULT_PROFILE_ID,
+    addProfile: (name, baseUrl) => {
+      const profile: ServerProfile = {
+        id: `srv-${Date.now().toString(36)}`,
+        name: name.trim() || baseUrl,
+        baseUrl: normalizeBaseUrl(baseUrl),
+      };
+      const next = [...get().profiles, profile];
+      saveProfiles(next);
+      set({ profiles: next });
+      return profile;
+    },
+    updateProfile: (id, changes) => {
+      const next = get().profiles.map((p) =>
+        p.id === id
+          ? { ...p, ...changes, ...(changes.baseUrl !== undefined && { baseUrl: normalizeBaseUrl(changes.baseUrl) }) }
+          : p
+      );
+      saveProfiles(next);
+      set({ profiles: next });
+    },
+    removeProfile: (id) => {
+      // The default profile is the build-time backend and cannot be removed
+      if (id === DEFAULT_PROFILE_ID) return;
+      const next = get().profiles.filter((p) => p.id !== id);
+      saveProfiles(next);
+      set({ profiles: next });
+      if (get().activeId === id) get().setActiveProfile(DEFAULT_PROFILE_ID);
+    },
+    setActiveProfile: (id) => {
+      if (!get().profiles.some((p) => p.id === id)) return;
+      localStorage.setItem(ACTIVE_PROFILE_KEY, id);
+      set({ activeId: id });
+    },
+  };
+});
+
+export function getActiveProfile(): ServerProfile {
+  const { profiles, activeId } = useServerProfileStore.getState();
+  return profiles.find((p) => p.id === activeId) ?? profiles[0];
+}
+
+export function getApiBaseUrl(): string {
+  return getActiveProfile().baseUrl;
+}
+
+// Storage key for per-server UI state. The default profile keeps the plain
+// key so state saved before profiles existed still applies to it.
+export function profileKey(key: string, profileId: string = useServerProfileStore.getState().activeId): string {
+  return profileId === DEFAULT_PROFILE_ID ? key : `${key}@${profileId}`;
+}
@@ -0,0 +1,29 @@
+// XMP sidecars carrying an asset's caption as `dc:description`, which photo
+// managers such as Lightroom, darktable and digiKam pick up on import.
+
+function escapeXml(text: string): string {
+  return text.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+// Named after the whole file name (`IMG_1.jpg.xmp`), so a JPEG and a RAW
+// with the same stem keep separate sidecars
+export function sidecarName(fileName: string): string {
+  return `${fileName}.xmp`;
+}
+
+export function captionSidecar(caption: string): string {
+  return `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+ <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+  <rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/">
+   <dc:description>
+    <rdf:Alt>
+     <rdf:li xml:lang="x-default">${escapeXml(caption)}</rdf:li>
+    </rdf:Alt>
+   </dc:description>
+  </rdf:Description>
+ </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>
+`;
+}
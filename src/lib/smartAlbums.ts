@@ -0,0 +1,138 @@
+import { create } from 'zustand';
+import { useQuery } from '@tanstack/react-query';
+import { api } from './api';
+import { addAssetsToAlbum, createAlbum, type Album } from './albums';
+import { useStats } from './hooks';
+import { profileKey, useServerProfileStore } from './serverProfiles';
+import { applyClientSideFilters, clientSideFilters, hasSearchFilters, parseSearchFilters } from './searchFilters';
+import { searchParamsFor } from './savedSearches';
+import type { SearchFilters } from '../types';
+
+// Albums defined by rules instead of an asset list. The rules are search
+// filters, so an album resolves through `/assets/search` and picks up newly
+// scanned assets on its own. Definitions are stored per server profile.
+
+export type SmartAlbumRules = Pick<
+  SearchFilters,
+  'from' | 'to' | 'camera_make' | 'camera_model' | 'person' | 'folder' | 'fileTypes' | 'minSize' | 'maxSize' | 'platformType'
+>;
+
+export interface SmartAlbum {
+  id: string; // "smart-" prefixed, never clashes with backend album ids
+  name: string;
+  description?: string;
+  rules: SmartAlbumRules;
+  createdAt: number; // epoch ms
+  updatedAt: number;
+}
+
+const SMART_ALBUMS_KEY = 'nazr.smartAlbums';
+// Page size when collecting every asset of a smart album
+const RESOLVE_PAGE_SIZE = 500;
+
+function loadSmartAlbums(): SmartAlbum[] {
+  try {
+    const raw = localStorage.getItem(profileKey(SMART_ALBUMS_KEY));
+    const list: unknown = raw ? JSON.parse(raw) : [];
+    return Array.isArray(list) ? (list as SmartAlbum[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+// Drop unset rules so stored definitions and query keys stay stable
+function normalizeRules(rules: SmartAlbumRules): SmartAlbumRules {
+  return parseSearchFilters(searchParamsFor('', rules));
+}
+
+export function hasSmartAlbumRules(rules: SmartAlbumRules): boolean {
+  return hasSearchFilters(rules);
+}
+
+interface SmartAlbumsState {
+  albums: SmartAlbum[];
+  create: (name: string, description: string | undefined, rules: SmartAlbumRules) => SmartAlbum;
+  update: (id: string, changes: Partial<Pick<SmartAlbum, 'name' | 'description' | 'rules'>>) => void;
+  remove: (id: string) => void;
+}
+
+export const useSmartAlbumsStore = create<SmartAlbumsState>((set, get) => {
+  const save = (albums: SmartAlbum[]) => {
+    localStorage.setItem(profileKey(SMART_ALBUMS_KEY), JSON.stringify(albums));
+    set({ albums });
+  };
+
+  return {
+    albums: loadSmartAlbums(),
+    create: (name, description, rules) => {
+      const album: SmartAlbum = {
+        id: `smart-${Date.now().toString(36)}`,
+        name: name.trim(),
+        description,
+        rules: normalizeRules(rules),
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+      };
+      save([...get().albums, album]);
+      return album;
+    },
+    update: (id, changes) =>
+      save(
+        get().albums.map((a) =>
+          a.id === id
+            ? { ...a, ...changes, rules: normalizeRules(changes.rules ?? a.rules), updatedAt: Date.now() }
+            : a
+        )
+      ),
+    remove: (id) => save(get().albums.filter((a) => a.id !== id)),
+  };
+});
+
+// Each server has its own smart albums
+useServerProfileStore.subscribe((state, prev) => {
+  if (state.activeId === prev.activeId) return;
+  useSmartAlbumsStore.setState({ albums: loadSmartAlbums() });
+});
+
+// Library size from the stats stream; changes whenever a scan adds or removes assets
+export function useLibraryVersion(): number | undefined {
+  const { data: stats } = useStats();
+  return stats?.db.assets;
+}
+
+// Number of assets matching an album's rules, refreshed as the library changes.
+// When the backend ignores some rules the matches are counted in the browser.
+export function useSmartAlbumTotal(album: SmartAlbum) {
+  const libraryVersion = useLibraryVersion();
+  return useQuery({
+    queryKey: ['smartAlbumTotal', album.rules, libraryVersion],
+    queryFn: async () => {
+      const res = await api.search({ ...album.rules, q: '', limit: 1 });
+      if (!hasSearchFilters(clientSideFilters(album.rules, res))) return res.total;
+      return (await resolveSmartAlbum(album.rules)).length;
+    },
+    placeholderData: (prev) => prev,
+  });
+}
+
+// Every asset id matching the rules, e.g. to freeze them into a static album
+export async function resolveSmartAlbum(rules: SmartAlbumRules): Promise<number[]> {
+  const ids: number[] = [];
+  let offset = 0;
+  for (;;) {
+    const page = await api.search({ ...rules, q: '', offset, limit: RESOLVE_PAGE_SIZE });
+    // Rules an older backend ignored are applied here, like on the Search page
+    ids.push(...applyClientSideFilters(page.items, clientSideFilters(rules, page)).map((a) => a.id));
+    offset += page.items.length;
+    if (page.items.length === 0 || offset >= page.total) return ids;
+  }
+}
+
+// Replace a smart album with a static album of its current assets
+export async function convertToStaticAlbum(album: SmartAlbum): Promise<Album> {
+  const ids = await resolveSmartAlbum(album.rules);
+  const created = await createAlbum(album.name, album.description);
+  const filled = ids.length > 0 ? await addAssetsToAlbum(created.id, ids) : created;
+  useSmartAlbumsStore.getState().remove(album.id);
+  return filled ?? created;
+}
@@ -0,0 +1,24 @@
+import type { AssetTagChanges } from '../types';
+
+// Tags are free-form keywords compared case-insensitively, so they are
+// stored lower-cased with inner whitespace collapsed.
+
+export const MAX_TAG_LENGTH = 64;
+
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/\s+/g, ' ').toLowerCase().slice(0, MAX_TAG_LENGTH);
+}
+
+// `beach, summer 2019; family` as separate tags
+export function parseTagInput(input: string): string[] {
+  return [...new Set(input.split(/[,;]/).map(normalizeTag).filter(Boolean))];
+}
+
+export function applyTagChanges(tags: string[], changes: AssetTagChanges): string[] {
+  const remove = new Set((changes.remove ?? []).map(normalizeTag));
+  const next = tags.filter((tag) => !remove.has(tag));
+  for (const tag of (changes.add ?? []).map(normalizeTag)) {
+    if (tag && !next.includes(tag)) next.push(tag);
+  }
+  return next.sort();
+}
@@ -0,0 +1,68 @@
+import { create } from 'zustand';
+import { useQuery } from '@tanstack/react-query';
+import { assetApi } from './api';
+import { MutationQueuedError } from './errors';
+import { getQueryClient } from './hooks';
+import { useServerProfileStore } from './serverProfiles';
+import { applyTagChanges } from './tagNames';
+import type { Asset, AssetTagChanges } from '../types';
+
+// Tag edits are shown right away on top of the tags that came with cached
+// asset lists, like favorites and ratings in ratings.ts.
+
+interface AssetTagsState {
+  tags: Map<number, string[]>;
+  set: (entries: Array<[number, string[]]>) => void;
+}
+
+export const useAssetTagsStore = create<AssetTagsState>((set, get) => ({
+  tags: new Map(),
+  set: (entries) => set({ tags: new Map([...get().tags, ...entries]) }),
+}));
+
+const NO_TAGS: string[] = [];
+
+export function tagsOf(asset: Asset, overrides: Map<number, string[]>): string[] {
+  return overrides.get(asset.id) ?? asset.tags ?? NO_TAGS;
+}
+
+export function useAssetTags(asset: Asset): string[] {
+  return useAssetTagsStore((s) => s.tags.get(asset.id)) ?? asset.tags ?? NO_TAGS;
+}
+
+// Tags in use with their counts, most used first; null when the backend has no tag support
+export function useTagList(enabled: boolean = true) {
+  return useQuery({
+    queryKey: ['tags'],
+    queryFn: async () => {
+      const tags = await assetApi.listTags();
+      return tags && [...tags].sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+    },
+    enabled,
+    staleTime: 60000,
+  });
+}
+
+export async function updateAssetTags(assets: Asset[], changes: AssetTagChanges): Promise<void> {
+  if (assets.length === 0) return;
+  const { tags, set } = useAssetTagsStore.getState();
+  const previous = assets.map((asset): [number, string[]] => [asset.id, tagsOf(asset, tags)]);
+  set(previous.map(([id, value]) => [id, applyTagChanges(value, changes)]));
+  try {
+    const result = await assetApi.updateTags(
+      assets.map((a) => a.id),
+      changes
+    );
+    set(result.assets.map((a) => [a.id, a.tags]));
+    getQueryClient().invalidateQueries({ queryKey: ['tags'] });
+  } catch (error) {
+    // Queued changes are replayed later, so the optimistic tags stay
+    if (!(error instanceof MutationQueuedError)) set(previous);
+    throw error;
+  }
+}
+
+useServerProfileStore.subscribe((state, prev) => {
+  if (state.activeId === prev.activeId) return;
+  useAssetTagsStore.setState({ tags: new Map() });
+});
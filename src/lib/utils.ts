@@ -23,3 +23,14 @@ export function cn(...classes: Array<string | false | null | undefined>): string
 export const isVideo = (mime: string) => mime.startsWith('video/');
 export const isImage = (mime: string) => mime.startsWith('image/');
 
+// Hand a generated file to the browser as a download
+export function saveBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
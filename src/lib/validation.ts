@@ -0,0 +1,155 @@
+import { create } from 'zustand';
+import { useServerProfileStore } from './serverProfiles';
+
+// Minimal runtime schemas for backend responses. A schema walks a value and
+// reports every place it disagrees with the shape declared in src/types.ts;
+// unknown extra fields are allowed so newer backends stay compatible.
+
+export interface SchemaIssue {
+  path: string;
+  expected: string;
+  received: string;
+}
+
+export type Schema = (value: unknown, path: string) => SchemaIssue[];
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function primitive(expected: 'number' | 'string' | 'boolean'): Schema {
+  return (value, path) =>
+    typeof value === expected && !(expected === 'number' && Number.isNaN(value))
+      ? []
+      : [{ path, expected, received: describe(value) }];
+}
+
+export const num = primitive('number');
+export const str = primitive('string');
+export const bool = primitive('boolean');
+export const unknownValue: Schema = () => [];
+
+export function optional(schema: Schema): Schema {
+  return (value, path) => (value === undefined ? [] : schema(value, path));
+}
+
+export function nullable(schema: Schema): Schema {
+  return (value, path) => (value === null ? [] : schema(value, path));
+}
+
+// Optional field that the backend may also send as null
+export function maybe(schema: Schema): Schema {
+  return (value, path) => (value === undefined || value === null ? [] : schema(value, path));
+}
+
+export function arrayOf(item: Schema): Schema {
+  return (value, path) => {
+    if (!Array.isArray(value)) return [{ path, expected: 'array', received: describe(value) }];
+    const issues: SchemaIssue[] = [];
+    for (let i = 0; i < value.length && issues.length < 20; i++) {
+      issues.push(...item(value[i], `${path}[${i}]`));
+    }
+    return issues;
+  };
+}
+
+export function objectOf(shape: Record<string, Schema>): Schema {
+  return (value, path) => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      return [{ path, expected: 'object', received: describe(value) }];
+    }
+    const record = value as Record<string, unknown>;
+    return Object.entries(shape).flatMap(([key, schema]) => schema(record[key], `${path}.${key}`));
+  };
+}
+
+export function recordOf(valueSchema: Schema): Schema {
+  return (value, path) => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      return [{ path, expected: 'object', received: describe(value) }];
+    }
+    return Object.entries(value as Record<string, unknown>).flatMap(([key, v]) => valueSchema(v, `${path}.${key}`));
+  };
+}
+
+export function enumOf(...values: string[]): Schema {
+  return (value, path) =>
+    typeof value === 'string' && values.includes(value)
+      ? []
+      : [{ path, expected: values.map((v) => `'${v}'`).join(' | '), received: typeof value === 'string' ? `'${value}'` : describe(value) }];
+}
+
+export function oneOf(...schemas: Schema[]): Schema {
+  return (value, path) => {
+    const results = schemas.map((schema) => schema(value, path));
+    if (results.some((issues) => issues.length === 0)) return [];
+    return [{ path, expected: results.map((r) => r[0]?.expected ?? '?').join(' | '), received: describe(value) }];
+  };
+}
+
+export function validate(schema: Schema, value: unknown): SchemaIssue[] {
+  return schema(value, '$');
+}
+
+// Endpoints that returned non-conforming payloads during this session,
+// keyed by method and normalised path (numeric segments become `:id`).
+export interface SchemaViolation {
+  endpoint: string;
+  issues: SchemaIssue[];
+  count: number;
+  lastSeen: number;
+}
+
+interface SchemaViolationState {
+  violations: Record<string, SchemaViolation>;
+  report: (endpoint: string, issues: SchemaIssue[]) => void;
+  clear: () => void;
+}
+
+export const useSchemaViolationStore = create<SchemaViolationState>((set) => ({
+  violations: {},
+  report: (endpoint, issues) =>
+    set((state) => ({
+      violations: {
+        ...state.violations,
+        [endpoint]: {
+          endpoint,
+          issues: issues.slice(0, 5),
+          count: (state.violations[endpoint]?.count ?? 0) + 1,
+          lastSeen: Date.now(),
+        },
+      },
+    })),
+  clear: () => set({ violations: {} }),
+}));
+
+// Violations describe one backend; start fresh when switching servers
+useServerProfileStore.subscribe((state, prev) => {
+  if (state.activeId !== prev.activeId) useSchemaViolationStore.getState().clear();
+});
+
+export function endpointKey(method: string, url: string): string {
+  const path = url.replace(/^https?:\/\/[^/]+/, '').split('?')[0];
+  return `${method} ${path.replace(/\/\d+(?=\/|$)/g, '/:id')}`;
+}
+
+export function formatIssue(issue: SchemaIssue): string {
+  return `${issue.path}: expected ${issue.expected}, got ${issue.received}`;
+}
+
+// Compare dotted versions numerically; non-numeric suffixes (e.g. "-mock") are ignored.
+export function compareVersions(a: string, b: string): number | null {
+  const parse = (v: string) => {
+    const match = v.trim().replace(/^v/i, '').match(/^(\d+)(?:\.(\d+))?(?:\.(\d+))?/);
+    return match ? [Number(match[1]), Number(match[2] ?? 0), Number(match[3] ?? 0)] : null;
+  };
+  const pa = parse(a);
+  const pb = parse(b);
+  if (!pa || !pb) return null;
+  for (let i = 0; i < 3; i++) {
+    if (pa[i] !== pb[i]) return pa[i] < pb[i] ? -1 : 1;
+  }
+  return 0;
+}
@@ -0,0 +1,258 @@
+import JSZip from 'jszip';
+import { create } from 'zustand';
+import { assetApi } from './api';
+import { captionOf, useAssetCaptionsStore } from './captions';
+import { captionSidecar, sidecarName } from './sidecar';
+import { profileKey, useServerProfileStore } from './serverProfiles';
+import { saveBlob } from './utils';
+import type { Asset } from '../types';
+
+// Bulk downloads of originals as ZIP files. Large selections are split into
+// parts of at most PART_BYTES that are fetched, packed and saved one after
+// another, so only one part is held in memory (about twice its size while
+// packing). A single file larger than the memory the browser allows still
+// fails, since JSZip cannot stream it to disk. Finished parts are recorded
+// per server profile; a cancelled, failed or interrupted download resumes
+// with the first unfinished part. Captioned assets get an XMP sidecar next to
+// the original.
+
+export type ZipLayout = 'folders' | 'flat';
+
+export interface ZipEntry {
+  id: number;
+  name: string; // path inside the ZIP
+  size: number;
+  text?: string; // written as is instead of fetching the original, for sidecars
+}
+
+export interface ZipDownloadJob {
+  name: string;
+  layout: ZipLayout;
+  parts: ZipEntry[][];
+  partsDone: number;
+  skipped: number;
+  createdAt: number;
+}
+
+export interface ZipProgress {
+  part: number; // 0-based index of the part being built
+  bytes: number; // fetched so far, across all parts
+  packing: boolean;
+}
+
+const JOB_KEY = 'nazr.zipDownload';
+export const PART_BYTES = 256 * 1024 * 1024;
+
+export function estimateBytes(assets: Asset[]): number {
+  return assets.reduce((sum, a) => sum + (a.size_bytes || 0), 0);
+}
+
+export function jobBytes(job: ZipDownloadJob): number {
+  return job.parts.reduce((sum, part) => sum + part.reduce((s, e) => s + e.size, 0), 0);
+}
+
+function bytesBefore(job: ZipDownloadJob, partIndex: number): number {
+  return job.parts.slice(0, partIndex).reduce((sum, part) => sum + part.reduce((s, e) => s + e.size, 0), 0);
+}
+
+// `a.jpg`, `a (2).jpg`, ... for names already taken
+function uniqueName(name: string, taken: Set<string>): string {
+  let candidate = name;
+  const dot = name.lastIndexOf('.');
+  const [stem, ext] = dot > 0 ? [name.slice(0, dot), name.slice(dot)] : [name, ''];
+  for (let n = 2; taken.has(candidate.toLowerCase()); n++) candidate = `${stem} (${n})${ext}`;
+  taken.add(candidate.toLowerCase());
+  return candidate;
+}
+
+export function zipEntries(assets: Asset[], layout: ZipLayout): ZipEntry[] {
+  const taken = new Set<string>();
+  const captions = useAssetCaptionsStore.getState().captions;
+  return assets.flatMap((asset) => {
+    const path = layout === 'folders' ? asset.path.replace(/^([a-zA-Z]:)?[\\/]+/, '').replace(/\\/g, '/') : asset.filename;
+    const entry: ZipEntry = { id: asset.id, name: uniqueName(path || `asset-${asset.id}`, taken), size: asset.size_bytes || 0 };
+    const caption = captionOf(asset, captions);
+    if (!caption) return [entry];
+    const text = captionSidecar(caption);
+    const name = sidecarName(entry.name);
+    taken.add(name.toLowerCase());
+    return [entry, { id: asset.id, name, size: new Blob([text]).size, text }];
+  });
+}
+
+// Consecutive runs of entries below `maxBytes`; a larger file gets a part of its own.
+// Sidecars stay in the part of the file they follow.
+export function splitIntoParts(entries: ZipEntry[], maxBytes: number = PART_BYTES): ZipEntry[][] {
+  const parts: ZipEntry[][] = [];
+  let current: ZipEntry[] = [];
+  let size = 0;
+  for (const entry of entries) {
+    if (current.length > 0 && entry.text === undefined && size + entry.size > maxBytes) {
+      parts.push(current);
+      current = [];
+      size = 0;
+    }
+    current.push(entry);
+    size += entry.size;
+  }
+  if (current.length > 0) parts.push(current);
+  return parts;
+}
+
+export function partFilename(job: ZipDownloadJob, index: number): string {
+  return job.parts.length === 1 ? `${job.name}.zip` : `${job.name}-part${index + 1}-of-${job.parts.length}.zip`;
+}
+
+function loadJob(): ZipDownloadJob | null {
+  try {
+    const raw = localStorage.getItem(profileKey(JOB_KEY));
+    return raw ? (JSON.parse(raw) as ZipDownloadJob) : null;
+  } catch {
+    return null;
+  }
+}
+
+function persistJob(job: ZipDownloadJob | null) {
+  try {
+    if (job) {
+      localStorage.setItem(profileKey(JOB_KEY), JSON.stringify(job));
+    } else {
+      localStorage.removeItem(profileKey(JOB_KEY));
+    }
+  } catch {
+    // A job too large for storage still runs, it just cannot resume after a reload
+  }
+}
+
+async function fetchOriginal(id: number, signal: AbortSignal, onBytes: (n: number) => void): Promise<Blob> {
+  const response = await assetApi.fetchOriginal(id, signal);
+  if (!response.body) {
+    const blob = await response.blob();
+    onBytes(blob.size);
+    return blob;
+  }
+  const reader = response.body.getReader();
+  const chunks: BlobPart[] = [];
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    onBytes(value.byteLength);
+  }
+  return new Blob(chunks, { type: response.headers.get('content-type') ?? undefined });
+}
+
+interface ZipDownloadState {
+  // Selection waiting for the user to confirm layout and size
+  pending: Asset[] | null;
+  job: ZipDownloadJob | null;
+  progress: ZipProgress | null; // set while running
+  error: string | null;
+  request: (assets: Asset[]) => void;
+  dismiss: () => void;
+  start: (layout: ZipLayout) => void;
+  resume: () => void;
+  cancel: () => void;
+  discard: () => void;
+}
+
+let controller: AbortController | null = null;
+
+export const useZipDownloadStore = create<ZipDownloadState>((set, get) => {
+  const update = (job: ZipDownloadJob | null) => {
+    persistJob(job);
+    set({ job });
+  };
+
+  const run = async () => {
+    const initial = get().job;
+    if (!initial || controller) return;
+    controller = new AbortController();
+    const { signal } = controller;
+    set({ error: null, progress: { part: initial.partsDone, bytes: bytesBefore(initial, initial.partsDone), packing: false } });
+    try {
+      let job = initial;
+      while (job.partsDone < job.parts.length) {
+        const index = job.partsDone;
+        const zip = new JSZip();
+        let bytes = bytesBefore(job, index);
+        let skipped = 0;
+        for (const entry of job.parts[index]) {
+          if (entry.text !== undefined) {
+            zip.file(entry.name, entry.text);
+            bytes += entry.size;
+            continue;
+          }
+          try {
+            const blob = await fetchOriginal(entry.id, signal, (n) => {
+              bytes += n;
+              set({ progress: { part: index, bytes, packing: false } });
+            });
+            zip.file(entry.name, blob, { binary: true });
+          } catch (error) {
+            if (signal.aborted) throw error;
+            console.error(`Failed to download asset ${entry.id}:`, error);
+            skipped++;
+          }
+        }
+        set({ progress: { part: index, bytes, packing: true } });
+        // Photos and videos are already compressed
+        const blob = await zip.generateAsync({ type: 'blob', compression: 'STORE', streamFiles: true });
+        if (signal.aborted) throw new DOMException('Aborted', 'AbortError');
+        saveBlob(blob, partFilename(job, index));
+        job = { ...job, partsDone: index + 1, skipped: job.skipped + skipped };
+        update(job);
+      }
+      set({ progress: null });
+    } catch (error) {
+      // Keep the job so the remaining parts can be resumed
+      const aborted = signal.aborted;
+      set({ progress: null, error: aborted ? null : error instanceof Error ? error.message : 'Download failed' });
+    } finally {
+      controller = null;
+    }
+  };
+
+  return {
+    pending: null,
+    job: loadJob(),
+    progress: null,
+    error: null,
+    // Ignored while a download runs; the selection bar disables its button then
+    request: (assets) => {
+      if (!controller) set({ pending: assets });
+    },
+    dismiss: () => set({ pending: null }),
+    start: (layout) => {
+      const assets = get().pending;
+      if (!assets || controller) return;
+      const date = new Date().toISOString().slice(0, 10);
+      update({
+        name: `nazr-${date}-${assets.length}-files`,
+        layout,
+        parts: splitIntoParts(zipEntries(assets, layout)),
+        partsDone: 0,
+        skipped: 0,
+        createdAt: Date.now(),
+      });
+      set({ pending: null });
+      run();
+    },
+    resume: () => {
+      run();
+    },
+    cancel: () => controller?.abort(),
+    discard: () => {
+      controller?.abort();
+      update(null);
+      set({ progress: null, error: null });
+    },
+  };
+});
+
+// Each server has its own unfinished download
+useServerProfileStore.subscribe((state, prev) => {
+  if (state.activeId === prev.activeId) return;
+  controller?.abort();
+  useZipDownloadStore.setState({ job: loadJob(), pending: null, progress: null, error: null });
+});
@@ -1,21 +1,31 @@
 import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import { BrowserRouter } from 'react-router-dom';
-import { QueryProvider, queryClient } from './lib/hooks';
+import { getQueryClient } from './lib/hooks';
 import { AdaptiveLoadingProvider } from './lib/adaptiveLoading';
+import { startOfflineQueue } from './lib/offlineQueue';
+import { checkHealth, replayMutation } from './lib/api';
 import './index.css';
 import App from './App.tsx';
+import ServerScope from './components/ServerScope';
 
 // Theme is initialized in the store itself, no need to call initThemeFromStore separately
 
+// Replay mutations queued while the backend was unreachable, then refresh everything they touched
+startOfflineQueue({
+  replay: replayMutation,
+  healthCheck: checkHealth,
+  onReplayed: () => getQueryClient().invalidateQueries(),
+});
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <QueryProvider client={queryClient}>
+    <ServerScope>
       <AdaptiveLoadingProvider>
       <BrowserRouter>
         <App />
       </BrowserRouter>
       </AdaptiveLoadingProvider>
-    </QueryProvider>
+    </ServerScope>
   </StrictMode>,
 );
@@ -1,31 +1,120 @@
-import { useState, useMemo, useEffect, Fragment } from 'react';
-import { Link } from 'react-router-dom';
-import { PlusIcon, PencilIcon, TrashIcon, ChevronRightIcon, ChevronDownIcon, FolderIcon } from '@heroicons/react/24/outline';
+import { useState, useMemo, useEffect, useRef, Fragment } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { PlusIcon, PencilIcon, TrashIcon, ChevronRightIcon, ChevronDownIcon, FolderIcon, FolderPlusIcon, SparklesIcon, ArrowsUpDownIcon, GlobeAltIcon, ArrowDownTrayIcon, ArrowUpTrayIcon, DocumentArrowDownIcon, XMarkIcon } from '@heroicons/react/24/outline';
 import {
   getAlbums,
   createAlbum,
   updateAlbum,
   deleteAlbum,
+  getAlbumFolders,
+  createAlbumFolder,
+  renameAlbumFolder,
+  moveAlbumFolder,
+  deleteAlbumFolder,
+  moveAlbumToFolder,
+  folderCounts,
+  folderPath,
+  folderSubtree,
+  setAlbumCover,
+  setAlbumSort,
+  reorderAlbumAssets,
+  albumCoverId,
+  sortAlbumAssets,
+  ALBUM_SORT_LABELS,
   type Album,
+  type AlbumDragItem,
+  type AlbumFolder,
 } from '../lib/albums';
 import { useAssetsInfinite } from '../lib/hooks';
+import { media } from '../lib/api';
 import GalleryGrid from '../components/GalleryGrid';
+import AlbumAssetOrderEditor from '../components/AlbumAssetOrderEditor';
+import AlbumExportDialog from '../components/AlbumExportDialog';
+import {
+  buildAlbumManifest,
+  importAlbumManifest,
+  manifestFilename,
+  parseAlbumManifest,
+  type ManifestImportReport,
+} from '../lib/albumManifest';
+import { saveBlob } from '../lib/utils';
+import AlbumFolderTree, { type AlbumDropHandlers } from '../components/AlbumFolderTree';
+import SmartAlbumSection from '../components/SmartAlbumSection';
+import SmartAlbumRulesForm from '../components/SmartAlbumRulesForm';
 import { useAdaptivePageSize } from '../lib/adaptiveLoading';
 import { useUIStore, type FontFamily } from '../lib/store';
+import { usePermission } from '../lib/permissions';
+import {
+  convertToStaticAlbum,
+  hasSmartAlbumRules,
+  useSmartAlbumsStore,
+  type SmartAlbum,
+  type SmartAlbumRules,
+} from '../lib/smartAlbums';
+import type { AlbumSort } from '../types';
 
 const ALBUMS_EXPANDED_KEY = 'nazr.albums.expanded';
+const FOLDERS_EXPANDED_KEY = 'nazr.albums.expandedFolders';
+
+function loadExpanded(key: string): Set<string> {
+  if (typeof window !== 'undefined') {
+    try {
+      const stored = sessionStorage.getItem(key);
+      if (stored) {
+        return new Set(JSON.parse(stored) as string[]);
+      }
+    } catch {
+      // ignore storage errors
+    }
+  }
+  return new Set();
+}
+
+function saveExpanded(key: string, ids: Set<string>) {
+  if (typeof window !== 'undefined') {
+    try {
+      if (ids.size > 0) {
+        sessionStorage.setItem(key, JSON.stringify(Array.from(ids)));
+      } else {
+        sessionStorage.removeItem(key);
+      }
+    } catch {
+      // ignore storage errors
+    }
+  }
+}
 
 export default function AlbumsPage() {
   const [albums, setAlbums] = useState<Album[]>([]);
+  // null when the backend has no album folders
+  const [folders, setFolders] = useState<AlbumFolder[] | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [newFolderName, setNewFolderName] = useState<string | null>(null);
+  const [dragged, setDragged] = useState<AlbumDragItem | null>(null);
+  // Folder id being hovered while dragging; null is the top level
+  const [dropTarget, setDropTarget] = useState<string | null | undefined>(undefined);
+  // Album whose assets are being dragged into a manual order
+  const [arrangingAlbumId, setArrangingAlbumId] = useState<string | null>(null);
+  const [exportingAlbum, setExportingAlbum] = useState<Album | null>(null);
+  const [isTransferring, setIsTransferring] = useState(false);
+  const [importReport, setImportReport] = useState<ManifestImportReport | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
   const [isCreating, setIsCreating] = useState(false);
   const [isEditing, setIsEditing] = useState(false);
   const [editingAlbumId, setEditingAlbumId] = useState<string | null>(null);
   const [editName, setEditName] = useState('');
   const [editDescription, setEditDescription] = useState('');
+  // Set while creating or editing a smart album
+  const [editRules, setEditRules] = useState<SmartAlbumRules | null>(null);
+  const smartAlbums = useSmartAlbumsStore((s) => s.albums);
+  const createSmartAlbum = useSmartAlbumsStore((s) => s.create);
+  const updateSmartAlbum = useSmartAlbumsStore((s) => s.update);
+  const removeSmartAlbum = useSmartAlbumsStore((s) => s.remove);
   const [isLoading, setIsLoading] = useState(true);
   const { pageSize: adaptivePageSize } = useAdaptivePageSize();
   const albumHeadingFontFamily = useUIStore((s) => s.albumHeadingFontFamily);
   const albumHeadingFontSize = useUIStore((s) => s.albumHeadingFontSize);
+  const canEdit = usePermission('edit');
   
   // Helper function to get font family value
   const getFontFamilyValue = (font: FontFamily): string => {
@@ -64,45 +153,22 @@ export default function AlbumsPage() {
     return sizeMap[size] || 'text-base';
   };
   
-  // Track which albums are expanded - restore from sessionStorage on mount
-  const [expandedAlbums, setExpandedAlbums] = useState<Set<string>>(() => {
-    if (typeof window !== 'undefined') {
-      try {
-        const stored = sessionStorage.getItem(ALBUMS_EXPANDED_KEY);
-        if (stored) {
-          const albumIds = JSON.parse(stored) as string[];
-          return new Set(albumIds);
-        }
-      } catch {
-        // ignore storage errors
-      }
-    }
-    return new Set();
-  });
+  // Track which albums and folders are expanded - restore from sessionStorage on mount
+  const [expandedAlbums, setExpandedAlbums] = useState<Set<string>>(() => loadExpanded(ALBUMS_EXPANDED_KEY));
+  const [expandedFolders, setExpandedFolders] = useState<Set<string>>(() => loadExpanded(FOLDERS_EXPANDED_KEY));
 
-  // Persist expanded albums to sessionStorage whenever it changes
-  useEffect(() => {
-    if (typeof window !== 'undefined') {
-      try {
-        const albumIdsArray = Array.from(expandedAlbums);
-        if (albumIdsArray.length > 0) {
-          sessionStorage.setItem(ALBUMS_EXPANDED_KEY, JSON.stringify(albumIdsArray));
-        } else {
-          sessionStorage.removeItem(ALBUMS_EXPANDED_KEY);
-        }
-      } catch {
-        // ignore storage errors
-      }
-    }
-  }, [expandedAlbums]);
+  // Persist expanded albums and folders to sessionStorage whenever they change
+  useEffect(() => saveExpanded(ALBUMS_EXPANDED_KEY, expandedAlbums), [expandedAlbums]);
+  useEffect(() => saveExpanded(FOLDERS_EXPANDED_KEY, expandedFolders), [expandedFolders]);
 
-  // Load albums on mount
+  // Load albums and folders on mount
   useEffect(() => {
     const loadAlbums = async () => {
       try {
         setIsLoading(true);
-        const loadedAlbums = await getAlbums();
+        const [loadedAlbums, loadedFolders] = await Promise.all([getAlbums(), getAlbumFolders()]);
         setAlbums(loadedAlbums);
+        setFolders(loadedFolders);
       } catch (error) {
         console.error('Failed to load albums:', error);
       } finally {
@@ -145,11 +211,223 @@ export default function AlbumsPage() {
     }
   }, [expandedAlbums, albums, allAssets, hasNextPage, isFetchingNextPage, fetchNextPage]);
 
-  const handleCreate = () => {
+  // The open folder lives in the URL so breadcrumbs work with back/forward
+  const folderParam = searchParams.get('folder');
+  const currentFolderId = folders?.some((f) => f.id === folderParam) ? folderParam : null;
+  const breadcrumbs = folders ? folderPath(folders, currentFolderId) : [];
+  const counts = useMemo(() => folderCounts(folders ?? [], albums), [folders, albums]);
+  const subFolders = (folders ?? [])
+    .filter((f) => f.parentId === currentFolderId)
+    .sort((a, b) => a.name.localeCompare(b.name));
+  const visibleAlbums = folders ? albums.filter((a) => a.folderId === currentFolderId) : albums;
+  // Smart albums are client-side and always live at the top level
+  const visibleSmartAlbums = currentFolderId === null ? smartAlbums : [];
+
+  const openFolder = (folderId: string | null) => {
+    const next = new URLSearchParams(searchParams);
+    if (folderId) {
+      next.set('folder', folderId);
+    } else {
+      next.delete('folder');
+    }
+    setSearchParams(next);
+    // Reveal the opened folder in the tree
+    if (folders && folderId) {
+      const ancestors = folderPath(folders, folderId).slice(0, -1);
+      setExpandedFolders((prev) => new Set([...prev, ...ancestors.map((f) => f.id)]));
+    }
+  };
+
+  const toggleFolderExpanded = (folderId: string) => {
+    setExpandedFolders((prev) => {
+      const next = new Set(prev);
+      if (next.has(folderId)) {
+        next.delete(folderId);
+      } else {
+        next.add(folderId);
+      }
+      return next;
+    });
+  };
+
+  const reloadAll = async () => {
+    const [loadedAlbums, loadedFolders] = await Promise.all([getAlbums(), getAlbumFolders()]);
+    setAlbums(loadedAlbums);
+    setFolders(loadedFolders);
+  };
+
+  const handleCreateFolder = async () => {
+    const name = newFolderName?.trim();
+    if (!name) return;
+    try {
+      await createAlbumFolder(name, currentFolderId);
+      await reloadAll();
+      setNewFolderName(null);
+      if (currentFolderId) {
+        setExpandedFolders((prev) => new Set(prev).add(currentFolderId));
+      }
+    } catch (error) {
+      console.error('Failed to create folder:', error);
+      alert('Failed to create folder. Please try again.');
+    }
+  };
+
+  const handleRenameFolder = async (folder: AlbumFolder) => {
+    const name = prompt('Folder name', folder.name)?.trim();
+    if (!name || name === folder.name) return;
+    try {
+      await renameAlbumFolder(folder.id, name);
+      await reloadAll();
+    } catch (error) {
+      console.error('Failed to rename folder:', error);
+      alert('Failed to rename folder. Please try again.');
+    }
+  };
+
+  const handleDeleteFolder = async (folder: AlbumFolder) => {
+    if (!confirm(`Delete the folder "${folder.name}"? Its albums and sub-folders move up one level.`)) return;
+    try {
+      await deleteAlbumFolder(folder.id);
+      await reloadAll();
+      setExpandedFolders((prev) => {
+        const next = new Set(prev);
+        next.delete(folder.id);
+        return next;
+      });
+    } catch (error) {
+      console.error('Failed to delete folder:', error);
+      alert('Failed to delete folder. Please try again.');
+    }
+  };
+
+  // Albums can go into any other folder; folders not into themselves or below
+  const canDropOn = (item: AlbumDragItem, folderId: string | null): boolean => {
+    if (!folders) return false;
+    if (item.type === 'album') {
+      return albums.find((a) => a.id === item.id)?.folderId !== folderId;
+    }
+    const folder = folders.find((f) => f.id === item.id);
+    if (!folder || folder.parentId === folderId) return false;
+    return folderId === null || !folderSubtree(folders, item.id).has(folderId);
+  };
+
+  const handleDragOver = (e: React.DragEvent, folderId: string | null) => {
+    if (!dragged || !canDropOn(dragged, folderId)) return;
+    e.preventDefault();
+    e.stopPropagation();
+    setDropTarget(folderId);
+  };
+
+  const handleDrop = async (e: React.DragEvent, folderId: string | null) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const item = dragged;
+    setDragged(null);
+    setDropTarget(undefined);
+    if (!item || !canDropOn(item, folderId)) return;
+    try {
+      if (item.type === 'album') {
+        await moveAlbumToFolder(item.id, folderId);
+      } else {
+        await moveAlbumFolder(item.id, folderId);
+      }
+      await reloadAll();
+    } catch (error) {
+      console.error('Failed to move:', error);
+      alert('Failed to move. Please try again.');
+    }
+  };
+
+  const drag: AlbumDropHandlers | undefined = canEdit && folders
+    ? {
+        onDragStart: setDragged,
+        onDragEnd: () => {
+          setDragged(null);
+          setDropTarget(undefined);
+        },
+        onDragOver: handleDragOver,
+        onDragLeave: () => setDropTarget(undefined),
+        onDrop: handleDrop,
+      }
+    : undefined;
+
+  const replaceAlbum = (updated: Album) => {
+    setAlbums((prev) => prev.map((a) => (a.id === updated.id ? updated : a)));
+  };
+
+  const handleSetCover = async (albumId: string, assetId: number) => {
+    try {
+      replaceAlbum(await setAlbumCover(albumId, assetId));
+    } catch (error) {
+      console.error('Failed to set album cover:', error);
+      alert('Failed to set album cover. Please try again.');
+    }
+  };
+
+  const handleSortChange = async (albumId: string, sort: AlbumSort) => {
+    try {
+      replaceAlbum(await setAlbumSort(albumId, sort));
+    } catch (error) {
+      console.error('Failed to change album sort:', error);
+      alert('Failed to change album sort. Please try again.');
+    }
+  };
+
+  // Saving an arrangement also switches the album to its manual order
+  const handleSaveOrder = async (album: Album, assetIds: number[]) => {
+    // Assets not loaded yet keep their relative order after the arranged ones
+    const arranged = new Set(assetIds);
+    const fullOrder = [...assetIds, ...album.assetIds.filter((id) => !arranged.has(id))];
+    try {
+      let updated = await reorderAlbumAssets(album.id, fullOrder);
+      if (updated.sort !== 'manual') {
+        updated = await setAlbumSort(album.id, 'manual');
+      }
+      replaceAlbum(updated);
+      setArrangingAlbumId(null);
+    } catch (error) {
+      console.error('Failed to save album order:', error);
+      alert('Failed to save album order. Please try again.');
+    }
+  };
+
+  const handleExportManifest = async (selected: Album[]) => {
+    setIsTransferring(true);
+    try {
+      const manifest = await buildAlbumManifest(selected);
+      const blob = new Blob([JSON.stringify(manifest, null, 2)], { type: 'application/json' });
+      saveBlob(blob, manifestFilename(selected));
+    } catch (error) {
+      console.error('Failed to export albums:', error);
+      alert('Failed to export albums. Please try again.');
+    } finally {
+      setIsTransferring(false);
+    }
+  };
+
+  const handleImportManifest = async (file: File) => {
+    setIsTransferring(true);
+    try {
+      const manifest = parseAlbumManifest(await file.text());
+      const report = await importAlbumManifest(manifest);
+      // Imported albums land at the top level
+      await reloadAll();
+      setImportReport(report);
+    } catch (error) {
+      console.error('Failed to import albums:', error);
+      alert(`Failed to import albums: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsTransferring(false);
+    }
+  };
+
+  const handleCreate = (smart: boolean = false) => {
     setIsCreating(true);
+    setIsEditing(false);
     setEditingAlbumId(null);
     setEditName('');
     setEditDescription('');
+    setEditRules(smart ? {} : null);
   };
 
   const handleEdit = (album: Album) => {
@@ -158,13 +436,44 @@ export default function AlbumsPage() {
     setIsCreating(false);
     setEditName(album.name);
     setEditDescription(album.description || '');
+    setEditRules(null);
+  };
+
+  const handleEditSmart = (album: SmartAlbum) => {
+    setEditingAlbumId(album.id);
+    setIsEditing(true);
+    setIsCreating(false);
+    setEditName(album.name);
+    setEditDescription(album.description || '');
+    setEditRules(album.rules);
+  };
+
+  const resetEditor = () => {
+    setIsCreating(false);
+    setIsEditing(false);
+    setEditingAlbumId(null);
+    setEditName('');
+    setEditDescription('');
+    setEditRules(null);
   };
 
   const handleSave = async () => {
-    if (isCreating) {
+    if (editRules) {
+      if (!editName.trim() || !hasSmartAlbumRules(editRules)) return;
+      const description = editDescription.trim() || undefined;
+      if (isCreating) {
+        createSmartAlbum(editName, description, editRules);
+      } else if (editingAlbumId) {
+        updateSmartAlbum(editingAlbumId, { name: editName.trim(), description, rules: editRules });
+      }
+      resetEditor();
+    } else if (isCreating) {
       if (editName.trim()) {
         try {
           const newAlbum = await createAlbum(editName.trim(), editDescription.trim() || undefined);
+          if (currentFolderId) {
+            await moveAlbumToFolder(newAlbum.id, currentFolderId);
+          }
           const loadedAlbums = await getAlbums();
           setAlbums(loadedAlbums);
           setIsCreating(false);
@@ -215,6 +524,35 @@ export default function AlbumsPage() {
     }
   };
 
+  const handleDeleteSmart = (album: SmartAlbum) => {
+    if (confirm('Are you sure you want to delete this smart album? Its assets are not affected.')) {
+      removeSmartAlbum(album.id);
+      setExpandedAlbums((prev) => {
+        const next = new Set(prev);
+        next.delete(album.id);
+        return next;
+      });
+    }
+  };
+
+  const handleConvertSmart = async (album: SmartAlbum) => {
+    if (!confirm(`Convert "${album.name}" to a static album? It will keep its current assets and stop following its rules.`)) {
+      return;
+    }
+    try {
+      const created = await convertToStaticAlbum(album);
+      setAlbums(await getAlbums());
+      setExpandedAlbums((prev) => {
+        const next = new Set(prev);
+        if (next.delete(album.id)) next.add(created.id);
+        return next;
+      });
+    } catch (error) {
+      console.error('Failed to convert smart album:', error);
+      alert('Failed to convert smart album. Please try again.');
+    }
+  };
+
   const toggleAlbumExpanded = (albumId: string, event?: React.MouseEvent) => {
     if (event) {
       event.preventDefault();
@@ -233,15 +571,100 @@ export default function AlbumsPage() {
 
   return (
     <div className="container-responsive py-6 space-y-4">
-      <div className="flex items-center justify-end">
+      {(canEdit || albums.length > 0) && (
+      <div className="flex items-center justify-end gap-2 flex-wrap">
+        {albums.length > 0 && (
+          <button
+            onClick={() => handleExportManifest(albums)}
+            disabled={isTransferring}
+            className="px-4 py-2 rounded-md border border-zinc-300 dark:border-zinc-700 hover:bg-zinc-50 dark:hover:bg-zinc-800 text-sm transition-colors flex items-center gap-2 disabled:opacity-50"
+            title="Download every album as a JSON manifest"
+          >
+            <ArrowDownTrayIcon className="w-4 h-4" />
+            Export All
+          </button>
+        )}
+        {canEdit && (
+        <>
+        <button
+          onClick={() => importInputRef.current?.click()}
+          disabled={isTransferring}
+          className="px-4 py-2 rounded-md border border-zinc-300 dark:border-zinc-700 hover:bg-zinc-50 dark:hover:bg-zinc-800 text-sm transition-colors flex items-center gap-2 disabled:opacity-50"
+          title="Create albums from a JSON manifest"
+        >
+          <ArrowUpTrayIcon className="w-4 h-4" />
+          Import
+        </button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (file) handleImportManifest(file);
+          }}
+        />
+        {folders && (
+          <button
+            onClick={() => setNewFolderName('')}
+            className="px-4 py-2 rounded-md border border-zinc-300 dark:border-zinc-700 hover:bg-zinc-50 dark:hover:bg-zinc-800 text-sm transition-colors flex items-center gap-2"
+          >
+            <FolderPlusIcon className="w-4 h-4" />
+            New Folder
+          </button>
+        )}
         <button
-          onClick={handleCreate}
+          onClick={() => handleCreate(true)}
+          className="px-4 py-2 rounded-md border border-violet-300 dark:border-violet-800 text-violet-700 dark:text-violet-300 hover:bg-violet-50 dark:hover:bg-violet-900/30 text-sm transition-colors flex items-center gap-2"
+        >
+          <SparklesIcon className="w-4 h-4" />
+          New Smart Album
+        </button>
+        <button
+          onClick={() => handleCreate()}
           className="px-4 py-2 rounded-md bg-blue-600 hover:bg-blue-700 text-white text-sm transition-colors flex items-center gap-2"
         >
           <PlusIcon className="w-4 h-4" />
           New Album
         </button>
+        </>
+        )}
       </div>
+      )}
+
+      {importReport && (
+        <div className="p-3 rounded-md border border-zinc-200 dark:border-zinc-800 bg-white dark:bg-zinc-900 text-sm space-y-2">
+          <div className="flex items-start justify-between gap-2">
+            <div>
+              Imported {importReport.created.length} {importReport.created.length === 1 ? 'album' : 'albums'} with{' '}
+              {importReport.matched} {importReport.matched === 1 ? 'asset' : 'assets'}.
+              {importReport.unmatched.length > 0 &&
+                ` ${importReport.unmatched.length} ${importReport.unmatched.length === 1 ? 'entry was' : 'entries were'} not found on this server.`}
+            </div>
+            <button
+              onClick={() => setImportReport(null)}
+              className="p-1 rounded hover:bg-zinc-100 dark:hover:bg-zinc-800"
+              aria-label="Dismiss"
+            >
+              <XMarkIcon className="w-4 h-4" />
+            </button>
+          </div>
+          {importReport.unmatched.length > 0 && (
+            <details>
+              <summary className="cursor-pointer text-zinc-500">Unmatched entries</summary>
+              <ul className="mt-1 max-h-48 overflow-y-auto font-mono text-xs text-zinc-600 dark:text-zinc-400 space-y-0.5">
+                {importReport.unmatched.map((entry, i) => (
+                  <li key={i} className="truncate" title={entry.asset.sha256}>
+                    {entry.album}: {entry.asset.path}
+                  </li>
+                ))}
+              </ul>
+            </details>
+          )}
+        </div>
+      )}
 
       {(isCreating || isEditing) && (
         <div className="p-3 rounded-md border border-zinc-200 dark:border-zinc-800 bg-white dark:bg-zinc-900 space-y-2">
@@ -260,21 +683,24 @@ export default function AlbumsPage() {
             rows={2}
             className="w-full px-2 py-1.5 rounded border border-zinc-300 dark:border-zinc-700 bg-transparent text-sm resize-none"
           />
+          {editRules && (
+            <>
+              <div className="text-xs text-zinc-500">
+                The album holds every asset matching all of these rules, including ones added by later scans.
+              </div>
+              <SmartAlbumRulesForm value={editRules} onChange={setEditRules} />
+            </>
+          )}
           <div className="flex gap-2">
             <button
               onClick={handleSave}
-              className="flex-1 px-3 py-1.5 rounded-md bg-blue-600 hover:bg-blue-700 text-white text-sm transition-colors"
+              disabled={!!editRules && !hasSmartAlbumRules(editRules)}
+              className="flex-1 px-3 py-1.5 rounded-md bg-blue-600 hover:bg-blue-700 text-white text-sm transition-colors disabled:opacity-50"
             >
               Save
             </button>
             <button
-              onClick={() => {
-                setIsCreating(false);
-                setIsEditing(false);
-                setEditingAlbumId(null);
-                setEditName('');
-                setEditDescription('');
-              }}
+              onClick={resetEditor}
               className="px-3 py-1.5 rounded-md border border-zinc-300 dark:border-zinc-700 hover:bg-zinc-50 dark:hover:bg-zinc-800 text-sm transition-colors"
             >
               Cancel
@@ -283,14 +709,94 @@ export default function AlbumsPage() {
         </div>
       )}
 
+      {newFolderName !== null && (
+        <div className="p-3 rounded-md border border-zinc-200 dark:border-zinc-800 bg-white dark:bg-zinc-900 flex gap-2">
+          <input
+            type="text"
+            value={newFolderName}
+            onChange={(e) => setNewFolderName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleCreateFolder();
+              if (e.key === 'Escape') setNewFolderName(null);
+            }}
+            placeholder={breadcrumbs.length ? `Folder name (in ${breadcrumbs[breadcrumbs.length - 1].name})` : 'Folder name'}
+            className="flex-1 px-2 py-1.5 rounded border border-zinc-300 dark:border-zinc-700 bg-transparent text-sm"
+            autoFocus
+          />
+          <button
+            onClick={handleCreateFolder}
+            disabled={!newFolderName.trim()}
+            className="px-3 py-1.5 rounded-md bg-blue-600 hover:bg-blue-700 text-white text-sm transition-colors disabled:opacity-50"
+          >
+            Create
+          </button>
+          <button
+            onClick={() => setNewFolderName(null)}
+            className="px-3 py-1.5 rounded-md border border-zinc-300 dark:border-zinc-700 hover:bg-zinc-50 dark:hover:bg-zinc-800 text-sm transition-colors"
+          >
+            Cancel
+          </button>
+        </div>
+      )}
+
+      <div className="flex flex-col lg:flex-row gap-6">
+      {folders && folders.length > 0 && (
+        <aside className="lg:w-56 flex-shrink-0">
+          <AlbumFolderTree
+            folders={folders}
+            counts={counts}
+            currentId={currentFolderId}
+            expanded={expandedFolders}
+            onToggle={toggleFolderExpanded}
+            onSelect={openFolder}
+            dropTarget={dropTarget}
+            drag={drag}
+          />
+        </aside>
+      )}
+      <div className="flex-1 min-w-0 space-y-4">
+      {breadcrumbs.length > 0 && (
+        <nav aria-label="Breadcrumb" className="flex items-center flex-wrap gap-1 text-sm">
+          {[null, ...breadcrumbs].map((folder, i) => {
+            const id = folder?.id ?? null;
+            const isLast = i === breadcrumbs.length;
+            return (
+              <Fragment key={id ?? 'root'}>
+                {i > 0 && <ChevronRightIcon className="w-3.5 h-3.5 text-zinc-400" />}
+                <button
+                  onClick={() => openFolder(id)}
+                  disabled={isLast}
+                  onDragOver={drag ? (e) => drag.onDragOver(e, id) : undefined}
+                  onDragLeave={drag?.onDragLeave}
+                  onDrop={drag ? (e) => drag.onDrop(e, id) : undefined}
+                  className={`px-1.5 py-0.5 rounded ${
+                    dropTarget === id
+                      ? 'ring-2 ring-blue-500 bg-blue-50 dark:bg-blue-900/30'
+                      : isLast
+                        ? 'font-medium text-zinc-900 dark:text-zinc-100'
+                        : 'text-zinc-500 hover:text-zinc-900 dark:hover:text-zinc-100 hover:bg-zinc-100 dark:hover:bg-zinc-800'
+                  }`}
+                >
+                  {folder?.name ?? 'Albums'}
+                </button>
+              </Fragment>
+            );
+          })}
+        </nav>
+      )}
+
       {isLoading ? (
         <div className="text-center py-8 text-sm text-zinc-500">
           Loading albums...
         </div>
-      ) : albums.length === 0 && !isCreating ? (
+      ) : albums.length === 0 && smartAlbums.length === 0 && !folders?.length && !isCreating ? (
         <div className="text-center py-8 text-sm text-zinc-500">
           No albums yet. Create one to get started.
         </div>
+      ) : currentFolderId && subFolders.length === 0 && visibleAlbums.length === 0 && !isCreating ? (
+        <div className="text-center py-8 text-sm text-zinc-500">
+          This folder is empty. Drag albums here or create one.
+        </div>
       ) : (
         (() => {
           const albumCount = albums.length;
@@ -313,17 +819,92 @@ export default function AlbumsPage() {
                   gridTemplateColumns: `repeat(2, minmax(0, 1fr))`,
                 }}
               >
-                {albums.map((album) => {
+                {subFolders.map((folder) => {
+                  const count = counts.get(folder.id);
+                  return (
+                    <div
+                      key={`folder-${folder.id}`}
+                      onClick={() => openFolder(folder.id)}
+                      draggable={!!drag}
+                      onDragStart={drag ? () => drag.onDragStart({ type: 'folder', id: folder.id }) : undefined}
+                      onDragEnd={drag?.onDragEnd}
+                      onDragOver={drag ? (e) => drag.onDragOver(e, folder.id) : undefined}
+                      onDragLeave={drag?.onDragLeave}
+                      onDrop={drag ? (e) => drag.onDrop(e, folder.id) : undefined}
+                      className={`flex flex-col gap-2 cursor-pointer rounded-lg p-3 border transition-colors ${
+                        dropTarget === folder.id
+                          ? 'border-blue-500 ring-2 ring-blue-500 bg-blue-50 dark:bg-blue-900/30'
+                          : 'border-zinc-200 dark:border-zinc-700 bg-zinc-50 dark:bg-zinc-900 hover:bg-zinc-100 dark:hover:bg-zinc-800'
+                      }`}
+                    >
+                      <div className="flex items-center gap-2 min-w-0">
+                        <FolderIcon className="w-5 h-5 sm:w-6 sm:h-6 text-amber-500 dark:text-amber-400 flex-shrink-0" />
+                        <h2
+                          className={`${getFontSizeClass(albumHeadingFontSize)} font-semibold text-zinc-900 dark:text-zinc-100 flex-1 min-w-0 truncate`}
+                          style={{ fontFamily: getFontFamilyValue(albumHeadingFontFamily) }}
+                        >
+                          {folder.name}
+                        </h2>
+                      </div>
+                      <div className="flex items-center justify-between">
+                        <span className="text-xs sm:text-sm text-zinc-500 dark:text-zinc-400">
+                          {count?.albums ?? 0} {count?.albums === 1 ? 'album' : 'albums'} · {count?.items ?? 0}{' '}
+                          {count?.items === 1 ? 'item' : 'items'}
+                        </span>
+                        {canEdit && (
+                        <div className="flex gap-1" onClick={(e) => e.stopPropagation()}>
+                          <button
+                            onClick={() => handleRenameFolder(folder)}
+                            className="p-1 rounded hover:bg-zinc-200 dark:hover:bg-zinc-700 transition-colors"
+                            title="Rename"
+                          >
+                            <PencilIcon className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => handleDeleteFolder(folder)}
+                            className="p-1 rounded hover:bg-red-100 dark:hover:bg-red-900/30 transition-colors text-red-600 dark:text-red-400"
+                            title="Delete"
+                          >
+                            <TrashIcon className="w-4 h-4" />
+                          </button>
+                        </div>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+                {visibleAlbums.map((album) => {
                   const isExpanded = expandedAlbums.has(album.id);
-                  const albumAssets = album.assetIds.map((id) => assetMap.get(id)).filter(Boolean) as typeof allAssets;
+                  const albumAssets = sortAlbumAssets(
+                    album,
+                    album.assetIds.map((id) => assetMap.get(id)).filter(Boolean) as typeof allAssets
+                  );
+                  const coverId = albumCoverId(album);
+                  const isArranging = arrangingAlbumId === album.id;
                   return (
                     <Fragment key={album.id}>
                       <div className="space-y-2">
                         {/* Album folder card */}
                         <div
                           onClick={(e) => toggleAlbumExpanded(album.id, e)}
-                          className="flex flex-col gap-2 cursor-pointer hover:bg-zinc-100 dark:hover:bg-zinc-800 rounded-lg p-3 border border-zinc-200 dark:border-zinc-700 transition-colors"
+                          draggable={!!drag}
+                          onDragStart={drag ? () => drag.onDragStart({ type: 'album', id: album.id }) : undefined}
+                          onDragEnd={drag?.onDragEnd}
+                          className={`flex flex-col gap-2 cursor-pointer hover:bg-zinc-100 dark:hover:bg-zinc-800 rounded-lg p-3 border border-zinc-200 dark:border-zinc-700 transition-colors ${
+                            dragged?.type === 'album' && dragged.id === album.id ? 'opacity-50' : ''
+                          }`}
                         >
+                          {coverId !== undefined && (
+                            <div className="aspect-[4/3] -mx-1 -mt-1 rounded-md overflow-hidden bg-zinc-200 dark:bg-zinc-700">
+                              <img
+                                src={media.thumbUrl(coverId, assetMap.get(coverId)?.sha256)}
+                                alt=""
+                                className="w-full h-full object-cover"
+                                loading="lazy"
+                                draggable={false}
+                              />
+                            </div>
+                          )}
                           <div className="flex items-center gap-2 min-w-0">
                             {isExpanded ? (
                               <ChevronDownIcon className="w-4 h-4 sm:w-5 sm:h-5 text-zinc-600 dark:text-zinc-400 flex-shrink-0" />
@@ -348,6 +929,25 @@ export default function AlbumsPage() {
                               {album.assetIds.length} {album.assetIds.length === 1 ? 'item' : 'items'}
                             </span>
                             <div className="flex gap-1" onClick={(e) => e.stopPropagation()}>
+                              {album.assetIds.length > 0 && (
+                              <button
+                                onClick={() => setExportingAlbum(album)}
+                                className="p-1 rounded hover:bg-zinc-200 dark:hover:bg-zinc-700 transition-colors"
+                                title="Export as web gallery"
+                              >
+                                <GlobeAltIcon className="w-4 h-4" />
+                              </button>
+                              )}
+                              <button
+                                onClick={() => handleExportManifest([album])}
+                                disabled={isTransferring}
+                                className="p-1 rounded hover:bg-zinc-200 dark:hover:bg-zinc-700 transition-colors disabled:opacity-50"
+                                title="Export album definition (JSON)"
+                              >
+                                <DocumentArrowDownIcon className="w-4 h-4" />
+                              </button>
+                              {canEdit && (
+                              <>
                               <button
                                 onClick={() => handleEdit(album)}
                                 className="p-1 rounded hover:bg-zinc-200 dark:hover:bg-zinc-700 transition-colors"
@@ -362,6 +962,8 @@ export default function AlbumsPage() {
                               >
                                 <TrashIcon className="w-4 h-4" />
                               </button>
+                              </>
+                              )}
                             </div>
                           </div>
                         </div>
@@ -377,15 +979,47 @@ export default function AlbumsPage() {
                           }}
                           tabIndex={-1}
                         >
-                          {albumAssets.length > 0 ? (
+                          {albumAssets.length > 0 && (
+                            <div className="flex items-center justify-end gap-2 mb-3 text-sm">
+                              <label className="text-zinc-500" htmlFor={`album-sort-${album.id}`}>Sort</label>
+                              <select
+                                id={`album-sort-${album.id}`}
+                                value={album.sort}
+                                onChange={(e) => handleSortChange(album.id, e.target.value as AlbumSort)}
+                                disabled={!canEdit || isArranging}
+                                className="px-2 py-1 rounded border border-zinc-300 dark:border-zinc-700 bg-transparent"
+                              >
+                                {(Object.keys(ALBUM_SORT_LABELS) as AlbumSort[]).map((sort) => (
+                                  <option key={sort} value={sort}>{ALBUM_SORT_LABELS[sort]}</option>
+                                ))}
+                              </select>
+                              {canEdit && !isArranging && albumAssets.length > 1 && (
+                                <button
+                                  onClick={() => setArrangingAlbumId(album.id)}
+                                  className="px-3 py-1 rounded-md border border-zinc-300 dark:border-zinc-700 hover:bg-zinc-50 dark:hover:bg-zinc-800 transition-colors flex items-center gap-1.5"
+                                >
+                                  <ArrowsUpDownIcon className="w-4 h-4" />
+                                  Arrange
+                                </button>
+                              )}
+                            </div>
+                          )}
+                          {isArranging ? (
+                            <AlbumAssetOrderEditor
+                              assets={albumAssets}
+                              onSave={(ids) => handleSaveOrder(album, ids)}
+                              onCancel={() => setArrangingAlbumId(null)}
+                            />
+                          ) : albumAssets.length > 0 ? (
                             <GalleryGrid 
                               assets={albumAssets} 
                               hasMore={false}
                               mobileColumns={2}
                               sort="mtime"
                               order="desc"
-                              filteredAssetIdsOverride={album.assetIds}
+                              filteredAssetIdsOverride={albumAssets.map((a) => a.id)}
                               showRemoveFromAlbum={true}
+                              onSetAlbumCover={(assetId) => handleSetCover(album.id, assetId)}
                             />
                           ) : (
                             <div className="text-center py-12 text-sm text-zinc-500">
@@ -397,11 +1031,27 @@ export default function AlbumsPage() {
                     </Fragment>
                   );
                 })}
+                {visibleSmartAlbums.map((album) => (
+                  <SmartAlbumSection
+                    key={album.id}
+                    album={album}
+                    isExpanded={expandedAlbums.has(album.id)}
+                    onToggle={(e) => toggleAlbumExpanded(album.id, e)}
+                    onEdit={canEdit ? () => handleEditSmart(album) : undefined}
+                    onDelete={canEdit ? () => handleDeleteSmart(album) : undefined}
+                    onConvert={canEdit ? () => handleConvertSmart(album) : undefined}
+                    headingClassName={getFontSizeClass(albumHeadingFontSize)}
+                    headingStyle={{ fontFamily: getFontFamilyValue(albumHeadingFontFamily) }}
+                  />
+                ))}
               </div>
             </>
           );
         })()
       )}
+      </div>
+      </div>
+      <AlbumExportDialog album={exportingAlbum} onClose={() => setExportingAlbum(null)} />
     </div>
   );
 }
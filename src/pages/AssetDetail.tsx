@@ -13,8 +13,11 @@ import VideoPlayer from '../components/VideoPlayer';
 import ConfirmDialog from '../components/ConfirmDialog';
 import BurstCapture from '../components/BurstCapture';
 import { useUIStore } from '../lib/store';
+import { usePermission } from '../lib/permissions';
+import { useArchiveStore } from '../lib/archive';
 import { organizeAssets } from '../lib/assetOrganization';
 import { useAdaptivePageSize } from '../lib/adaptiveLoading';
+import { applyClientSideFilters, clientSideFilters, hasSearchFilters, parseSearchFilters } from '../lib/searchFilters';
 
 function ImageWithLoading({ src, alt, onFullscreen }: { src: string; alt: string; onFullscreen?: () => void }) {
   const [isLoading, setIsLoading] = useState(true);
@@ -188,6 +191,7 @@ type AssetDetailLocationState = {
   sort?: string;
   order?: string;
   filteredAssetIds?: number[]; // Filtered asset IDs for navigation (e.g., assets from the same year when folder view is enabled)
+  stacks?: number[][]; // Burst stacks of the source grid
   from?: {
     pathname: string;
     search?: string;
@@ -209,19 +213,10 @@ export default function AssetDetail() {
     [fromLocation?.search],
   );
   const searchQuery = isFromSearch && searchParams ? searchParams.get('q') || '' : '';
-  const searchFrom = searchParams?.get('from') || undefined;
-  const searchTo = searchParams?.get('to') || undefined;
-  const searchCameraMake = searchParams?.get('camera_make') || undefined;
-  const searchCameraModel = searchParams?.get('camera_model') || undefined;
-  const searchPlatformType = searchParams?.get('platformType') || undefined;
-  const searchMinSizeRaw = searchParams?.get('minSize') || undefined;
-  const searchMinSize = searchMinSizeRaw ? Number(searchMinSizeRaw) : undefined;
-  const searchMaxSizeRaw = searchParams?.get('maxSize') || undefined;
-  const searchMaxSize = searchMaxSizeRaw ? Number(searchMaxSizeRaw) : undefined;
-  const searchFileTypesRaw = searchParams?.get('fileTypes') || undefined;
-  const searchFileTypes = searchFileTypesRaw
-    ? searchFileTypesRaw.split(',').map((t) => t.trim()).filter(Boolean)
-    : undefined;
+  const searchFilters = useMemo(
+    () => (searchParams ? parseSearchFilters(searchParams) : {}),
+    [searchParams],
+  );
   
   // Extract person_id from the source URL if coming from a person-filtered gallery
   const personIdFromSource = useMemo(() => {
@@ -271,7 +266,7 @@ export default function AssetDetail() {
   // back to the global gallery listing.
   const sort = (state?.sort as any) || 'none';
   const order = (state?.order as any) || 'desc';
-  const isSearchContext = isFromSearch && !!searchQuery;
+  const isSearchContext = isFromSearch && (!!searchQuery || hasSearchFilters(searchFilters));
 
   const { data: assetsData, refetch: refetchAssets } = useAssetsInfinite({
     sort,
@@ -285,11 +280,7 @@ export default function AssetDetail() {
 
   const { data: searchData, refetch: refetchSearch } = useSearchInfinite({
     q: searchQuery,
-    from: searchFrom,
-    to: searchTo,
-    camera_make: searchCameraMake,
-    camera_model: searchCameraModel,
-    platformType: searchPlatformType,
+    ...searchFilters,
     // Match Search page page size so detail view reuses
     // the same search result ordering and pages.
     pageSize: adaptivePageSize,
@@ -302,23 +293,9 @@ export default function AssetDetail() {
     ? (searchData?.pages.flatMap((p) => p.items) ?? [])
     : (assetsData?.pages.flatMap((p) => p.items) ?? []);
 
+  // Same fallback as the Search page for backends that ignore size and type filters
   const filteredForSearch = isSearchContext
-    ? baseAssets.filter((item) => {
-        if (searchMinSize !== undefined && item.size_bytes < searchMinSize) return false;
-        if (searchMaxSize !== undefined && item.size_bytes > searchMaxSize) return false;
-
-        if (searchFileTypes && searchFileTypes.length > 0) {
-          const matchesType = searchFileTypes.some((type) => {
-            if (type.includes('/')) {
-              return item.mime.startsWith(type);
-            }
-            return item.mime.includes(type);
-          });
-          if (!matchesType) return false;
-        }
-
-        return true;
-      })
+    ? applyClientSideFilters(baseAssets, clientSideFilters(searchFilters, searchData?.pages[0]))
     : baseAssets;
 
   const rawAssets = filteredForSearch.filter((a) => !deletedAssetIds.has(a.id));
@@ -420,6 +397,7 @@ export default function AssetDetail() {
             sort,
             order,
             filteredAssetIds: state.filteredAssetIds,
+            stacks: state?.stacks,
             from: fromLocation,
           },
           replace: true,
@@ -433,6 +411,7 @@ export default function AssetDetail() {
             sort,
             order,
             filteredAssetIds: state.filteredAssetIds,
+            stacks: state?.stacks,
             from: fromLocation,
           },
           replace: true,
@@ -453,16 +432,19 @@ export default function AssetDetail() {
             sort,
             order,
             filteredAssetIds: state?.filteredAssetIds,
+            stacks: state?.stacks,
             from: fromLocation,
           },
           replace: true,
         });
       }
     }
-  }, [navigationAssets, deletedAssetIds, nav, sort, order, fromLocation, state?.filteredAssetIds]);
+  }, [navigationAssets, deletedAssetIds, nav, sort, order, fromLocation, state?.filteredAssetIds, state?.stacks]);
 
   const showDeleteConfirmation = useUIStore((s) => s.showDeleteConfirmation);
-  const deleteOriginalFiles = useUIStore((s) => s.deleteOriginalFiles);
+  const canEdit = usePermission('edit');
+  const canDeleteOriginals = usePermission('deleteOriginals');
+  const deleteOriginalFiles = useUIStore((s) => s.deleteOriginalFiles) && canDeleteOriginals;
 
   const handleDeleteConfirm = useCallback(async (assetId?: number) => {
     const idToDelete = assetId || assetToDelete?.id || (currentAsset?.id);
@@ -606,6 +588,7 @@ export default function AssetDetail() {
                   sort,
                   order,
                   filteredAssetIds: updatedFilteredIds,
+                  stacks: state?.stacks,
                   from: fromLocation,
                 },
                 replace: true,
@@ -619,7 +602,7 @@ export default function AssetDetail() {
         }
       }
     }
-  }, [currentAsset, navigationAssets, allAssets, currentIndex, nav, sort, order, deletedAssetIds, goBackToSource, state?.filteredAssetIds, fromLocation]);
+  }, [currentAsset, navigationAssets, allAssets, currentIndex, nav, sort, order, deletedAssetIds, goBackToSource, state?.filteredAssetIds, state?.stacks, fromLocation]);
 
   // Handle navigation after deletion and refetch completes
   useEffect(() => {
@@ -646,6 +629,7 @@ export default function AssetDetail() {
               sort,
               order,
               filteredAssetIds: state?.filteredAssetIds,
+              stacks: state?.stacks,
               from: fromLocation,
             },
             replace: true,
@@ -660,7 +644,40 @@ export default function AssetDetail() {
       goBackToSource();
       setPendingNavigationAfterDelete(null);
     }
-  }, [pendingNavigationAfterDelete, navigationAssets, nav, sort, order, fromLocation, goBackToSource, state?.filteredAssetIds]);
+  }, [pendingNavigationAfterDelete, navigationAssets, nav, sort, order, fromLocation, goBackToSource, state?.filteredAssetIds, state?.stacks]);
+
+  // Burst the current asset belongs to, when opened from a grid with stacks
+  const archiveAssets = useArchiveStore((s) => s.archive);
+  const currentStack = useMemo(() => {
+    const assetId = Number(id);
+    if (!state?.stacks) return undefined;
+    return state.stacks.find((ids) => ids.includes(assetId))?.filter((stackId) => !deletedAssetIds.has(stackId));
+  }, [id, state?.stacks, deletedAssetIds]);
+
+  const handleSelectStackMember = useCallback((memberId: number) => {
+    const index = state?.filteredAssetIds?.indexOf(memberId) ?? -1;
+    if (index >= 0) handleNavigate(index);
+  }, [state?.filteredAssetIds, handleNavigate]);
+
+  // Keep one shot of the burst; the others are archived and dropped from navigation
+  const handleKeepStackMember = useCallback((keepId: number) => {
+    if (!currentStack) return;
+    const rest = currentStack.filter((id) => id !== keepId);
+    archiveAssets(rest);
+    const filteredAssetIds = state?.filteredAssetIds?.filter((assetId) => !rest.includes(assetId));
+    nav(`/asset/${keepId}`, {
+      state: {
+        asset: allAssets.find((a) => a.id === keepId),
+        index: filteredAssetIds?.indexOf(keepId),
+        sort,
+        order,
+        filteredAssetIds,
+        stacks: state?.stacks?.filter((ids) => !ids.includes(keepId)),
+        from: fromLocation,
+      },
+      replace: true,
+    });
+  }, [currentStack, archiveAssets, state?.filteredAssetIds, state?.stacks, allAssets, nav, sort, order, fromLocation]);
 
   // Handle keyboard navigation
   useEffect(() => {
@@ -680,7 +697,7 @@ export default function AssetDetail() {
         }
       } else if (e.key === 'Delete' || e.key === 'Backspace') {
         // Only handle delete if lightbox is not open (lightbox handles its own delete)
-        if (!showLightbox && currentAsset) {
+        if (!showLightbox && currentAsset && canEdit) {
           e.preventDefault();
           handleDeleteClick(currentAsset.id);
         }
@@ -729,7 +746,7 @@ export default function AssetDetail() {
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [showLightbox, goBackToSource, navigationAssets, handleNavigate, currentAsset, handleDeleteClick, videoRef, currentIndex]);
+  }, [showLightbox, goBackToSource, navigationAssets, handleNavigate, currentAsset, handleDeleteClick, videoRef, currentIndex, canEdit]);
 
   // Show loading state while fetching asset
   if (shouldFetchAsset && isLoadingAsset) {
@@ -853,6 +870,7 @@ export default function AssetDetail() {
                 </button>
               </>
             )}
+            {canEdit && (
             <button
               onClick={() => {
                 if (currentAsset?.id) {
@@ -866,6 +884,7 @@ export default function AssetDetail() {
             >
               Delete
             </button>
+            )}
           </div>
         </aside>
       </div>
@@ -899,9 +918,12 @@ export default function AssetDetail() {
               total={totalNavigation}
               onClose={() => setShowLightbox(false)}
               onNavigate={handleNavigate}
-              onDelete={handleDeleteClick}
+              onDelete={canEdit ? handleDeleteClick : undefined}
               videoState={isVideo(assetToShow.mime) ? videoState : undefined}
               onVideoStateChange={isVideo(assetToShow.mime) ? setVideoState : undefined}
+              stack={currentStack}
+              onSelectStackMember={handleSelectStackMember}
+              onKeepStackMember={canEdit ? handleKeepStackMember : undefined}
             />
           </ErrorBoundary>
         );
@@ -1,13 +1,17 @@
 import { useMemo, useState, useEffect, useRef, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useStats, usePageVisibility } from '../lib/hooks';
+import { useLiveUpdatesStore } from '../lib/liveUpdates';
 import { formatNumber } from '../lib/utils';
 import { StatCardSkeleton } from '../components/LoadingSkeleton';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { api } from '../lib/api';
 import PathsManager from '../components/PathsManager';
+import PinnedSearches from '../components/PinnedSearches';
 import * as d3 from 'd3';
 import { useUIStore } from '../lib/store';
+import { profileKey } from '../lib/serverProfiles';
+import { usePermission } from '../lib/permissions';
 import type { FileTypesResponse } from '../types';
 import {
   RAW_EXTENSIONS,
@@ -54,6 +58,7 @@ function formatCompletionTime(timestamp: number): string {
 
 export default function Dashboard() {
   const isPageVisible = usePageVisibility();
+  const liveMode = useLiveUpdatesStore((s) => s.mode);
   const { data: stats, error: statsError, isError: statsIsError } = useStats();
   const { data: fileTypes, isLoading: fileTypesLoading, error: fileTypesError } = useQuery<FileTypesResponse>({
     queryKey: ['fileTypes'],
@@ -69,7 +74,7 @@ export default function Dashboard() {
     queryKey: ['performance'],
     queryFn: () => api.performance(),
     enabled: isPageVisible,
-    refetchInterval: (query) => (!isPageVisible || query.state.error) ? false : 2000,
+    refetchInterval: (query) => (!isPageVisible || query.state.error || liveMode === 'stream') ? false : 2000,
   });
 
   const [selectedType, setSelectedType] = useState<string | null>(null);
@@ -105,8 +110,8 @@ export default function Dashboard() {
       queryClient.invalidateQueries({ queryKey: ['performance'] });
       // Clear persisted dashboard values from localStorage
       try {
-        localStorage.removeItem('nazr_last_scan');
-        localStorage.removeItem('nazr_last_processing');
+        localStorage.removeItem(profileKey('nazr_last_scan'));
+        localStorage.removeItem(profileKey('nazr_last_processing'));
         setLastScan(null);
         setLastProcessing(null);
       } catch (e) {
@@ -154,13 +159,13 @@ export default function Dashboard() {
   // Load persisted values from localStorage on mount
   useEffect(() => {
     try {
-      const savedLastScan = localStorage.getItem('nazr_last_scan');
+      const savedLastScan = localStorage.getItem(profileKey('nazr_last_scan'));
       if (savedLastScan) {
         const parsed = JSON.parse(savedLastScan);
         setLastScan(parsed);
         lastScanRef.current = parsed;
       }
-      const savedLastProcessing = localStorage.getItem('nazr_last_processing');
+      const savedLastProcessing = localStorage.getItem(profileKey('nazr_last_processing'));
       if (savedLastProcessing) {
         const parsed = JSON.parse(savedLastProcessing);
         setLastProcessing(parsed);
@@ -266,9 +271,9 @@ export default function Dashboard() {
     localStorageDebounceTimeoutRef.current[key] = setTimeout(() => {
       try {
         if (key === 'scan') {
-          localStorage.setItem('nazr_last_scan', JSON.stringify(value));
+          localStorage.setItem(profileKey('nazr_last_scan'), JSON.stringify(value));
         } else {
-          localStorage.setItem('nazr_last_processing', JSON.stringify(value));
+          localStorage.setItem(profileKey('nazr_last_processing'), JSON.stringify(value));
         }
       } catch (e) {
         // Ignore localStorage errors
@@ -391,7 +396,7 @@ export default function Dashboard() {
               clearTimeout(localStorageDebounceTimeoutRef.current.scan);
               localStorageDebounceTimeoutRef.current.scan = null;
             }
-            localStorage.setItem('nazr_last_scan', JSON.stringify(finalLastScan));
+            localStorage.setItem(profileKey('nazr_last_scan'), JSON.stringify(finalLastScan));
           } catch (e) {
             // Ignore localStorage errors
           }
@@ -430,7 +435,7 @@ export default function Dashboard() {
               clearTimeout(localStorageDebounceTimeoutRef.current.processing);
               localStorageDebounceTimeoutRef.current.processing = null;
             }
-            localStorage.setItem('nazr_last_processing', JSON.stringify(finalLastProcessing));
+            localStorage.setItem(profileKey('nazr_last_processing'), JSON.stringify(finalLastProcessing));
           } catch (e) {
             // Ignore localStorage errors
           }
@@ -465,6 +470,7 @@ export default function Dashboard() {
 
   const dashboardFontFamily = useUIStore((s) => s.dashboardFontFamily);
   const dashboardFontSize = useUIStore((s) => s.dashboardFontSize);
+  const canManage = usePermission('manage');
   
   const getFontFamilyValue = (font: string): string => {
     switch (font) {
@@ -518,7 +524,9 @@ export default function Dashboard() {
         </div>
       )}
 
-      <PathsManager />
+      {canManage && <PathsManager />}
+
+      <PinnedSearches />
 
       {/* Desktop: Bubble graph on left, 3 cards on right */}
       {/* Mobile: Show bubble graph only */}
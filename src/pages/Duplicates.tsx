@@ -0,0 +1,273 @@
+import { useMemo, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { DocumentDuplicateIcon, SparklesIcon } from '@heroicons/react/24/outline';
+import { assetApi, media } from '../lib/api';
+import { loadDuplicateGroups, suggestKeep, wastedBytes } from '../lib/duplicates';
+import { usePermission } from '../lib/permissions';
+import { useUIStore } from '../lib/store';
+import { nsToDate } from '../lib/utils';
+import { Loading, Empty } from '../components/Loading';
+import ErrorView from '../components/ErrorView';
+import ConfirmDialog from '../components/ConfirmDialog';
+import type { DuplicateGroup } from '../types';
+
+function formatBytes(bytes: number, decimals = 1) {
+  if (!+bytes) return '0 B';
+  const k = 1024;
+  const sizes = ['B', 'KB', 'MB', 'GB', 'TB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return `${parseFloat((bytes / Math.pow(k, i)).toFixed(decimals))} ${sizes[i]}`;
+}
+
+const groupKey = (group: DuplicateGroup) => group.sha256 || `asset-${group.assets[0].id}`;
+
+export default function DuplicatesPage() {
+  const queryClient = useQueryClient();
+  const canEdit = usePermission('edit');
+  const canDeleteOriginals = usePermission('deleteOriginals');
+  const deleteOriginalFiles = useUIStore((s) => s.deleteOriginalFiles) && canDeleteOriginals;
+  const showDeleteConfirmation = useUIStore((s) => s.showDeleteConfirmation);
+
+  const { data: groups, isLoading, error, refetch } = useQuery({
+    queryKey: ['duplicates'],
+    queryFn: loadDuplicateGroups,
+  });
+
+  // Copy kept per group; groups without an entry keep the suggestion
+  const [keepChoice, setKeepChoice] = useState<Record<string, number>>({});
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [showConfirm, setShowConfirm] = useState(false);
+  const [isResolving, setIsResolving] = useState(false);
+
+  const suggestions = useMemo(
+    () => new Map((groups ?? []).map((group) => [groupKey(group), suggestKeep(group)])),
+    [groups]
+  );
+
+  const keepIdFor = (group: DuplicateGroup) =>
+    keepChoice[groupKey(group)] ?? suggestions.get(groupKey(group))?.keepId ?? group.assets[0].id;
+
+  const selectedGroups = (groups ?? []).filter((group) => selected.has(groupKey(group)));
+  const idsToRemove = selectedGroups.flatMap((group) => {
+    const keepId = keepIdFor(group);
+    return group.assets.filter((a) => a.id !== keepId).map((a) => a.id);
+  });
+  const totalReclaimable = (groups ?? []).reduce((sum, group) => sum + wastedBytes(group), 0);
+  const selectedReclaimable = selectedGroups.reduce((sum, group) => sum + wastedBytes(group), 0);
+
+  const toggleGroup = (key: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    if (!groups) return;
+    setSelected(selected.size === groups.length ? new Set() : new Set(groups.map(groupKey)));
+  };
+
+  const refreshAfterDelete = () => {
+    queryClient.invalidateQueries({ queryKey: ['duplicates'] });
+    queryClient.invalidateQueries({ queryKey: ['assets'] });
+    queryClient.invalidateQueries({ queryKey: ['search'] });
+    queryClient.invalidateQueries({ queryKey: ['stats'] });
+  };
+
+  const handleResolve = async () => {
+    if (idsToRemove.length === 0) return;
+    setIsResolving(true);
+    try {
+      if (deleteOriginalFiles) {
+        const result = await assetApi.deletePermanentBulk(idsToRemove);
+        const failures = result.results.filter((r) => !r.deleted);
+        if (failures.length) {
+          const readonlyFailures = failures.filter((f) => f.read_only);
+          const formatList = (items: typeof failures) => items.map((item) => item.path || `Asset ${item.id}`).join('\n');
+          alert(
+            readonlyFailures.length
+              ? `Unable to delete the following files because they are read-only:\n${formatList(readonlyFailures)}`
+              : `Failed to delete the following files:\n${formatList(failures)}`
+          );
+        }
+      } else {
+        await Promise.all(idsToRemove.map((id) => assetApi.delete(id)));
+      }
+      setSelected(new Set());
+      setKeepChoice({});
+    } catch (error) {
+      console.error('Failed to resolve duplicates:', error);
+      alert(`Failed to delete some items: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsResolving(false);
+      refreshAfterDelete();
+    }
+  };
+
+  const requestResolve = () => {
+    if (showDeleteConfirmation) {
+      setShowConfirm(true);
+    } else {
+      handleResolve();
+    }
+  };
+
+  if (isLoading) return <Loading label="Looking for duplicates..." />;
+  if (error) return <ErrorView error={error} onRetry={() => refetch()} />;
+
+  if (!groups || groups.length === 0) {
+    return (
+      <div className="container-responsive py-6">
+        <Empty>No duplicate files found.</Empty>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container-responsive py-6 space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div>
+          <h1 className="text-xl font-semibold flex items-center gap-2">
+            <DocumentDuplicateIcon className="w-5 h-5" />
+            Duplicates
+          </h1>
+          <p className="text-sm text-zinc-600 dark:text-zinc-400">
+            {groups.length} {groups.length === 1 ? 'group' : 'groups'} of identical files,{' '}
+            {formatBytes(totalReclaimable)} reclaimable by keeping one copy of each.
+          </p>
+        </div>
+        {canEdit && (
+          <div className="flex items-center gap-2">
+            <button
+              onClick={toggleAll}
+              className="px-3 py-1.5 rounded-md border border-zinc-300 dark:border-zinc-700 hover:bg-zinc-50 dark:hover:bg-zinc-800 text-sm transition-colors"
+            >
+              {selected.size === groups.length ? 'Select none' : 'Select all'}
+            </button>
+            <button
+              onClick={requestResolve}
+              disabled={idsToRemove.length === 0 || isResolving}
+              className="px-3 py-1.5 rounded-md bg-red-600 hover:bg-red-700 text-white text-sm transition-colors disabled:opacity-50"
+            >
+              {isResolving
+                ? 'Resolving…'
+                : selected.size > 0
+                  ? `Resolve ${selected.size} (${formatBytes(selectedReclaimable)})`
+                  : 'Resolve selected'}
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        {groups.map((group) => {
+          const key = groupKey(group);
+          const suggestion = suggestions.get(key);
+          const keepId = keepIdFor(group);
+          return (
+            <div
+              key={key}
+              className={`rounded-lg border bg-white dark:bg-zinc-900 p-3 ${
+                selected.has(key) ? 'border-blue-500' : 'border-zinc-200 dark:border-zinc-800'
+              }`}
+            >
+              <div className="flex items-center gap-3 mb-2">
+                {canEdit && (
+                  <input
+                    type="checkbox"
+                    checked={selected.has(key)}
+                    onChange={() => toggleGroup(key)}
+                    aria-label="Include this group"
+                  />
+                )}
+                <img
+                  src={media.thumbUrl(group.assets[0].id, group.assets[0].sha256)}
+                  alt=""
+                  loading="lazy"
+                  className="w-14 h-14 rounded object-cover bg-zinc-100 dark:bg-zinc-800"
+                />
+                <div className="min-w-0 text-sm">
+                  <div className="font-medium truncate">{group.assets[0].filename}</div>
+                  <div className="text-xs text-zinc-500">
+                    {group.assets.length} copies of {formatBytes(group.size_bytes)} · {formatBytes(wastedBytes(group))}{' '}
+                    reclaimable
+                  </div>
+                </div>
+              </div>
+              <div className="overflow-x-auto">
+                <table className="w-full text-xs">
+                  <thead className="text-left text-zinc-500">
+                    <tr>
+                      <th className="font-normal py-1 pr-2">Keep</th>
+                      <th className="font-normal py-1 pr-2">Path</th>
+                      <th className="font-normal py-1 pr-2">Size</th>
+                      <th className="font-normal py-1 pr-2">Taken</th>
+                      <th className="font-normal py-1">Modified</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {group.assets.map((asset) => (
+                      <tr
+                        key={asset.id}
+                        className={`border-t border-zinc-100 dark:border-zinc-800 ${
+                          asset.id === keepId ? '' : 'text-zinc-500 dark:text-zinc-500'
+                        }`}
+                      >
+                        <td className="py-1 pr-2">
+                          <input
+                            type="radio"
+                            name={`keep-${key}`}
+                            checked={asset.id === keepId}
+                            onChange={() => setKeepChoice((prev) => ({ ...prev, [key]: asset.id }))}
+                            disabled={!canEdit}
+                          />
+                        </td>
+                        <td className="py-1 pr-2 break-all">
+                          {asset.path}
+                          {asset.id === suggestion?.keepId && (
+                            <span
+                              className="ml-2 inline-flex items-center gap-0.5 rounded bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300 px-1"
+                              title={`Suggested: ${suggestion.reason}`}
+                            >
+                              <SparklesIcon className="w-3 h-3" />
+                              {suggestion.reason}
+                            </span>
+                          )}
+                        </td>
+                        <td className="py-1 pr-2 whitespace-nowrap">{formatBytes(asset.size_bytes)}</td>
+                        <td className="py-1 pr-2 whitespace-nowrap">
+                          {asset.taken_at ? new Date(asset.taken_at * 1000).toLocaleString() : '—'}
+                        </td>
+                        <td className="py-1 whitespace-nowrap">{nsToDate(asset.mtime_ns).toLocaleString()}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <ConfirmDialog
+        isOpen={showConfirm}
+        onClose={() => setShowConfirm(false)}
+        onConfirm={handleResolve}
+        title={deleteOriginalFiles ? 'Delete Duplicate Files From Disk' : 'Remove Duplicates From Nazr'}
+        message={
+          deleteOriginalFiles
+            ? `Permanently delete ${idsToRemove.length} duplicate ${idsToRemove.length === 1 ? 'file' : 'files'} (${formatBytes(selectedReclaimable)}) from Nazr and from disk, keeping one copy per group? This cannot be undone.`
+            : `Remove ${idsToRemove.length} duplicate ${idsToRemove.length === 1 ? 'item' : 'items'} from the Nazr index, keeping one copy per group? The original files will remain on disk, so no space is reclaimed.`
+        }
+        confirmText="Delete"
+        cancelText="Cancel"
+        variant="danger"
+      />
+    </div>
+  );
+}
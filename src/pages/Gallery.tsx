@@ -10,6 +10,10 @@ import { useUIStore, type FontFamily } from '../lib/store';
 import { extractYearMonthFromPath, extractYearMonthFromFilename } from '../lib/folderStructure';
 import { organizeAssets } from '../lib/assetOrganization';
 import { useAdaptivePageSize } from '../lib/adaptiveLoading';
+import { profileKey } from '../lib/serverProfiles';
+import { useArchiveStore } from '../lib/archive';
+import { MAX_RATING, isFavorite, ratingOf } from '../lib/assetFlags';
+import { flagsOf, useAssetFlagsStore } from '../lib/ratings';
 import {
   FILE_TYPE_FILTER_OPTIONS,
   normalizeTypeKey,
@@ -27,6 +31,7 @@ const GALLERY_FOLDER_MONTHS_KEY = 'nazr.gallery.showFolderMonths';
 const GALLERY_TYPE_KEY = 'nazr.gallery.type';
 const GALLERY_EXT_KEY = 'nazr.gallery.ext';
 const GALLERY_EXPANDED_YEARS_KEY = 'nazr.gallery.expandedYears';
+const GALLERY_STACKS_KEY = 'nazr.gallery.stackBursts';
 
 export default function Gallery() {
   const location = useLocation();
@@ -159,6 +164,19 @@ export default function Gallery() {
       return false;
     }
   });
+  const [stackBursts, setStackBursts] = useState<boolean>(() => {
+    if (typeof window === 'undefined') return false;
+    try {
+      return localStorage.getItem(GALLERY_STACKS_KEY) === 'true';
+    } catch {
+      return false;
+    }
+  }); // Collapse burst shots into stacks
+  const archivedIds = useArchiveStore((s) => s.archived);
+  const [showArchived, setShowArchived] = useState(false);
+  // 'favorites' or a minimum star rating; filtered in the browser over loaded pages
+  const ratedParam = searchParams.get('rated') ?? '';
+  const flagOverrides = useAssetFlagsStore((s) => s.flags);
   // Get years/months font from store
   const yearsMonthsFontFamily = useUIStore((s) => s.yearsMonthsFontFamily);
   const yearsMonthsFontSize = useUIStore((s) => s.yearsMonthsFontSize);
@@ -204,7 +222,7 @@ export default function Gallery() {
   const [expandedYears, setExpandedYears] = useState<Set<string>>(() => {
     if (typeof window !== 'undefined') {
       try {
-        const stored = sessionStorage.getItem(GALLERY_EXPANDED_YEARS_KEY);
+        const stored = sessionStorage.getItem(profileKey(GALLERY_EXPANDED_YEARS_KEY));
         if (stored) {
           const years = JSON.parse(stored) as string[];
           return new Set(years);
@@ -222,9 +240,9 @@ export default function Gallery() {
       try {
         const yearsArray = Array.from(expandedYears);
         if (yearsArray.length > 0) {
-          sessionStorage.setItem(GALLERY_EXPANDED_YEARS_KEY, JSON.stringify(yearsArray));
+          sessionStorage.setItem(profileKey(GALLERY_EXPANDED_YEARS_KEY), JSON.stringify(yearsArray));
         } else {
-          sessionStorage.removeItem(GALLERY_EXPANDED_YEARS_KEY);
+          sessionStorage.removeItem(profileKey(GALLERY_EXPANDED_YEARS_KEY));
         }
       } catch {
         // ignore storage errors
@@ -301,6 +319,19 @@ export default function Gallery() {
     [searchParams, setSearchParams]
   );
 
+  const handleRatedFilterChange = useCallback(
+    (value: string) => {
+      const params = new URLSearchParams(searchParams);
+      if (value) {
+        params.set('rated', value);
+      } else {
+        params.delete('rated');
+      }
+      setSearchParams(params, { replace: true });
+    },
+    [searchParams, setSearchParams]
+  );
+
   // Sync URL params on mount and keep localStorage updated
   useEffect(() => {
     if (sortParam !== sort) setSort(sortParam);
@@ -379,6 +410,15 @@ export default function Gallery() {
     }
   }, []);
 
+  const updateStackBursts = useCallback((value: boolean) => {
+    setStackBursts(value);
+    try {
+      localStorage.setItem(GALLERY_STACKS_KEY, String(value));
+    } catch {
+      // ignore storage failures
+    }
+  }, []);
+
   const updateShowFolders = useCallback((value: boolean) => {
     // When turning folders off, collapse all expanded folders to avoid deep content jumps
     if (!value) {
@@ -386,7 +426,7 @@ export default function Gallery() {
       // Clear from sessionStorage
       if (typeof window !== 'undefined') {
         try {
-          sessionStorage.removeItem(GALLERY_EXPANDED_YEARS_KEY);
+          sessionStorage.removeItem(profileKey(GALLERY_EXPANDED_YEARS_KEY));
         } catch {
           // ignore
         }
@@ -420,7 +460,9 @@ export default function Gallery() {
   
   // Filter out deleted items and deduplicate by ID - use useMemo to ensure re-render when deletedIds changes
   const baseItemsRaw = useMemo(() => {
-    const allItems = (data?.pages.flatMap((p) => p.items) ?? []).filter(a => !deletedIds.has(a.id));
+    const allItems = (data?.pages.flatMap((p) => p.items) ?? []).filter(
+      (a) => !deletedIds.has(a.id) && (showArchived || !archivedIds.has(a.id))
+    );
     // Deduplicate by ID (keep first occurrence)
     const seen = new Set<number>();
     return allItems.filter(asset => {
@@ -430,7 +472,7 @@ export default function Gallery() {
       seen.add(asset.id);
       return true;
     });
-  }, [data, deletedIds]);
+  }, [data, deletedIds, showArchived, archivedIds]);
 
   // Apply organization settings to get consistent ordering
   const baseItems = useMemo(() => {
@@ -438,12 +480,18 @@ export default function Gallery() {
   }, [baseItemsRaw, prioritizeFolderStructure, prioritizeFilenameDate, sort, order]);
 
   const items = useMemo(() => {
-    if (!hasTypeFilter || activeExtensions.length === 0) {
-      return baseItems;
+    let filtered = baseItems;
+    if (hasTypeFilter && activeExtensions.length > 0) {
+      const allowed = new Set(activeExtensions.map((ext) => ext.toLowerCase()));
+      filtered = filtered.filter((asset) => asset.ext && allowed.has(asset.ext.toLowerCase()));
     }
-    const allowed = new Set(activeExtensions.map((ext) => ext.toLowerCase()));
-    return baseItems.filter((asset) => asset.ext && allowed.has(asset.ext.toLowerCase()));
-  }, [baseItems, activeExtensions, hasTypeFilter]);
+    if (ratedParam === 'favorites') {
+      filtered = filtered.filter((asset) => isFavorite(flagsOf(asset, flagOverrides)));
+    } else if (Number(ratedParam) > 0) {
+      filtered = filtered.filter((asset) => ratingOf(flagsOf(asset, flagOverrides)) >= Number(ratedParam));
+    }
+    return filtered;
+  }, [baseItems, activeExtensions, hasTypeFilter, ratedParam, flagOverrides]);
 
 
   // Centralized scroll restoration aligned with 2780d9e
@@ -622,7 +670,7 @@ export default function Gallery() {
       setExpandedYears(new Set());
       if (typeof window !== 'undefined') {
         try {
-          sessionStorage.removeItem(GALLERY_EXPANDED_YEARS_KEY);
+          sessionStorage.removeItem(profileKey(GALLERY_EXPANDED_YEARS_KEY));
         } catch {
           // ignore
         }
@@ -843,6 +891,31 @@ export default function Gallery() {
               </label>
             </label>
           )}
+          <label className="flex items-center gap-1.5 whitespace-nowrap" title="Collapse photos taken within a few seconds by the same camera">
+            <span className="text-xs sm:text-sm text-zinc-700 dark:text-zinc-300">Stacks:</span>
+            <label className="relative inline-flex items-center cursor-pointer">
+              <input
+                type="checkbox"
+                checked={stackBursts}
+                onChange={(e) => updateStackBursts(e.target.checked)}
+                className="sr-only peer"
+              />
+              <div className="w-10 h-5 bg-zinc-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 dark:peer-focus:ring-blue-800 rounded-full peer dark:bg-zinc-700 peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-zinc-300 after:border after:rounded-full after:h-4 after:w-4 after:transition-all dark:border-zinc-600 peer-checked:bg-blue-600"></div>
+            </label>
+          </label>
+          {archivedIds.size > 0 && (
+            <button
+              onClick={() => setShowArchived((v) => !v)}
+              title="Burst shots hidden in this browser; other devices still show them"
+              className={`px-1.5 sm:px-2 py-1 rounded border text-xs sm:text-sm whitespace-nowrap transition-colors ${
+                showArchived
+                  ? 'border-blue-500 text-blue-600 dark:text-blue-400'
+                  : 'border-zinc-300 dark:border-zinc-700 hover:bg-zinc-50 dark:hover:bg-zinc-800'
+              }`}
+            >
+              {showArchived ? 'Hide' : 'Show'} hidden ({archivedIds.size})
+            </button>
+          )}
           <label className="flex items-center gap-1 whitespace-nowrap">
             Sort
             <select value={sort} onChange={(e) => updateSort(e.target.value as any)} className="px-1.5 sm:px-2 py-1 rounded border border-zinc-300 dark:border-zinc-700 bg-white dark:bg-zinc-900 text-zinc-900 dark:text-zinc-100 text-xs sm:text-sm">
@@ -861,6 +934,23 @@ export default function Gallery() {
             <option value="desc">Desc</option>
             <option value="asc">Asc</option>
           </select>
+        <label className="flex items-center gap-1 whitespace-nowrap">
+          Rated
+          <select
+            value={ratedParam}
+            onChange={(e) => handleRatedFilterChange(e.target.value)}
+            className="px-1.5 sm:px-2 py-1 rounded border border-zinc-300 dark:border-zinc-700 bg-white dark:bg-zinc-900 text-zinc-900 dark:text-zinc-100 text-xs sm:text-sm"
+          >
+            <option value="">All</option>
+            <option value="favorites">Favorites</option>
+            {Array.from({ length: MAX_RATING }, (_, i) => i + 1).map((rating) => (
+              <option key={rating} value={rating}>
+                {'★'.repeat(rating)}
+                {rating < MAX_RATING && ' or more'}
+              </option>
+            ))}
+          </select>
+        </label>
         <label className="flex items-center gap-1 whitespace-nowrap">
           File type
           <select
@@ -922,6 +1012,7 @@ export default function Gallery() {
           isLoading={!data && !items.length}
           onAssetDeleted={handleAssetsRemoved}
           personId={personId}
+          stackBursts={stackBursts}
         />
       ) : groupedItems ? (
         <>
@@ -1035,6 +1126,7 @@ export default function Gallery() {
                                             mobileColumns={mobileColumns}
                                             onAssetDeleted={handleAssetsRemoved}
                                             personId={personId}
+                                            stackBursts={stackBursts}
                                             filteredAssetIdsOverride={monthAssets.map(asset => asset.id)}
                                           />
                                         </div>
@@ -1051,6 +1143,7 @@ export default function Gallery() {
                                       mobileColumns={mobileColumns}
                                       onAssetDeleted={handleAssetsRemoved}
                                       personId={personId}
+                                      stackBursts={stackBursts}
                                       filteredAssetIdsOverride={groupItems.map(asset => asset.id)}
                                     />
                                   )}
@@ -1134,6 +1227,7 @@ export default function Gallery() {
                                 mobileColumns={mobileColumns}
                                 onAssetDeleted={handleAssetsRemoved}
                                 personId={personId}
+                                stackBursts={stackBursts}
                                 filteredAssetIdsOverride={showAsFolder ? monthAssets.map(asset => asset.id) : undefined}
                               />
                             </div>
@@ -1150,6 +1244,7 @@ export default function Gallery() {
                           mobileColumns={mobileColumns}
                           onAssetDeleted={handleAssetsRemoved}
                           personId={personId}
+                          stackBursts={stackBursts}
                           filteredAssetIdsOverride={showAsFolder ? groupItems.map(asset => asset.id) : undefined}
                         />
                       )
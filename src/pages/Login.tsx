@@ -0,0 +1,95 @@
+import { useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
+import { api } from '../lib/api';
+import { useAuthStore } from '../lib/auth';
+import { UnauthorizedError, describeError, errorMessageFromBody } from '../lib/errors';
+import { getActiveProfile } from '../lib/serverProfiles';
+
+export default function LoginPage() {
+  const navigate = useNavigate();
+  const [params] = useSearchParams();
+  const queryClient = useQueryClient();
+  const setSession = useAuthStore((s) => s.setSession);
+  const wasSignedOut = useAuthStore((s) => s.required);
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const server = getActiveProfile();
+
+  const onSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      const res = await api.login(username.trim(), password);
+      setSession({
+        token: res.token,
+        username: res.username,
+        expiresAt: res.expires_at !== null ? res.expires_at * 1000 : null,
+        role: res.role,
+      });
+      // Drop anything cached from the 401 responses that led here
+      queryClient.clear();
+      const next = params.get('next');
+      navigate(next && next.startsWith('/') && !next.startsWith('/login') ? next : '/', { replace: true });
+    } catch (err) {
+      // A 401 here means wrong credentials; prefer the server's own wording
+      setError(
+        err instanceof UnauthorizedError
+          ? errorMessageFromBody(err.body) ?? 'Incorrect username or password.'
+          : describeError(err).message
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-full flex items-center justify-center p-4">
+      <form
+        onSubmit={onSubmit}
+        className="w-full max-w-sm space-y-4 rounded-lg border border-zinc-200 dark:border-zinc-800 bg-white dark:bg-zinc-900 p-6 shadow-sm"
+      >
+        <div className="text-center">
+          <img src="/logo.png" alt="Nazr" className="h-10 w-auto mx-auto dark:invert dark:brightness-0 dark:contrast-200" />
+          <div className="mt-3 text-sm text-zinc-600 dark:text-zinc-400">
+            Sign in to <span className="font-medium">{server.name}</span>
+          </div>
+          {wasSignedOut && !error && (
+            <div className="mt-1 text-xs text-amber-700 dark:text-amber-300">Your session has ended. Please sign in again.</div>
+          )}
+        </div>
+        <div>
+          <label className="text-xs font-medium text-zinc-700 dark:text-zinc-300 mb-1 block">Username</label>
+          <input
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            autoComplete="username"
+            autoFocus
+            className="w-full p-2 rounded-md border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+        <div>
+          <label className="text-xs font-medium text-zinc-700 dark:text-zinc-300 mb-1 block">Password</label>
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete="current-password"
+            className="w-full p-2 rounded-md border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+        {error && <div className="text-xs text-red-600 dark:text-red-400">{error}</div>}
+        <button
+          type="submit"
+          disabled={!username.trim() || submitting}
+          className="w-full px-4 py-2 rounded-md bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium disabled:opacity-50"
+        >
+          {submitting ? 'Signing in…' : 'Sign in'}
+        </button>
+      </form>
+    </div>
+  );
+}
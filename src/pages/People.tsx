@@ -1,5 +1,5 @@
 import { useState, useEffect, useMemo } from 'react';
-import { useQuery, useMutation, useQueryClient, useQueries } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { api, media } from '../lib/api';
 import { Link } from 'react-router-dom';
 import { PencilIcon, TrashIcon, PlayIcon, XMarkIcon, Cog6ToothIcon, StopIcon, SparklesIcon, BarsArrowDownIcon } from '@heroicons/react/24/outline';
@@ -7,7 +7,11 @@ import ConfirmDialog from '../components/ConfirmDialog';
 import { Loading } from '../components/Loading';
 import ErrorView from '../components/ErrorView';
 import { useUIStore } from '../lib/store';
-import { usePageVisibility } from '../lib/hooks';
+import { usePageVisibility, usePersonSummaries } from '../lib/hooks';
+import { useLiveUpdatesStore } from '../lib/liveUpdates';
+import { usePermission } from '../lib/permissions';
+import { ApiError, NotFoundError } from '../lib/errors';
+import type { PersonSummary } from '../types';
 
 interface Person {
   id: number;
@@ -88,6 +92,8 @@ const comparePersonsByName = (a: Person, b: Person) => {
 };
 
 export default function PeoplePage() {
+  const canEdit = usePermission('edit');
+  const canManage = usePermission('manage');
   const [editingId, setEditingId] = useState<number | null>(null);
   const [editingName, setEditingName] = useState('');
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
@@ -128,6 +134,7 @@ export default function PeoplePage() {
   const setSmartMergeLevel = useUIStore((s) => s.setSmartMergeLevel);
   const queryClient = useQueryClient();
   const isPageVisible = usePageVisibility();
+  const liveMode = useLiveUpdatesStore((s) => s.mode);
 
   // Close modal with ESC key
   useEffect(() => {
@@ -173,25 +180,8 @@ export default function PeoplePage() {
     retry: false,
   });
 
-  // Fetch asset counts for all persons when sorting by photos
-  const assetCountQueries = useQueries({
-    queries: persons && sortBy === 'photos' ? persons.map((person) => ({
-      queryKey: ['personAssets', person.id],
-      queryFn: () => api.getPersonAssets(person.id),
-      staleTime: 30000, // Cache for 30 seconds
-    })) : [],
-  });
-
-  // Create a map of person ID to asset count
-  const assetCountMap = useMemo(() => {
-    if (!persons || sortBy !== 'photos') return new Map<number, number>();
-    const map = new Map<number, number>();
-    persons.forEach((person, index) => {
-      const assets = assetCountQueries[index]?.data;
-      map.set(person.id, assets?.length || 0);
-    });
-    return map;
-  }, [persons, assetCountQueries, sortBy]);
+  // Counts, cover faces and date ranges for every card in one request
+  const { data: summaries } = usePersonSummaries(isPageVisible && !!persons && persons.length > 0);
 
   // Sort persons based on selected sort option
   const sortedPersons = useMemo(() => {
@@ -202,14 +192,14 @@ export default function PeoplePage() {
       sorted.sort(comparePersonsByName);
     } else if (sortBy === 'photos') {
       sorted.sort((a, b) => {
-        const countA = assetCountMap.get(a.id) || 0;
-        const countB = assetCountMap.get(b.id) || 0;
+        const countA = summaries?.get(a.id)?.asset_count || 0;
+        const countB = summaries?.get(b.id)?.asset_count || 0;
         // Sort descending (most photos first)
         return countB - countA;
       });
     }
     return sorted;
-  }, [persons, sortBy, assetCountMap]);
+  }, [persons, sortBy, summaries]);
 
   const dropdownPersons = useMemo(() => {
     if (!persons) return [];
@@ -219,7 +209,7 @@ export default function PeoplePage() {
   const { data: faceStatus, error: faceStatusError } = useQuery({
     queryKey: ['faceDetectionStatus'],
     queryFn: () => api.faceDetectionStatus(),
-    refetchInterval: (query) => (!isPageVisible || query.state.error) ? false : 2000,
+    refetchInterval: (query) => (!isPageVisible || query.state.error || liveMode === 'stream') ? false : 2000,
     enabled: isPageVisible,
     retry: false,
   });
@@ -227,7 +217,7 @@ export default function PeoplePage() {
   const { data: faceProgress } = useQuery({
     queryKey: ['faceProgress'],
     queryFn: () => api.faceProgress(),
-    refetchInterval: (query) => (!isPageVisible || query.state.error) ? false : 10000,
+    refetchInterval: (query) => (!isPageVisible || query.state.error || liveMode === 'stream') ? false : 10000,
     enabled: isPageVisible,
     retry: false,
   });
@@ -270,8 +260,7 @@ export default function PeoplePage() {
       queryClient.invalidateQueries({ queryKey: ['persons'] });
       queryClient.invalidateQueries({ queryKey: ['faceProgress'] });
       queryClient.invalidateQueries({ queryKey: ['unassignedFaces'] });
-      queryClient.removeQueries({ queryKey: ['personAssets'] });
-      queryClient.removeQueries({ queryKey: ['personFace'] });
+      queryClient.removeQueries({ queryKey: ['personSummaries'] });
       setClearDialogOpen(false);
     },
   });
@@ -309,8 +298,7 @@ export default function PeoplePage() {
         : `Merged ${sourceLabel} into ${targetLabel} (${mergedCount} faces).`;
       setMergeStatus(statusMessage);
       queryClient.invalidateQueries({ queryKey: ['persons'] });
-      queryClient.invalidateQueries({ queryKey: ['personAssets', variables.targetId] });
-      queryClient.invalidateQueries({ queryKey: ['personFace', variables.targetId] });
+      queryClient.invalidateQueries({ queryKey: ['personSummaries'] });
       queryClient.invalidateQueries({ queryKey: ['faceProgress'] });
       queryClient.invalidateQueries({ queryKey: ['unassignedFaces'] });
       setMergeDialogOpen(false);
@@ -328,6 +316,7 @@ export default function PeoplePage() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['unassignedFaces'] });
       queryClient.invalidateQueries({ queryKey: ['persons'] });
+      queryClient.invalidateQueries({ queryKey: ['personSummaries'] });
       queryClient.invalidateQueries({ queryKey: ['faceProgress'] });
       setAssignFaceId(null);
       setSelectedAssignPersonId(null);
@@ -359,6 +348,7 @@ export default function PeoplePage() {
     mutationFn: () => api.smartMergePersons(getSmartMergeThreshold()),
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ['persons'] });
+      queryClient.invalidateQueries({ queryKey: ['personSummaries'] });
       queryClient.invalidateQueries({ queryKey: ['faceProgress'] });
       queryClient.invalidateQueries({ queryKey: ['unassignedFaces'] });
       // Show success message
@@ -642,18 +632,19 @@ export default function PeoplePage() {
       return;
     }
 
-    // Fetch asset counts and face IDs for both persons
+    // Use the cached summaries, fetching just these two if they are not loaded yet
     try {
-      const [sourceAssets, targetAssets, sourceFaceId, targetFaceId] = await Promise.all([
-        api.getPersonAssets(sourcePerson.id),
-        api.getPersonAssets(targetPerson.id),
-        api.getPersonFace(sourcePerson.id),
-        api.getPersonFace(targetPerson.id),
-      ]);
-      setMergeSourceCount(sourceAssets.length);
-      setMergeTargetCount(targetAssets.length);
-      setMergeSourceFaceId(sourceFaceId);
-      setMergeTargetFaceId(targetFaceId);
+      let sourceSummary = summaries?.get(sourcePerson.id);
+      let targetSummary = summaries?.get(targetPerson.id);
+      if (!sourceSummary || !targetSummary) {
+        const fetched = await api.getPersonSummaries([sourcePerson.id, targetPerson.id]);
+        sourceSummary = fetched.find((s) => s.person_id === sourcePerson.id);
+        targetSummary = fetched.find((s) => s.person_id === targetPerson.id);
+      }
+      setMergeSourceCount(sourceSummary?.asset_count ?? 0);
+      setMergeTargetCount(targetSummary?.asset_count ?? 0);
+      setMergeSourceFaceId(sourceSummary?.cover_face_id ?? null);
+      setMergeTargetFaceId(targetSummary?.cover_face_id ?? null);
       setMergeSource(sourcePerson);
       setMergeTarget(targetPerson);
       setMergeDialogOpen(true);
@@ -683,13 +674,8 @@ export default function PeoplePage() {
   };
 
   const featureError = faceStatusError || error;
-  const isFeatureUnavailable = !!featureError && (
-    (featureError as any)?.message?.includes('404') ||
-    (featureError as any)?.message?.includes('Not Found') ||
-    (featureError as any)?.message?.includes('501') ||
-    (featureError as any)?.message?.includes('HTTP 404') ||
-    (featureError as any)?.message?.includes('HTTP 501')
-  );
+  const isFeatureUnavailable =
+    featureError instanceof NotFoundError || (featureError instanceof ApiError && featureError.status === 501);
 
   if (isLoading) return <Loading />;
 
@@ -784,6 +770,8 @@ export default function PeoplePage() {
               Detecting... ({queueDepth})
             </div>
           )}
+          {canManage && (
+          <>
           {/* Configure Button */}
           <button
             onClick={() => setSettingsOpen(true)}
@@ -840,6 +828,8 @@ export default function PeoplePage() {
             <span className="hidden sm:inline">Clear Data</span>
             <span className="sm:hidden">Clear</span>
           </button>
+          </>
+          )}
         </div>
       </div>
 
@@ -876,6 +866,8 @@ export default function PeoplePage() {
             <PersonCard
               key={person.id}
               person={person}
+              summary={summaries?.get(person.id)}
+              canEdit={canEdit}
               isEditing={editingId === person.id}
               editingName={editingName}
               onEditingNameChange={setEditingName}
@@ -908,8 +900,9 @@ export default function PeoplePage() {
                 key={f.id}
                 src={media.faceThumbUrl(f.id, 160)}
                 alt={`Face ${f.id}`}
-                className="w-full h-auto rounded border border-zinc-200 dark:border-zinc-800 bg-zinc-100 dark:bg-zinc-900 cursor-context-menu"
+                className={`w-full h-auto rounded border border-zinc-200 dark:border-zinc-800 bg-zinc-100 dark:bg-zinc-900 ${canEdit ? 'cursor-context-menu' : ''}`}
                 onContextMenu={(e) => {
+                  if (!canEdit) return;
                   e.preventDefault();
                   e.stopPropagation();
                   setFaceContextMenu({ faceId: f.id, x: e.clientX, y: e.clientY });
@@ -1460,8 +1453,20 @@ export default function PeoplePage() {
   );
 }
 
+// "Mar 2019 – Aug 2024" from the summary's taken_at range
+function formatSeenRange(summary: PersonSummary | undefined): string | null {
+  if (!summary?.first_seen || !summary.last_seen) return null;
+  const format = (seconds: number) =>
+    new Date(seconds * 1000).toLocaleDateString(undefined, { month: 'short', year: 'numeric' });
+  const first = format(summary.first_seen);
+  const last = format(summary.last_seen);
+  return first === last ? first : `${first} – ${last}`;
+}
+
 function PersonCard({
   person,
+  summary,
+  canEdit,
   isEditing,
   editingName,
   onEditingNameChange,
@@ -1477,6 +1482,8 @@ function PersonCard({
   onDrop,
 }: {
   person: Person;
+  summary?: PersonSummary;
+  canEdit: boolean;
   isEditing: boolean;
   editingName: string;
   onEditingNameChange: (name: string) => void;
@@ -1491,29 +1498,22 @@ function PersonCard({
   onDragLeave: () => void;
   onDrop: (e: React.DragEvent) => void;
 }) {
-  const { data: assets } = useQuery({
-    queryKey: ['personAssets', person.id],
-    queryFn: () => api.getPersonAssets(person.id),
-  });
-
-  const { data: faceId } = useQuery({
-    queryKey: ['personFace', person.id],
-    queryFn: () => api.getPersonFace(person.id),
-    enabled: !isEditing,
-  });
-
-  const assetCount = assets?.length || 0;
+  const faceId = summary?.cover_face_id;
+  const assetCount = summary?.asset_count || 0;
   const displayName = person.name || `Person ${person.id}`;
+  const seenRange = formatSeenRange(summary);
+  // Dragging one person onto another merges them
+  const canDrag = canEdit && !isEditing;
 
   return (
     <div
-      draggable={!isEditing}
-      onDragStart={!isEditing ? onDragStart : undefined}
-      onDragEnd={!isEditing ? onDragEnd : undefined}
-      onDragOver={!isEditing ? onDragOver : undefined}
-      onDragLeave={!isEditing ? onDragLeave : undefined}
-      onDrop={!isEditing ? onDrop : undefined}
-      className={`border rounded-lg p-4 hover:shadow-md transition-all cursor-move ${
+      draggable={canDrag}
+      onDragStart={canDrag ? onDragStart : undefined}
+      onDragEnd={canDrag ? onDragEnd : undefined}
+      onDragOver={canDrag ? onDragOver : undefined}
+      onDragLeave={canDrag ? onDragLeave : undefined}
+      onDrop={canDrag ? onDrop : undefined}
+      className={`border rounded-lg p-4 hover:shadow-md transition-all ${canEdit ? 'cursor-move' : ''} ${
         isDragTarget
           ? 'border-blue-500 dark:border-blue-400 bg-blue-50 dark:bg-blue-900/20 shadow-lg scale-105'
           : 'border-zinc-200 dark:border-zinc-800'
@@ -1589,7 +1589,11 @@ function PersonCard({
                   <p className="text-sm text-zinc-600 dark:text-zinc-400 mt-1">
                     {assetCount} {assetCount === 1 ? 'photo' : 'photos'}
                   </p>
+                  {seenRange && (
+                    <p className="text-xs text-zinc-500 dark:text-zinc-500 mt-0.5">{seenRange}</p>
+                  )}
                 </Link>
+                {canEdit && (
                 <div className="flex gap-1 flex-shrink-0">
                   <button
                     onClick={(e) => {
@@ -1612,6 +1616,7 @@ function PersonCard({
                     <TrashIcon className="size-4" />
                   </button>
                 </div>
+                )}
               </div>
             </>
           )}
@@ -1,6 +1,7 @@
 import { useQuery } from '@tanstack/react-query';
 import { api } from '../lib/api';
 import { useStats, usePageVisibility } from '../lib/hooks';
+import { useLiveUpdatesStore } from '../lib/liveUpdates';
 import { formatNumber } from '../lib/utils';
 import { useState, useEffect } from 'react';
 
@@ -51,11 +52,12 @@ function getStatusText(status: string): string {
 export default function Performance() {
   const { data: stats } = useStats();
   const isPageVisible = usePageVisibility();
+  const liveMode = useLiveUpdatesStore((s) => s.mode);
   const { data: perf, isLoading, error } = useQuery({
     queryKey: ['performance'],
     queryFn: () => api.performance(),
     enabled: isPageVisible,
-    refetchInterval: (query) => (!isPageVisible || query.state.error) ? false : 2000,
+    refetchInterval: (query) => (!isPageVisible || query.state.error || liveMode === 'stream') ? false : 2000,
   });
 
   const [lastActive, setLastActive] = useState<{
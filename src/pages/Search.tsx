@@ -1,10 +1,32 @@
 import { useMemo, useState, useCallback, useRef, useEffect } from 'react';
 import { useLocation, useNavigate } from 'react-router-dom';
-import { useSearchInfinite } from '../lib/hooks';
+import { useQueryClient } from '@tanstack/react-query';
+import { useSearchInfinite, useSearchResultFacets } from '../lib/hooks';
 import GalleryGrid from '../components/GalleryGrid';
 import AdvancedFilters, { type AdvancedFilters as AdvancedFiltersType } from '../components/AdvancedFilters';
+import SavedSearchesSidebar from '../components/SavedSearchesSidebar';
+import SearchFacetsPanel from '../components/SearchFacetsPanel';
 import type { Asset } from '../types';
 import { useAdaptivePageSize } from '../lib/adaptiveLoading';
+import {
+  applyClientSideFilters,
+  clientSideFilters,
+  hasSearchFilters,
+  ignoredSearchFilters,
+  parseSearchFilters,
+  writeSearchFilters,
+} from '../lib/searchFilters';
+import { findSavedSearch, useSavedSearchesStore } from '../lib/savedSearches';
+import { facetsFromAssets } from '../lib/searchFacets';
+
+type MatchType = 'filename' | 'dirname' | 'path' | 'caption';
+
+const MATCH_LABELS: Record<MatchType, string> = {
+  filename: 'In Filename',
+  dirname: 'In Directory',
+  path: 'In Path',
+  caption: 'In Caption',
+};
 
 export default function SearchPage() {
   const { search } = useLocation();
@@ -14,40 +36,20 @@ export default function SearchPage() {
   const filenameSectionRef = useRef<HTMLHeadingElement>(null);
   const dirnameSectionRef = useRef<HTMLHeadingElement>(null);
   const pathSectionRef = useRef<HTMLHeadingElement>(null);
-  const [filters, setFilters] = useState<AdvancedFiltersType>({
-    from: params.get('from') || undefined,
-    to: params.get('to') || undefined,
-    camera_make: params.get('camera_make') || undefined,
-    camera_model: params.get('camera_model') || undefined,
-    minSize: params.get('minSize') ? Number(params.get('minSize')) : undefined,
-    maxSize: params.get('maxSize') ? Number(params.get('maxSize')) : undefined,
-    fileTypes: params.get('fileTypes')?.split(',') || undefined,
-    platformType: params.get('platformType') || undefined,
-  });
+  const captionSectionRef = useRef<HTMLHeadingElement>(null);
+  const [filters, setFilters] = useState<AdvancedFiltersType>(() => parseSearchFilters(params));
 
   // Keep local filters state in sync with URL query params so that
   // advanced filters stay consistent when the search box or navigation
   // changes the URL outside of the AdvancedFilters component.
   useEffect(() => {
-    setFilters({
-      from: params.get('from') || undefined,
-      to: params.get('to') || undefined,
-      camera_make: params.get('camera_make') || undefined,
-      camera_model: params.get('camera_model') || undefined,
-      minSize: params.get('minSize') ? Number(params.get('minSize')) : undefined,
-      maxSize: params.get('maxSize') ? Number(params.get('maxSize')) : undefined,
-      fileTypes: params.get('fileTypes')?.split(',') || undefined,
-      platformType: params.get('platformType') || undefined,
-    });
+    setFilters(parseSearchFilters(params));
   }, [search, params]);
 
+  // All filters go to the backend so totals and match counts cover the filtered set
   const qParams = {
     q: params.get('q') || '',
-    from: params.get('from') || undefined,
-    to: params.get('to') || undefined,
-    camera_make: params.get('camera_make') || undefined,
-    camera_model: params.get('camera_model') || undefined,
-    platformType: params.get('platformType') || undefined,
+    ...parseSearchFilters(params),
     pageSize: adaptivePageSize,
   };
   const rq = useSearchInfinite(qParams);
@@ -55,10 +57,28 @@ export default function SearchPage() {
   const allItems = (rq.data?.pages.flatMap((p) => p.items) ?? []).filter(a => !deletedIds.has(a.id));
   
   // Get match counts from the first page (they're the same across all pages)
-  const matchCounts = rq.data?.pages[0]?.match_counts;
+  const firstPage = rq.data?.pages[0];
+  const matchCounts = firstPage?.match_counts;
+  // Filters an older backend ignored, applied to the loaded pages instead
+  const fallbackFilters = useMemo(() => clientSideFilters(filters, firstPage), [filters, firstPage]);
+  const isClientFiltering = hasSearchFilters(fallbackFilters);
+  const ignoredFilters = ignoredSearchFilters(filters, firstPage);
+
+  // Opening a saved search resets its "new since last viewed" count
+  const queryClient = useQueryClient();
+  const savedSearches = useSavedSearchesStore((s) => s.searches);
+  const markViewed = useSavedSearchesStore((s) => s.markViewed);
+  const currentSaved = useMemo(() => findSavedSearch(savedSearches, params), [savedSearches, params]);
+  // The backend total overcounts while filters are applied here, so it is not recorded
+  const total = isClientFiltering ? undefined : firstPage?.total;
+  useEffect(() => {
+    if (!currentSaved || total === undefined) return;
+    markViewed(currentSaved.id, total);
+    queryClient.setQueryData(['savedSearchTotal', currentSaved.q, currentSaved.filters], total);
+  }, [currentSaved, total, markViewed, queryClient]);
 
   // Helper function to determine match type (mirrors backend priority logic)
-  const getMatchType = useCallback((asset: Asset, query: string): 'filename' | 'dirname' | 'path' => {
+  const getMatchType = useCallback((asset: Asset, query: string): MatchType => {
     if (!query) return 'path';
     const lowerQuery = query.toLowerCase();
     // Check filename first (priority 1)
@@ -73,32 +93,26 @@ export default function SearchPage() {
     if (asset.path.toLowerCase().includes(lowerQuery)) {
       return 'path';
     }
-    // If FTS5 matched but we can't find it in filename, dirname, or path,
+    // Then the caption (priority 4)
+    if (asset.caption?.toLowerCase().includes(lowerQuery)) {
+      return 'caption';
+    }
+    // If FTS5 matched but we can't find it in filename, dirname, path or caption,
     // it might be a tokenization issue - default to path for now
     return 'path';
   }, []);
 
-  // Client-side filtering for size and file type
-  const filteredItems = useMemo(() => {
-    return allItems.filter((item: Asset) => {
-      // Size filter
-      if (filters.minSize && item.size_bytes < filters.minSize) return false;
-      if (filters.maxSize && item.size_bytes > filters.maxSize) return false;
-
-      // File type filter
-      if (filters.fileTypes && filters.fileTypes.length > 0) {
-        const matchesType = filters.fileTypes.some((type) => {
-          if (type.includes('/')) {
-            return item.mime.startsWith(type);
-          }
-          return item.mime.includes(type);
-        });
-        if (!matchesType) return false;
-      }
+  const filteredItems = useMemo(
+    () => applyClientSideFilters(allItems, fallbackFilters),
+    [allItems, fallbackFilters]
+  );
 
-      return true;
-    });
-  }, [allItems, filters.minSize, filters.maxSize, filters.fileTypes]);
+  // Facets cover the whole result set; older backends get the loaded pages' instead
+  const { data: resultFacets } = useSearchResultFacets({ q: qParams.q, ...parseSearchFilters(params) });
+  const facets = useMemo(
+    () => resultFacets ?? (resultFacets === null ? facetsFromAssets(filteredItems) : undefined),
+    [resultFacets, filteredItems]
+  );
 
   // Group filtered items by match type
   const groupedResults = useMemo(() => {
@@ -127,10 +141,11 @@ export default function SearchPage() {
       return [{ type: 'filename' as const, items: filteredItems }];
     }
 
-    const groups: { type: 'filename' | 'dirname' | 'path'; items: Asset[] }[] = [
+    const groups: { type: MatchType; items: Asset[] }[] = [
       { type: 'filename', items: [] },
       { type: 'dirname', items: [] },
       { type: 'path', items: [] },
+      { type: 'caption', items: [] },
     ];
 
     // When both text and wildcard patterns are present (e.g. "vacation *.jpg"),
@@ -141,7 +156,7 @@ export default function SearchPage() {
     filteredItems.forEach((item) => {
       const matchType = getMatchType(item, groupingQuery);
       // Only add to group if we actually found a match in one of the fields
-      // If FTS5 matched but we can't find it in filename/dirname/path, skip it
+      // If FTS5 matched but we can't find it in filename/dirname/path/caption, skip it
       // (This handles FTS5 tokenization edge cases)
       if (matchType === 'path') {
         // Double-check that path actually contains the query
@@ -161,7 +176,7 @@ export default function SearchPage() {
       }
     });
 
-    // Return only groups that have items, maintaining order: filename, dirname, path
+    // Return only groups that have items, maintaining order: filename, dirname, path, caption
     return groups.filter(g => g.items.length > 0);
   }, [filteredItems, qParams.q, getMatchType]);
 
@@ -186,20 +201,10 @@ export default function SearchPage() {
 
   const handleFiltersChange = useCallback((newFilters: AdvancedFiltersType) => {
     setFilters(newFilters);
-    // Auto-apply server-side filters, client-side will be applied in filteredItems
     const p = new URLSearchParams();
     const q = params.get('q');
     if (q) p.set('q', q);
-    if (newFilters.from) p.set('from', newFilters.from);
-    if (newFilters.to) p.set('to', newFilters.to);
-    if (newFilters.camera_make) p.set('camera_make', newFilters.camera_make);
-    if (newFilters.camera_model) p.set('camera_model', newFilters.camera_model);
-    if (newFilters.minSize) p.set('minSize', String(newFilters.minSize));
-    if (newFilters.maxSize) p.set('maxSize', String(newFilters.maxSize));
-    if (newFilters.fileTypes && newFilters.fileTypes.length > 0) {
-      p.set('fileTypes', newFilters.fileTypes.join(','));
-    }
-    if (newFilters.platformType) p.set('platformType', newFilters.platformType);
+    writeSearchFilters(p, newFilters);
     navigate(`/search?${p.toString()}`);
   }, [params, navigate]);
 
@@ -210,15 +215,15 @@ export default function SearchPage() {
     navigate(`/search?${p.toString()}`);
   }, [params, navigate]);
 
-  const scrollToSection = useCallback((type: 'filename' | 'dirname' | 'path') => {
-    const ref = type === 'filename' ? filenameSectionRef : type === 'dirname' ? dirnameSectionRef : pathSectionRef;
+  const scrollToSection = useCallback((type: MatchType) => {
+    const ref = type === 'filename' ? filenameSectionRef : type === 'dirname' ? dirnameSectionRef : type === 'path' ? pathSectionRef : captionSectionRef;
     if (ref.current) {
       ref.current.scrollIntoView({ behavior: 'smooth', block: 'start' });
     }
   }, []);
 
-  return (
-    <div className="container-responsive py-6 space-y-4">
+  const results = (
+    <div className="flex-1 min-w-0 space-y-4">
       <AdvancedFilters
         value={filters}
         onChange={handleFiltersChange}
@@ -227,7 +232,13 @@ export default function SearchPage() {
         availableModels={availableModels}
       />
 
-      {filteredItems.length !== allItems.length && (
+      {ignoredFilters.length > 0 && (
+        <div className="text-sm text-amber-700 dark:text-amber-300">
+          This server cannot filter by {ignoredFilters.join(' or ')}; those filters were ignored.
+        </div>
+      )}
+
+      {isClientFiltering && filteredItems.length !== allItems.length && (
         <div className="text-sm text-zinc-500">
           Showing {filteredItems.length} of {allItems.length} results
         </div>
@@ -237,11 +248,7 @@ export default function SearchPage() {
         <div className="flex justify-end">
           <div className="text-xs sm:text-sm text-zinc-600 dark:text-zinc-400 space-x-3">
             {groupedResults.map((group) => {
-              const totalCount = matchCounts ? (
-                group.type === 'filename' ? matchCounts.filename :
-                group.type === 'dirname' ? matchCounts.dirname :
-                matchCounts.path
-              ) : null;
+              const totalCount = matchCounts ? (matchCounts[group.type] ?? null) : null;
               const displayCount = totalCount !== null ? totalCount : group.items.length;
               
               return (
@@ -250,9 +257,7 @@ export default function SearchPage() {
                   onClick={() => scrollToSection(group.type)}
                   className="hover:text-blue-600 dark:hover:text-blue-400 hover:underline cursor-pointer transition-colors"
                 >
-                  {group.type === 'filename' && `In Filename (${displayCount})`}
-                  {group.type === 'dirname' && `In Directory (${displayCount})`}
-                  {group.type === 'path' && `In Path (${displayCount})`}
+                  {`${MATCH_LABELS[group.type]} (${displayCount})`}
                 </button>
               );
             })}
@@ -264,23 +269,15 @@ export default function SearchPage() {
         <div key={group.type} className="space-y-4">
           {qParams.q && (
             <h2 
-              ref={group.type === 'filename' ? filenameSectionRef : group.type === 'dirname' ? dirnameSectionRef : pathSectionRef}
+              ref={group.type === 'filename' ? filenameSectionRef : group.type === 'dirname' ? dirnameSectionRef : group.type === 'path' ? pathSectionRef : captionSectionRef}
               className="text-xl font-semibold text-zinc-900 dark:text-zinc-100 border-b border-zinc-200 dark:border-zinc-800 pb-2"
             >
               {(() => {
-                const totalCount = matchCounts ? (
-                  group.type === 'filename' ? matchCounts.filename :
-                  group.type === 'dirname' ? matchCounts.dirname :
-                  matchCounts.path
-                ) : null;
+                const totalCount = matchCounts ? (matchCounts[group.type] ?? null) : null;
                 const displayCount = totalCount !== null ? totalCount : group.items.length;
                 
                 return (
-                  <>
-                    {group.type === 'filename' && `In Filename (${displayCount})`}
-                    {group.type === 'dirname' && `In Directory (${displayCount})`}
-                    {group.type === 'path' && `In Path (${displayCount})`}
-                  </>
+                  <>{`${MATCH_LABELS[group.type]} (${displayCount})`}</>
                 );
               })()}
             </h2>
@@ -304,5 +301,24 @@ export default function SearchPage() {
       ))}
     </div>
   );
+
+  return (
+    <div className="container-responsive py-6 flex flex-col lg:flex-row gap-6">
+      <div className="lg:w-56 flex-shrink-0">
+        <SavedSearchesSidebar q={qParams.q} filters={filters} total={total} current={currentSaved} />
+        {facets && (
+          <div className="mt-6">
+            <SearchFacetsPanel
+              facets={facets}
+              filters={filters}
+              onChange={handleFiltersChange}
+              partial={resultFacets === null}
+            />
+          </div>
+        )}
+      </div>
+      {results}
+    </div>
+  );
 }
 
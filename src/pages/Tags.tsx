@@ -0,0 +1,94 @@
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { TagIcon } from '@heroicons/react/24/outline';
+import { useTagList } from '../lib/tags';
+import { normalizeTag } from '../lib/tagNames';
+import { Loading, Empty } from '../components/Loading';
+import ErrorView from '../components/ErrorView';
+
+type TagSort = 'count' | 'name';
+
+export default function TagsPage() {
+  const { data: tags, isLoading, error, refetch } = useTagList();
+  const [filter, setFilter] = useState('');
+  const [sort, setSort] = useState<TagSort>('count');
+
+  const visible = useMemo(() => {
+    const needle = normalizeTag(filter);
+    const list = (tags ?? []).filter((t) => t.name.includes(needle));
+    return sort === 'name' ? [...list].sort((a, b) => a.name.localeCompare(b.name)) : list;
+  }, [tags, filter, sort]);
+
+  if (isLoading) return <Loading label="Loading tags..." />;
+  if (error) return <ErrorView error={error} onRetry={() => refetch()} />;
+
+  if (tags === null) {
+    return (
+      <div className="container-responsive py-6">
+        <Empty>This server does not support tags.</Empty>
+      </div>
+    );
+  }
+
+  if (!tags || tags.length === 0) {
+    return (
+      <div className="container-responsive py-6">
+        <Empty>No tags yet. Add them from an asset's details, the Lightbox or a selection.</Empty>
+      </div>
+    );
+  }
+
+  // Font size grows with use, relative to the most used tag
+  const maxCount = tags[0].count;
+
+  return (
+    <div className="container-responsive py-6 space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div>
+          <h1 className="text-xl font-semibold flex items-center gap-2">
+            <TagIcon className="w-5 h-5" />
+            Tags
+          </h1>
+          <p className="text-sm text-zinc-600 dark:text-zinc-400">
+            {tags.length} {tags.length === 1 ? 'tag' : 'tags'}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <input
+            type="search"
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder="Filter tags"
+            className="px-2 py-1.5 rounded border border-zinc-300 dark:border-zinc-700 bg-white dark:bg-zinc-900 text-sm"
+          />
+          <select
+            value={sort}
+            onChange={(e) => setSort(e.target.value as TagSort)}
+            className="px-2 py-1.5 rounded border border-zinc-300 dark:border-zinc-700 bg-white dark:bg-zinc-900 text-zinc-900 dark:text-zinc-100 text-sm"
+          >
+            <option value="count">Most used</option>
+            <option value="name">Name</option>
+          </select>
+        </div>
+      </div>
+
+      {visible.length === 0 ? (
+        <Empty>No tags match "{filter}".</Empty>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {visible.map((tag) => (
+            <Link
+              key={tag.name}
+              to={`/search?tag=${encodeURIComponent(tag.name)}`}
+              className="inline-flex items-baseline gap-1.5 rounded-full border border-zinc-200 dark:border-zinc-800 bg-white dark:bg-zinc-900 hover:border-blue-500 px-3 py-1 transition-colors"
+              style={{ fontSize: `${0.8 + 0.5 * (tag.count / maxCount)}rem` }}
+            >
+              {tag.name}
+              <span className="text-xs text-zinc-500">{tag.count.toLocaleString()}</span>
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -22,6 +22,8 @@ export interface Asset {
   video_codec?: string;
   mime: string;
   flags: number;
+  tags?: string[]; // keywords; older backends omit them
+  caption?: string | null; // free-text description
 }
 
 export interface Paginated<T> {
@@ -33,10 +35,60 @@ export interface SearchMatchCounts {
   filename: number;
   dirname: number;
   path: number;
+  caption?: number; // older backends don't search captions
+}
+
+// Filters from the Search page's advanced panel, in URL form
+export interface SearchFilters {
+  from?: string;
+  to?: string;
+  camera_make?: string;
+  camera_model?: string;
+  minSize?: number;
+  maxSize?: number;
+  fileTypes?: string[];
+  platformType?: string;
+  lens?: string;
+  ext?: string[];
+  person?: string; // person name
+  album?: string; // album name
+  folder?: string; // dirname prefix
+  minDuration?: number; // seconds
+  maxDuration?: number;
+  favorite?: boolean;
+  minRating?: number; // 1-5 stars
+  tag?: string; // keyword
 }
 
 export interface SearchResult extends Paginated<Asset> {
   match_counts?: SearchMatchCounts;
+  // Query parameters the backend applied; older servers omit it
+  applied_filters?: string[];
+}
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+// Distinct metadata values from `GET /assets/facets`, most common first
+export interface SearchFacets {
+  camera_makes: FacetCount[];
+  camera_models: FacetCount[];
+  lenses: FacetCount[];
+  dirnames: FacetCount[];
+}
+
+// Breakdown of a whole search result from `GET /assets/search/facets`.
+// Years are `taken_at` years as strings; persons are named persons only.
+export interface SearchResultFacets {
+  camera_makes: FacetCount[];
+  camera_models: FacetCount[];
+  lenses: FacetCount[];
+  years: FacetCount[];
+  file_types: FacetCount[];
+  platform_types: FacetCount[];
+  persons: FacetCount[];
 }
 
 export interface QueuesStats {
@@ -134,3 +186,90 @@ export interface BulkPermanentDeleteResponse {
   read_only_failures: Array<{ id: number; path?: string | null; error?: string | null }>;
 }
 
+// Assets with identical content, from `/assets/duplicates`
+export interface DuplicateGroup {
+  sha256: string;
+  size_bytes: number;
+  assets: Asset[];
+}
+
+export interface Person {
+  id: number;
+  name: string | null;
+  created_at: number;
+}
+
+// Per-person aggregates from `GET /persons/summary`. Dates are taken_at
+// seconds of the earliest and latest asset containing the person.
+export interface PersonSummary {
+  person_id: number;
+  asset_count: number;
+  face_count: number | null;
+  cover_face_id: number | null;
+  first_seen: number | null;
+  last_seen: number | null;
+}
+
+export interface BackendAlbum {
+  id: number;
+  name: string;
+  description?: string;
+  asset_ids: number[];
+  created_at: number;
+  updated_at: number;
+  // Containing album folder; null or missing at the top level
+  folder_id?: number | null;
+  // Asset shown on the album card; null or missing uses the first asset
+  cover_asset_id?: number | null;
+  // Default order of the album's assets; `manual` follows `asset_ids`
+  sort?: AlbumSort;
+}
+
+export type AlbumSort = 'manual' | 'taken' | 'filename';
+
+// Favorite and rating changes for `PUT /assets/flags`; omitted fields are kept
+export interface AssetFlagChanges {
+  favorite?: boolean;
+  rating?: number; // 0-5, 0 clears
+}
+
+// Keywords to add to and remove from assets with `PUT /assets/tags`
+export interface AssetTagChanges {
+  add?: string[];
+  remove?: string[];
+}
+
+export interface TagCount {
+  name: string;
+  count: number;
+}
+
+// Identifies an asset across servers, where numeric ids differ
+export interface AssetIdentity {
+  path: string;
+  sha256?: string;
+}
+
+export interface BackendAlbumFolder {
+  id: number;
+  name: string;
+  parent_id: number | null;
+  created_at: number;
+  updated_at: number;
+}
+
+export type Role = 'viewer' | 'editor' | 'admin';
+
+export interface LoginResponse {
+  token: string;
+  username: string;
+  expires_at: number | null; // epoch seconds; null for sessions that do not expire
+  role?: Role; // omitted by backends without roles
+}
+
+export interface HealthResponse {
+  status: string;
+  version: string;
+  database: string;
+  backend_libraries: string[];
+}